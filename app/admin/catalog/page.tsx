@@ -0,0 +1,10 @@
+import type { Metadata } from 'next'
+import CatalogStatsDashboard from './stats-client'
+
+export const metadata: Metadata = {
+  title: 'Catalog Statistics · Smart Coatings Search'
+}
+
+export default function Page() {
+  return <CatalogStatsDashboard />
+}
@@ -0,0 +1,326 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { CatalogStatistics, DistributionEntry, FillRate, ProductGap } from '@/lib/catalog/statistics'
+
+// Rates below this are highlighted as gaps
+const LOW_FILL_RATE = 0.9
+
+// The admin key is kept for the tab only
+const API_KEY_STORAGE = 'adminApiKey'
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—'
+}
+
+function FillRateTable({ title, rates }: { title: string; rates: FillRate[] }) {
+  return (
+    <section className="bg-white rounded-xl shadow p-6">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">{title}</h2>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-2 pr-4 font-semibold">Field</th>
+            <th className="py-2 pr-4 font-semibold w-1/2">Fill rate</th>
+            <th className="py-2 font-semibold text-right">Missing</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {[...rates].sort((a, b) => a.rate - b.rate).map(rate => (
+            <tr key={rate.field}>
+              <td className="py-2 pr-4 text-gray-900">
+                {rate.label}
+                {rate.label !== rate.field && <span className="ml-2 text-xs text-gray-400">{rate.field}</span>}
+              </td>
+              <td className="py-2 pr-4">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${rate.rate < LOW_FILL_RATE ? 'bg-amber-500' : 'bg-green-500'}`}
+                      style={{ width: percent(rate.rate) }}
+                    />
+                  </div>
+                  <span className={`w-14 text-right ${rate.rate < LOW_FILL_RATE ? 'text-amber-700 font-semibold' : 'text-gray-700'}`}>
+                    {percent(rate.rate)}
+                  </span>
+                </div>
+              </td>
+              <td className="py-2 text-right text-gray-700">{rate.missing.toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  )
+}
+
+function GapTable({ title, count, products }: { title: string; count: number; products: ProductGap[] }) {
+  return (
+    <section className="bg-white rounded-xl shadow p-6">
+      <h2 className="text-lg font-bold text-gray-900 mb-1">{title}</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        {count.toLocaleString()} products{products.length < count ? `, first ${products.length} listed` : ''}
+      </p>
+      {products.length === 0 ? (
+        <p className="text-sm text-green-700">✅ None</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-semibold">SKU</th>
+                <th className="py-2 pr-4 font-semibold">Product</th>
+                <th className="py-2 pr-4 font-semibold">Family / Type</th>
+                <th className="py-2 font-semibold">Missing</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {products.map((product, idx) => (
+                <tr key={`${product.sku}-${idx}`}>
+                  <td className="py-2 pr-4 font-mono text-gray-900">{product.sku || <span className="text-red-600">no SKU</span>}</td>
+                  <td className="py-2 pr-4 text-gray-700">{product.name || '—'}</td>
+                  <td className="py-2 pr-4 text-gray-500">{[product.family, product.productType].filter(Boolean).join(' / ') || '—'}</td>
+                  <td className="py-2 text-amber-700">{product.missing.join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function DistributionTable({ title, entries }: { title: string; entries: DistributionEntry[] }) {
+  return (
+    <section className="bg-white rounded-xl shadow p-6">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">{title}</h2>
+      <div className="max-h-96 overflow-y-auto">
+        <table className="min-w-full text-sm">
+          <thead className="sticky top-0 bg-white">
+            <tr className="text-left text-gray-500">
+              <th className="py-2 pr-4 font-semibold">Value</th>
+              <th className="py-2 pr-4 font-semibold text-right">Products</th>
+              <th className="py-2 pr-4 font-semibold text-right">Share</th>
+              <th className="py-2 font-semibold text-right">Missing key specs</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {entries.map(entry => (
+              <tr key={entry.value ?? ''}>
+                <td className="py-2 pr-4 text-gray-900">{entry.value ?? <span className="italic text-red-600">Unassigned</span>}</td>
+                <td className="py-2 pr-4 text-right text-gray-700">{entry.count.toLocaleString()}</td>
+                <td className="py-2 pr-4 text-right text-gray-700">{percent(entry.share)}</td>
+                <td className={`py-2 text-right ${entry.missingKeySpecs > 0 ? 'text-amber-700 font-semibold' : 'text-gray-400'}`}>
+                  {entry.missingKeySpecs.toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
+
+// Completeness of the catalog, for spotting products the data team still
+// needs to fill in. The statistics endpoint takes the ADMIN_API_KEY.
+export default function CatalogStatsDashboard() {
+  const [data, setData] = useState<any>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [limit, setLimit] = useState(100)
+  const [apiKey, setApiKey] = useState('')
+  const [keyInput, setKeyInput] = useState('')
+
+  useEffect(() => {
+    setApiKey(sessionStorage.getItem(API_KEY_STORAGE) || '')
+  }, [])
+
+  const loadStatistics = async () => {
+    if (!apiKey) return
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/admin/catalog/stats?limit=${limit}`, {
+        headers: { Authorization: `Bearer ${apiKey}` }
+      })
+      const result = await response.json()
+
+      if (response.status === 401 || response.status === 403) {
+        sessionStorage.removeItem(API_KEY_STORAGE)
+        setApiKey('')
+        setData(null)
+      }
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Request failed with status ${response.status}`)
+      }
+
+      setData(result)
+    } catch (err: any) {
+      console.error('❌ Error loading catalog statistics:', err)
+      setError(err.message || 'Failed to load catalog statistics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadStatistics()
+  }, [limit, apiKey])
+
+  const saveApiKey = (e: React.FormEvent) => {
+    e.preventDefault()
+    const key = keyInput.trim()
+    if (!key) return
+    sessionStorage.setItem(API_KEY_STORAGE, key)
+    setKeyInput('')
+    setApiKey(key)
+  }
+
+  const completeness: CatalogStatistics | null = data?.statistics || null
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">📊 Catalog Statistics</h1>
+            {data && (
+              <p className="text-sm text-gray-500 mt-1">
+                Snapshot v{data.snapshotVersion} · generated {formatDate(data.timestamp)}
+              </p>
+            )}
+          </div>
+          {apiKey && (
+            <div className="flex items-center gap-3">
+              <label className="text-sm text-gray-600">
+                List up to{' '}
+                <select
+                  value={limit}
+                  onChange={(e) => setLimit(parseInt(e.target.value, 10))}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  {[25, 100, 500, 1000].map(value => <option key={value} value={value}>{value}</option>)}
+                </select>{' '}
+                products per gap
+              </label>
+              <button
+                onClick={loadStatistics}
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Loading...' : 'Refresh'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-sm text-red-800">
+            ❌ {error}
+          </div>
+        )}
+
+        {!apiKey && (
+          <form onSubmit={saveApiKey} className="bg-white rounded-xl shadow p-6 flex flex-wrap items-end gap-3">
+            <label className="flex-1 min-w-[16rem] text-sm text-gray-700">
+              Admin API key
+              <input
+                type="password"
+                value={keyInput}
+                onChange={(e) => setKeyInput(e.target.value)}
+                autoComplete="off"
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2"
+              />
+            </label>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700"
+            >
+              Show statistics
+            </button>
+          </form>
+        )}
+
+        {data && completeness && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Products', value: completeness.totalProducts },
+                { label: 'Families', value: completeness.distribution.family.filter(entry => entry.value !== null).length },
+                { label: 'Missing embeddings', value: completeness.missingEmbeddings.count, warn: true },
+                { label: 'Missing key specs', value: completeness.missingKeySpecs.count, warn: true }
+              ].map(card => (
+                <div key={card.label} className="bg-white rounded-xl shadow p-4">
+                  <p className="text-sm text-gray-500">{card.label}</p>
+                  <p className={`text-2xl font-bold ${card.warn && card.value > 0 ? 'text-amber-700' : 'text-gray-900'}`}>
+                    {card.value.toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <section className="bg-white rounded-xl shadow p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-4">Ingest</h2>
+              <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                {[
+                  ['First product created', completeness.ingest.firstCreatedAt],
+                  ['Last product created', completeness.ingest.lastCreatedAt],
+                  ['Last product updated', completeness.ingest.lastUpdatedAt],
+                  ['Snapshot loaded', completeness.ingest.snapshotLoadedAt],
+                  ['Snapshot refreshed', completeness.ingest.snapshotRefreshedAt]
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-gray-500">{label}</dt>
+                    <dd className="text-gray-900 font-medium">{formatDate(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <FillRateTable title="Field completeness" rates={completeness.fillRates.fields} />
+              <FillRateTable title="Column fill rates" rates={completeness.fillRates.columns} />
+            </div>
+
+            <section className="bg-white rounded-xl shadow p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-4">Missing key specs by field</h2>
+              <div className="flex flex-wrap gap-3">
+                {completeness.missingKeySpecs.fields.map(field => (
+                  <span key={field} className="px-3 py-1 rounded-full bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                    {completeness.fillRates.fields.find(rate => rate.field === field)?.label || field}:{' '}
+                    <strong>{(completeness.missingKeySpecs.byField[field] || 0).toLocaleString()}</strong>
+                  </span>
+                ))}
+              </div>
+            </section>
+
+            <GapTable
+              title="Products missing key specs"
+              count={completeness.missingKeySpecs.count}
+              products={completeness.missingKeySpecs.products}
+            />
+            <GapTable
+              title="Products missing embeddings"
+              count={completeness.missingEmbeddings.count}
+              products={completeness.missingEmbeddings.products}
+            />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <DistributionTable title="By family" entries={completeness.distribution.family} />
+              <DistributionTable title="By product type" entries={completeness.distribution.productType} />
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
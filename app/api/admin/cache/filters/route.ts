@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clearFilterOptionsCache } from '@/lib/catalog'
+import { clearProductCache } from '@/lib/search'
+import { authorizeAdmin, cacheDiagnostics } from '@/lib/admin'
+
+// Drops the memoised filter options and the vocabularies of the search cache,
+// in memory and storage. The catalog snapshot is kept, so the next request
+// rebuilds them without touching the database.
+export async function DELETE(request: NextRequest) {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  try {
+    const clearedSelections = clearFilterOptionsCache()
+    await clearProductCache()
+    console.log(`🧹 Filter cache cleared (${clearedSelections} cached selections)`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Filter cache cleared',
+      clearedSelections,
+      cache: await cacheDiagnostics()
+    })
+  } catch (error: any) {
+    console.error('❌ Error clearing filter cache:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to clear filter cache'
+    }, { status: 500 })
+  }
+}
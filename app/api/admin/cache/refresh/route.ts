@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCatalogSnapshotStore } from '@/lib/catalog'
+import { getProductCache } from '@/lib/search'
+import { authorizeAdmin, cacheDiagnostics } from '@/lib/admin'
+
+export const maxDuration = 60
+
+// Body: { full?: boolean }. Picks up rows changed since the snapshot's
+// watermark, or reloads the whole catalog with full: true, then rebuilds the
+// search cache from the result.
+export async function POST(request: NextRequest) {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    const full = body?.full === true
+
+    console.log(`🔄 Admin cache refresh (${full ? 'full' : 'incremental'})`)
+
+    const refresh = await getCatalogSnapshotStore().refresh({ full })
+    await getProductCache()
+
+    return NextResponse.json({
+      success: true,
+      refresh: {
+        mode: refresh.mode,
+        changedRows: refresh.changedRows,
+        durationMs: refresh.durationMs
+      },
+      cache: await cacheDiagnostics()
+    })
+  } catch (error: any) {
+    console.error('❌ Error refreshing cache:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to refresh cache'
+    }, { status: 500 })
+  }
+}
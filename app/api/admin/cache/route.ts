@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeAdmin, cacheDiagnostics } from '@/lib/admin'
+
+// Admin endpoints take the ADMIN_API_KEY as a Bearer token or x-api-key.
+// GET reports the age and size of the catalog snapshot, the search cache
+// built from it and their persisted copies, without loading anything.
+export async function GET(request: NextRequest) {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  try {
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      cache: await cacheDiagnostics()
+    })
+  } catch (error: any) {
+    console.error('❌ Error reading cache diagnostics:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to read cache diagnostics'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProductCache } from '@/lib/search'
+import { authorizeAdmin, cacheDiagnostics } from '@/lib/admin'
+
+export const maxDuration = 60
+
+// Loads whatever isn't loaded yet (the snapshot, from storage if persisted,
+// and the search cache) so the next search doesn't pay for it. Safe to call
+// from a deploy hook or cron; a warm instance returns straight away.
+export async function POST(request: NextRequest) {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  try {
+    const startTime = Date.now()
+    await getProductCache()
+
+    return NextResponse.json({
+      success: true,
+      durationMs: Date.now() - startTime,
+      cache: await cacheDiagnostics()
+    })
+  } catch (error: any) {
+    console.error('❌ Error warming cache:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to warm cache'
+    }, { status: 500 })
+  }
+}
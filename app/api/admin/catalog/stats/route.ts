@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { computeCatalogStatistics, getCatalogRepository, getCatalogSnapshot } from '@/lib/catalog'
+import { authorizeAdmin } from '@/lib/admin'
+
+const DEFAULT_GAP_LIMIT = 100
+const MAX_GAP_LIMIT = 1000
+
+// Completeness of the catalog for the data team (rendered at /admin/catalog):
+// per-column and per-field fill rates, products missing embeddings or key
+// specs (?limit= caps how many are listed), distribution by family and type,
+// and ingest timestamps
+export async function GET(request: NextRequest) {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  try {
+    const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+    const limit = requestedLimit >= 0 ? Math.min(requestedLimit, MAX_GAP_LIMIT) : DEFAULT_GAP_LIMIT
+
+    const snapshot = await getCatalogSnapshot()
+    const statistics = await computeCatalogStatistics(snapshot, getCatalogRepository(), { limit })
+
+    console.log(`📊 Catalog statistics for snapshot v${snapshot.version}: ${statistics.missingKeySpecs.count} products missing key specs, ${statistics.missingEmbeddings.count} missing embeddings`)
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      snapshotVersion: snapshot.version,
+      statistics
+    })
+  } catch (error: any) {
+    console.error('❌ Error computing catalog statistics:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to compute catalog statistics'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { localizeProducts, toProductRecord } from '@/lib/catalog'
+import {
+  MAX_COMPARED_PRODUCTS,
+  MIN_COMPARED_PRODUCTS,
+  generateComparisonAnalysis,
+  getComparedFields,
+  WinnerDirection,
+  comparisonWithoutAnalysis,
+  resolveComparisonSkus,
+  sanitizeSkuList
+} from '@/lib/comparison'
+import { parseUnitSystem } from '@/lib/units'
+
+export const maxDuration = 60
+
+// Compares an explicit list of SKUs. Body: { skus: string[] (2-8), units?,
+// substitutions?: { [requestedSku]: substituteSku }, directions?: { [row]:
+// 'lower' | 'higher' | 'none' }, summary?: false }. A SKU that does not
+// exist is not replaced unless `substitutions` names its replacement; the
+// response lists candidates for the client to confirm instead. `summary: false`
+// skips the model's analysis and marks the response `summaryPending`.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const skus = sanitizeSkuList(body?.skus)
+    const units = parseUnitSystem(body?.units)
+    const substitutions: Record<string, string> = body?.substitutions && typeof body.substitutions === 'object'
+      ? Object.fromEntries(Object.entries(body.substitutions).filter(([, sku]) => typeof sku === 'string' && sku.trim() !== '')) as Record<string, string>
+      : {}
+    const directions: Record<string, WinnerDirection> | undefined = body?.directions && typeof body.directions === 'object'
+      ? body.directions
+      : undefined
+
+    if (skus.length < MIN_COMPARED_PRODUCTS || skus.length > MAX_COMPARED_PRODUCTS) {
+      return NextResponse.json({
+        success: false,
+        error: `Select between ${MIN_COMPARED_PRODUCTS} and ${MAX_COMPARED_PRODUCTS} distinct SKUs to compare (got ${skus.length}).`
+      }, { status: 400 })
+    }
+
+    console.log('🎯 Comparing selected SKUs:', skus)
+
+    const selection = await resolveComparisonSkus(skus, substitutions)
+
+    if (selection.notFound.length > 0) {
+      console.log(`⚠️ ${selection.notFound.length} SKUs not found:`, selection.notFound)
+      const duplicated = new Set(selection.duplicates.map(duplicate => duplicate.requested))
+      const missing = selection.notFound.filter(sku => !duplicated.has(sku))
+      const problems = [
+        ...(missing.length > 0 ? [`Could not find: ${missing.join(', ')}.`] : []),
+        ...selection.duplicates.map(duplicate => `The substitute for ${duplicate.requested} (${duplicate.sku}) is already in the comparison.`)
+      ]
+      return NextResponse.json({
+        success: false,
+        needsConfirmation: true,
+        error: `${problems.join(' ')} Choose a substitute or remove ${selection.notFound.length === 1 ? 'it' : 'them'} from the comparison.`,
+        requested: skus,
+        found: selection.products.map(product => product.sku),
+        notFound: selection.notFound,
+        duplicates: selection.duplicates,
+        substitutes: selection.substitutes
+      }, { status: 404 })
+    }
+
+    if (selection.products.length < MIN_COMPARED_PRODUCTS) {
+      return NextResponse.json({
+        success: false,
+        error: `The selected SKUs resolve to ${selection.products.length} distinct product. Select at least ${MIN_COMPARED_PRODUCTS}.`
+      }, { status: 400 })
+    }
+
+    const query = `Compare ${selection.products.map(product => product.sku).join(', ')}`
+    const { summary, verification, matrix } = body?.summary === false
+      ? comparisonWithoutAnalysis(selection.products, units, directions)
+      : await generateComparisonAnalysis(selection.products, query, units, directions)
+    const productRecords = localizeProducts(selection.products, units).map(toProductRecord)
+
+    return NextResponse.json({
+      success: true,
+      questionType: 'comparison',
+      intent: 'comparison',
+      comparison: {
+        products: productRecords,
+        summary,
+        comparedFields: getComparedFields(productRecords, true),
+        allFields: getComparedFields(productRecords, false),
+        verification,
+        matrix
+      },
+      results: productRecords,
+      aiAnswer: summary,
+      summaryPending: body?.summary === false ? true : undefined,
+      substituted: selection.substituted.length > 0 ? selection.substituted : undefined
+    })
+  } catch (error: any) {
+    console.error('❌ Error in compare endpoint:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to generate comparison'
+    }, { status: 500 })
+  }
+}
@@ -1,70 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-
-const supabase = createClient(supabaseUrl, supabaseKey)
+import { getCatalogSnapshot, getFilterOptions } from '@/lib/catalog'
 
+// Catalog counts. The completeness report behind them (fill rates, gaps,
+// ingest times) is an admin endpoint: /api/admin/catalog/stats.
 export async function GET(request: NextRequest) {
   try {
     console.log('📊 Fetching database statistics...')
     
-    // Get total count
-    const { count: totalCount, error: countError } = await supabase
-      .from('coatings')
-      .select('*', { count: 'exact', head: true })
-    
-    if (countError) {
-      throw countError
-    }
-    
-    console.log(`✅ Total products: ${totalCount}`)
+    const snapshot = await getCatalogSnapshot()
+    const totalCount = snapshot.rows.length
     
-    // Fetch all data in batches to get accurate unique counts
-    const BATCH_SIZE = 1000
-    const totalBatches = Math.ceil((totalCount || 0) / BATCH_SIZE)
+    console.log(`✅ Total products: ${totalCount} (snapshot v${snapshot.version})`)
     
-    const allFamilies = new Set<string>()
-    const allTypes = new Set<string>()
-    const allModels = new Set<string>()
-    const allSkus = new Set<string>()
-    
-    console.log(`📥 Fetching ${totalBatches} batches...`)
-    
-    for (let i = 0; i < totalBatches; i++) {
-      const from = i * BATCH_SIZE
-      const to = from + BATCH_SIZE - 1
-      
-      const { data, error } = await supabase
-        .from('coatings')
-        .select('family, Product_Type, Product_Model, sku')
-        .range(from, to)
-      
-      if (error) {
-        console.error(`❌ Error fetching batch ${i + 1}:`, error)
-        continue
-      }
-      
-      if (data) {
-        data.forEach(row => {
-          if (row.family) allFamilies.add(row.family)
-          if (row.Product_Type) allTypes.add(row.Product_Type)
-          if (row.Product_Model) allModels.add(row.Product_Model)
-          if (row.sku) allSkus.add(row.sku)
-        })
-      }
-      
-      if ((i + 1) % 10 === 0 || i === totalBatches - 1) {
-        console.log(`   ✅ Processed batch ${i + 1}/${totalBatches}`)
-      }
-    }
+    // Families, types and models come from the filter options service, so
+    // the counts here match the filter dropdowns
+    const { families, productTypes, productModels } = getFilterOptions(snapshot)
+    const allSkus = new Set(snapshot.products.map(p => p.sku).filter(Boolean))
     
     const stats = {
-      total_families: allFamilies.size,
+      total_families: families.length,
       total_products: totalCount,
-      total_product_types: allTypes.size,
-      total_product_models: allModels.size,
+      total_product_types: productTypes.length,
+      total_product_models: productModels.length,
       total_skus: allSkus.size
     }
     
@@ -73,10 +30,17 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       timestamp: new Date().toISOString(),
+      snapshot: {
+        version: snapshot.version,
+        watermark: snapshot.watermark,
+        refreshedAt: snapshot.refreshedAt.toISOString()
+      },
       statistics: stats,
-      families: Array.from(allFamilies).sort(),
-      productTypes: Array.from(allTypes).sort(),
-      productModels: Array.from(allModels).sort()
+      families,
+      productTypes,
+      productModels,
+      // Columns (and all_attributes keys) the schema doesn't map
+      schema: snapshot.report
     })
     
   } catch (error: any) {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ExportDocument, comparisonDocument, parseExportFormat, renderExport, resultsDocument } from '@/lib/export'
+
+// Exports data the client already holds, so nothing is searched again.
+// Body: { format: 'csv' | 'xlsx' | 'html' | 'pdf', query?, and either
+// results: ProductRecord[] or comparison: { products, comparedFields?,
+// allFields?, summary?, matrix? } with differencesOnly? }.
+// 'pdf' returns the printable data sheet, which opens the print dialog.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const format = parseExportFormat(body?.format)
+    const query = typeof body?.query === 'string' ? body.query : undefined
+
+    if (!format) {
+      return NextResponse.json({
+        success: false,
+        error: 'format must be one of csv, xlsx, html or pdf'
+      }, { status: 400 })
+    }
+
+    let document: ExportDocument
+    let filename: string
+
+    if (Array.isArray(body?.comparison?.products) && body.comparison.products.length > 0) {
+      document = comparisonDocument(body.comparison, { query, differencesOnly: body.differencesOnly === true })
+      filename = 'coatings-comparison'
+    } else if (Array.isArray(body?.results) && body.results.length > 0) {
+      document = resultsDocument(body.results, query)
+      filename = 'coatings-results'
+    } else {
+      return NextResponse.json({
+        success: false,
+        error: 'Provide results or comparison.products to export'
+      }, { status: 400 })
+    }
+
+    console.log(`📤 Exporting ${filename} as ${format}`)
+
+    const file = renderExport(document, format)
+    const disposition = format === 'html' || format === 'pdf' ? 'inline' : 'attachment'
+
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${disposition}; filename="${filename}.${file.extension}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error: any) {
+    console.error('❌ Error in export endpoint:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to export'
+    }, { status: 500 })
+  }
+}
@@ -1,170 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-import OpenAI from 'openai'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-const openaiApiKey = process.env.OPENAI_API_KEY!
-
-const supabase = createClient(supabaseUrl, supabaseKey)
-const openai = new OpenAI({ apiKey: openaiApiKey })
-
-type ProductRecord = Record<string, any>
+import {
+  getCatalogRepository,
+  getCatalogSnapshot,
+  activeFilterEntries,
+  sanitizeCatalogFilters,
+  normalizeProduct,
+  normalizeProducts,
+  productDisplayName,
+  toProductRecord,
+  localizeProducts,
+  extractSpecFilters,
+  sanitizeSpecFilters,
+  mergeSpecFilters,
+  hasSpecFilters,
+  applySpecFilters,
+  matchesSpecFilters,
+  describeSpecFilters,
+  CoatingProduct,
+  ProductRecord,
+  CatalogFilters,
+  SpecRangeFilters,
+  FacetSelection,
+  computeFacets,
+  describeFacetSelection,
+  matchesFacetSelection,
+  sanitizeFacetSelection,
+  Qualification,
+  findQualifiedProducts,
+  formatQualification,
+  parseQualificationQuery
+} from '@/lib/catalog'
+import {
+  AnswerSegment,
+  CITATION_INSTRUCTIONS,
+  ChatMessage,
+  CompletionRequest,
+  GroundedAnswer,
+  createAnswerGrounder,
+  getEmbeddingProvider,
+  getLLMProvider,
+  groundAnswer
+} from '@/lib/ai'
+import { SubstituteCandidate, comparisonWithoutAnalysis, generateComparisonAnalysis, getComparedFields } from '@/lib/comparison'
+import {
+  ConversationSession,
+  ConversationTurn,
+  QueryResolution,
+  appendTurn,
+  conversationHistory,
+  createSession,
+  getSessionStore,
+  parseSeedTurn,
+  resolveFollowUp
+} from '@/lib/conversation'
+import { StreamFormat, createEventStream, parseStreamFormat } from '@/lib/streaming'
+import { UNIT_INSTRUCTIONS, UnitSystem, parseUnitSystem } from '@/lib/units'
+import {
+  FusedResult,
+  FuzzyField,
+  ProductCache,
+  RankedList,
+  findFuzzyMatches,
+  fuseRankings,
+  getProductCache,
+  peekProductCache,
+  resolveFusionOptions,
+  searchIndex
+} from '@/lib/search'
 
 // ============================================================================
 // CACHE SYSTEM
 // ============================================================================
 
-const CACHE_DURATION_MS = 4 * 60 * 60 * 1000 // 4 hours for product cache
-const CACHE_TTL = 1000 * 60 * 60 * 24 // 24 hours for filter cache
-
-interface ProductCache {
-  families: string[]
-  productTypes: string[]
-  productModels: string[]
-  skus: string[]
-  totalProducts: number
-  lastUpdated: Date
-}
-
-let productCache: ProductCache | null = null
-
-// Filter cache (separate from product cache)
-let filterCache: {
-  families: string[]
-  productTypes: string[]
-  productModels: string[]
-  timestamp: number
-  ttl: number
-} | null = null
-
-// Add a loading promise to prevent parallel loads
-let cacheLoadingPromise: Promise<ProductCache> | null = null
-
-async function loadProductCache(): Promise<ProductCache> {
-  // If cache is valid, return it immediately
-  if (productCache && productCache.lastUpdated) {
-    const cacheAge = Date.now() - productCache.lastUpdated.getTime()
-    if (cacheAge < CACHE_DURATION_MS) {
-      console.log('✅ Using cached product data')
-      console.log(`   Cache age: ${Math.floor(cacheAge / 1000 / 60)} minutes`)
-      return productCache
-    }
-    console.log(`⚠️ Cache expired (age: ${Math.floor(cacheAge / 1000 / 60)} minutes)`)
-  }
-  
-  if (cacheLoadingPromise) {
-    console.log('⏳ Waiting for existing cache load...')
-    return await cacheLoadingPromise
-  }
-  
-  console.log('📋 Loading all product data from database...')
-  const startTime = Date.now()
-  
-  cacheLoadingPromise = (async () => {
-    try {
-      const { count: totalCount, error: countError } = await supabase
-        .from('coatings')
-        .select('*', { count: 'exact', head: true })
-      
-      if (countError) {
-        console.error('❌ Error counting rows:', countError)
-        throw countError
-      }
-      
-      console.log(`📊 Total rows in database: ${totalCount}`)
-      
-      const BATCH_SIZE = 1000
-      const totalBatches = Math.ceil((totalCount || 0) / BATCH_SIZE)
-      
-      console.log(`📊 Fetching ${totalBatches} batches...`)
-      
-      const allData: any[] = []
-      
-      for (let i = 0; i < totalBatches; i++) {
-        const from = i * BATCH_SIZE
-        const to = from + BATCH_SIZE - 1
-        
-        const { data, error } = await supabase
-          .from('coatings')
-          .select('family, Product_Type, Product_Model, sku')
-          .range(from, to)
-        
-        if (error) {
-          console.error(`❌ Error fetching batch ${i + 1}:`, error)
-          throw error
-        }
-        
-        if (data) {
-          allData.push(...data)
-          if ((i + 1) % 5 === 0 || i === totalBatches - 1) {
-            console.log(`   ✅ Batch ${i + 1}/${totalBatches}: ${data.length} rows (total: ${allData.length})`)
-          }
-        }
-      }
-      
-      console.log(`📊 Fetched ${allData.length} total rows`)
-      
-      if (allData.length === 0) {
-        console.error('❌ No data returned from database!')
-        return {
-          families: [],
-          productTypes: [],
-          productModels: [],
-          skus: [],
-          totalProducts: 0,
-          lastUpdated: new Date()
-        }
-      }
-      
-      const familiesRaw = allData.map(r => r.family).filter(Boolean)
-      const typesRaw = allData.map(r => r.Product_Type).filter(Boolean)
-      const modelsRaw = allData.map(r => r.Product_Model).filter(Boolean)
-      const skusRaw = allData.map(r => r.sku).filter(Boolean)
-      
-      const families = [...new Set(familiesRaw)].sort()
-      const productTypes = [...new Set(typesRaw)].sort()
-      const productModels = [...new Set(modelsRaw)].sort()
-      const skus = [...new Set(skusRaw)].sort()
-      
-      productCache = {
-        families,
-        productTypes,
-        productModels,
-        skus,
-        totalProducts: totalCount || 0,
-        lastUpdated: new Date()
-      }
-      
-      const loadTime = Date.now() - startTime
-      console.log(`✅ Cache loaded in ${loadTime}ms`)
-      console.log(`   📊 ${totalCount?.toLocaleString()} total products`)
-      console.log(`   👨‍👩‍👧‍👦 ${families.length} families`)
-      console.log(`   📦 ${productTypes.length} product types`)
-      console.log(`   📝 ${productModels.length} product models`)
-      console.log(`   🏷️  ${skus.length} unique SKUs`)
-      
-      return productCache
-      
-    } finally {
-      cacheLoadingPromise = null
-    }
-  })()
-  
-  return await cacheLoadingPromise
-}
-
-async function getCache(): Promise<ProductCache> {
-  if (!productCache) {
-    return await loadProductCache()
-  }
-  return productCache
-}
-
-export async function refreshCache(): Promise<void> {
-  console.log('🔄 Manually refreshing cache...')
-  productCache = null
-  await loadProductCache()
+function getCache(): Promise<ProductCache> {
+  return getProductCache()
 }
 
 // ============================================================================
@@ -173,44 +82,43 @@ export async function refreshCache(): Promise<void> {
 
 async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-    })
-    return response.data[0].embedding
+    return await getEmbeddingProvider().embed(text)
   } catch (error) {
     console.error('❌ Error generating embedding:', error)
     throw error
   }
 }
 
-async function semanticSearch(query: string, limit: number = 150): Promise<any[]> {
+async function semanticSearch(query: string, limit: number = 150, filters: CatalogFilters = {}): Promise<CoatingProduct[]> {
   console.log('🧠 Performing semantic search...')
   
   try {
     const queryEmbedding = await generateEmbedding(query)
     
-    const { data, error } = await supabase.rpc('match_coatings', {
-      query_embedding: queryEmbedding,
-      match_threshold: 0.65,
-      match_count: limit
-    })
-    
-    if (error) {
+    let data: ProductRecord[]
+    try {
+      data = await getCatalogRepository().matchEmbedding(queryEmbedding, {
+        threshold: 0.65,
+        limit,
+        filters
+      })
+    } catch (error) {
       console.error('❌ Semantic search error:', error)
       throw error
     }
     
-    console.log(`✅ Found ${data?.length || 0} semantically similar products`)
+    const products = toProducts(data || [])
+    
+    console.log(`✅ Found ${products.length} semantically similar products`)
     
-    if (data && data.length > 0) {
+    if (products.length > 0) {
       console.log('🏆 Top 5 semantic matches:')
-      data.slice(0, 5).forEach((product: any, i: number) => {
-        console.log(`  ${i + 1}. ${product.Product_Name || product.family} (similarity: ${(product.similarity * 100).toFixed(1)}%)`)
+      products.slice(0, 5).forEach((product, i) => {
+        console.log(`  ${i + 1}. ${productDisplayName(product)} (similarity: ${((product.similarity || 0) * 100).toFixed(1)}%)`)
       })
     }
     
-    return data || []
+    return products
   } catch (error) {
     console.error('❌ Semantic search failed, will fall back to traditional search')
     return []
@@ -221,11 +129,20 @@ async function semanticSearch(query: string, limit: number = 150): Promise<any[]
 // SMART MATCHING FUNCTIONS
 // ============================================================================
 
+interface MatchSuggestion {
+  value: string
+  field: FuzzyField
+  distance: number
+  confidence: number
+}
+
 interface MatchResult {
   matched: boolean
   value: string | null
   field: 'family' | 'sku' | 'productType' | 'productModel' | null
   confidence: number
+  // "Did you mean" candidates, set when nothing matched exactly
+  suggestions?: MatchSuggestion[]
 }
 
 async function findMatchingFamily(query: string): Promise<MatchResult> {
@@ -377,6 +294,19 @@ async function findMatchingProductModel(query: string): Promise<MatchResult> {
   return { matched: false, value: null, field: null, confidence: 0 }
 }
 
+// Typos and transposed digits ("CA8010", "desothan hs") within a few edits of
+// a cached family, SKU or model; exact spellings are left to the matchers above
+async function findFuzzySuggestions(query: string): Promise<MatchSuggestion[]> {
+  const cache = await getCache()
+  const fields: FuzzyField[] = ['family', 'sku', 'productModel']
+
+  return fields
+    .flatMap(field => findFuzzyMatches(query, cache.fuzzy[field]).map(match => ({ ...match, field })))
+    .filter(suggestion => suggestion.distance > 0)
+    .sort((a, b) => a.distance - b.distance || b.confidence - a.confidence)
+    .slice(0, 5)
+}
+
 async function findBestMatch(query: string): Promise<MatchResult> {
   console.log('🔍 Searching cache for best match...')
   
@@ -390,13 +320,18 @@ async function findBestMatch(query: string): Promise<MatchResult> {
   results.sort((a, b) => b.confidence - a.confidence)
   const bestMatch = results[0]
   
+  const suggestions = bestMatch.confidence < 0.95 ? await findFuzzySuggestions(query) : []
+  if (suggestions.length > 0) {
+    console.log(`🤔 Did you mean: ${suggestions.map(s => `${s.value} (${s.field}, distance ${s.distance})`).join(', ')}`)
+  }
+  
   if (bestMatch.matched) {
     console.log(`🎯 Best match: ${bestMatch.field} = "${bestMatch.value}" (confidence: ${bestMatch.confidence})`)
-    return bestMatch
+    return suggestions.length > 0 ? { ...bestMatch, suggestions } : bestMatch
   }
   
   console.log('❌ No match found in cache')
-  return { matched: false, value: null, field: null, confidence: 0 }
+  return { matched: false, value: null, field: null, confidence: 0, suggestions }
 }
 
 // ============================================================================
@@ -422,34 +357,6 @@ const TERM_VARIATIONS: Record<string, string[]> = {
 // HELPER FUNCTIONS
 // ============================================================================
 
-function getComparedFields(products: ProductRecord[], onlyDifferences: boolean = false): string[] {
-  if (products.length === 0) return []
-  
-  const excludeFields = ['embedding', 'created_at', 'updated_at', '_relevanceScore', '_sourceTable', 'searchable_text', 'searchabletext']
-  
-  const allKeys = new Set<string>()
-  products.forEach(product => {
-    Object.keys(product).forEach(key => {
-      if (!excludeFields.includes(key.toLowerCase())) {
-        allKeys.add(key)
-      }
-    })
-  })
-  
-  const fields = Array.from(allKeys).sort()
-  
-  // ✅ If onlyDifferences is true, filter to show only fields with different values
-  if (onlyDifferences) {
-    return fields.filter(field => {
-      const values = products.map(p => p[field])
-      const uniqueValues = new Set(values.map(v => JSON.stringify(v)))
-      return uniqueValues.size > 1 // Only keep fields where values differ
-    })
-  }
-  
-  return fields
-}
-
 function detectMetaQuestion(query: string): { isMeta: boolean; type: string | null } {
   const lowerQuery = query.toLowerCase().trim()
   const hasSpecificProduct = /\b([a-z]{2,}\s*\d{3,}|[0-9][a-z0-9]{4,})\b/i.test(query)
@@ -488,7 +395,7 @@ function detectMetaQuestion(query: string): { isMeta: boolean; type: string | nu
   return { isMeta: false, type: null }
 }
 
-async function handleMetaQuestion(type: string, query: string, filters: any): Promise<any> {
+async function handleMetaQuestion(type: string, query: string, filters: CatalogFilters): Promise<any> {
   console.log(`🔍 Handling meta-question type: ${type}`)
   
   try {
@@ -496,26 +403,16 @@ async function handleMetaQuestion(type: string, query: string, filters: any): Pr
       try {
         console.log('📊 Counting products...')
         
-        let countQuery = supabase
-          .from('coatings')
-          .select('*', { count: 'exact', head: true })
+        const catalog = getCatalogRepository()
         
-        if (filters?.family) {
-          console.log(`  🔍 Filter: family = "${filters.family}"`)
-          countQuery = countQuery.eq('family', filters.family)
-        }
-        if (filters?.productType) {
-          console.log(`  🔍 Filter: Product_Type = "${filters.productType}"`)
-          countQuery = countQuery.eq('Product_Type', filters.productType)
-        }
-        if (filters?.productModel) {
-          console.log(`  🔍 Filter: Product_Model = "${filters.productModel}"`)
-          countQuery = countQuery.eq('Product_Model', filters.productModel)
-        }
+        if (filters.family) console.log(`  🔍 Filter: family = "${filters.family}"`)
+        if (filters.productType) console.log(`  🔍 Filter: Product_Type = "${filters.productType}"`)
+        if (filters.productModel) console.log(`  🔍 Filter: Product_Model = "${filters.productModel}"`)
         
-        const { count: totalCount, error: countError } = await countQuery
-        
-        if (countError) {
+        let totalCount: number
+        try {
+          totalCount = await catalog.count(filters)
+        } catch (countError: any) {
           console.error('❌ Error counting products:', countError)
           throw new Error(`Database error: ${countError.message || 'Could not count products'}`)
         }
@@ -533,22 +430,14 @@ async function handleMetaQuestion(type: string, query: string, filters: any): Pr
         
         console.log(`📊 Fetching 200 sample products for display...`)
         
-        let sampleQuery = supabase
-          .from('coatings')
-          .select('*')
-          .limit(200)
-        
-        if (filters?.family) sampleQuery = sampleQuery.eq('family', filters.family)
-        if (filters?.productType) sampleQuery = sampleQuery.eq('Product_Type', filters.productType)
-        if (filters?.productModel) sampleQuery = sampleQuery.eq('Product_Model', filters.productModel)
-        
-        const { data: sampleData, error: sampleError } = await sampleQuery
-        
-        if (sampleError) {
+        let sampleData: ProductRecord[] = []
+        try {
+          sampleData = await catalog.findByFilters(filters, 200)
+        } catch (sampleError) {
           console.error('❌ Error fetching samples:', sampleError)
         }
         
-        const cleanedSamples = (sampleData || []).map((p: any) => cleanProductData(p))
+        const cleanedSamples = toProducts(sampleData || [])
         console.log(`✅ Fetched ${cleanedSamples.length} sample products for display`)
         
         const aiSummary = await generateCountSummary(
@@ -565,7 +454,7 @@ async function handleMetaQuestion(type: string, query: string, filters: any): Pr
           summary: aiSummary,
           aiAnswer: aiSummary,
           count: totalCount,
-          results: cleanedSamples.slice(0, 50),
+          results: cleanedSamples.slice(0, 50).map(toProductRecord),
           totalResults: totalCount,
           displayedResults: Math.min(50, cleanedSamples.length),
           statistics: {
@@ -576,6 +465,7 @@ async function handleMetaQuestion(type: string, query: string, filters: any): Pr
             totalSkus: cache.skus.length,
             missingSkus: totalCount! - cache.skus.length
           },
+          appliedFilters: filters,
           message: `Analysis based on ${totalCount?.toLocaleString()} total products`
         }
       } catch (error: any) {
@@ -656,7 +546,7 @@ Ask me about specific products, comparisons, or use filters to explore!`
 async function generateCountSummary(
   count: number, 
   cache: ProductCache, 
-  sampleProducts: ProductRecord[], 
+  sampleProducts: CoatingProduct[], 
   query: string
 ): Promise<string> {
   try {
@@ -729,53 +619,27 @@ async function analyzeSKUs(query: string): Promise<any> {
     const checkMissing = /missing|null|empty|blank|without/i.test(lowerQuery)
     const checkDuplicate = /duplicate|duplicated|repeated/i.test(lowerQuery)
     
-    const { count: totalCount } = await supabase
-      .from('coatings')
-      .select('*', { count: 'exact', head: true })
+    const { products } = await getCatalogSnapshot()
     
-    console.log(`📊 Total products: ${totalCount}`)
+    console.log(`📊 Total products: ${products.length}`)
     
-    const BATCH_SIZE = 1000
-    const totalBatches = Math.ceil((totalCount || 0) / BATCH_SIZE)
+    const allProducts: CoatingProduct[] = []
+    const skuMap = new Map<string, CoatingProduct[]>()
+    const missingSkuProducts: CoatingProduct[] = []
     
-    const allProducts: any[] = []
-    const skuMap = new Map<string, any[]>()
-    const missingSkuProducts: any[] = []
-    
-    for (let i = 0; i < totalBatches; i++) {
-      const from = i * BATCH_SIZE
-      const to = from + BATCH_SIZE - 1
-      
-      const { data, error } = await supabase
-        .from('coatings')
-        .select('sku, family, Product_Name, Product_Type, Product_Description, Enabled')
-        .range(from, to)
-      
-      if (error) {
-        console.error(`❌ Error fetching batch ${i + 1}:`, error)
-        continue
-      }
-      
-      if (data) {
-        data.forEach(product => {
-          allProducts.push(product)
-          
-          if (!product.sku || product.sku.trim() === '') {
-            missingSkuProducts.push(product)
-          } else {
-            const sku = product.sku.trim()
-            if (!skuMap.has(sku)) {
-              skuMap.set(sku, [])
-            }
-            skuMap.get(sku)!.push(product)
-          }
-        })
-      }
+    products.forEach(product => {
+      allProducts.push(product)
       
-      if ((i + 1) % 10 === 0 || i === totalBatches - 1) {
-        console.log(`   ✅ Processed batch ${i + 1}/${totalBatches}`)
+      if (!product.sku) {
+        missingSkuProducts.push(product)
+      } else {
+        const sku = product.sku
+        if (!skuMap.has(sku)) {
+          skuMap.set(sku, [])
+        }
+        skuMap.get(sku)!.push(product)
       }
-    }
+    })
     
     const duplicateSkus = Array.from(skuMap.entries())
       .filter(([sku, products]) => products.length > 1)
@@ -790,14 +654,14 @@ async function analyzeSKUs(query: string): Promise<any> {
     console.log(`   - Missing SKUs: ${missingSkuProducts.length}`)
     console.log(`   - Duplicate SKUs: ${duplicateSkus.length}`)
     
-    let results: any[] = []
+    let results: CoatingProduct[] = []
     let summaryParts: string[] = []
     
     if (checkMissing && missingSkuProducts.length > 0) {
       results.push(...missingSkuProducts.slice(0, 50))
       summaryParts.push(`**Products with Missing SKUs: ${missingSkuProducts.length}**\n\n${
         missingSkuProducts.slice(0, 10).map((p, i) => 
-          `${i + 1}. **${p.Product_Name || 'Unnamed Product'}**\n   - Family: ${p.family || 'N/A'}\n   - Type: ${p.Product_Type || 'N/A'}\n   - Description: ${p.Product_Description || 'N/A'}`
+          `${i + 1}. **${p.name || 'Unnamed Product'}**\n   - Family: ${p.family || 'N/A'}\n   - Type: ${p.productType || 'N/A'}\n   - Description: ${p.description || 'N/A'}`
         ).join('\n\n')
       }${missingSkuProducts.length > 10 ? `\n\n_...and ${missingSkuProducts.length - 10} more products with missing SKUs_` : ''}`)
     }
@@ -811,7 +675,7 @@ async function analyzeSKUs(query: string): Promise<any> {
         duplicateSkus.slice(0, 10).map(({ sku, count, products }, i) => 
           `${i + 1}. **SKU: ${sku}** (appears ${count} times)\n${
             products.map((p, j) => 
-              `   ${String.fromCharCode(97 + j)}. ${p.Product_Name || 'Unnamed'}\n      - Family: ${p.family}\n      - Type: ${p.Product_Type}\n      - Description: ${p.Product_Description?.substring(0, 80)}...`
+              `   ${String.fromCharCode(97 + j)}. ${p.name || 'Unnamed'}\n      - Family: ${p.family}\n      - Type: ${p.productType}\n      - Description: ${p.description?.substring(0, 80)}...`
             ).join('\n')
           }`
         ).join('\n\n')
@@ -830,7 +694,7 @@ async function analyzeSKUs(query: string): Promise<any> {
       metaType: 'sku_analysis',
       summary: aiSummary,
       aiAnswer: aiSummary,
-      results: results.slice(0, 100).map(cleanProductData),
+      results: results.slice(0, 100).map(toProductRecord),
       totalResults: results.length,
       displayedResults: Math.min(50, results.length),
       statistics: {
@@ -971,6 +835,13 @@ function expandSearchTerms(query: string): string[] {
   
   words.forEach(word => expandedTerms.add(word))
   
+  // Spec numbers are searched in their canonical spelling and by number alone
+  parseQualificationQuery(query).forEach(qualification => {
+    expandedTerms.add(qualification.spec.toLowerCase())
+    const number = qualification.spec.match(/\d[\d-]*$/)?.[0]
+    if (number) expandedTerms.add(number)
+  })
+  
   words.forEach(word => {
     if (TERM_VARIATIONS[word]) {
       TERM_VARIATIONS[word].forEach(variation => expandedTerms.add(variation))
@@ -1005,7 +876,7 @@ function classifyIntent(query: string): {
   const isProductCode = productCodePattern.test(query)
   
   // Also check if query matches a known family exactly
-  const cache = productCache
+  const cache = peekProductCache()
   if (cache) {
     const queryUpper = query.toUpperCase().trim()
     const exactFamilyMatch = cache.families.some(f => 
@@ -1073,60 +944,30 @@ function classifyIntent(query: string): {
   return { intent: 'general', confidence: 0.5 }
 }
 
-function stripHtml(html: string): string {
-  if (typeof html !== 'string') return html
-  return html
-    .replace(/<[^>]*>/g, '')
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'")
-    .replace(/&deg;/g, '°')
-    .replace(/&reg;/g, '®')
-    .replace(/&copy;/g, '©')
-    .replace(/&trade;/g, '™')
-    .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(dec))
-    .replace(/&#x([0-9a-fA-F]+);/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
-    .trim()
-}
-
-function cleanProductData(product: ProductRecord): ProductRecord {
-  const cleaned: ProductRecord = {}
-  const seen = new Set<string>()
+function toProducts(rows: ProductRecord[]): CoatingProduct[] {
+  const { products, report } = normalizeProducts(rows)
   
-  Object.keys(product).forEach(key => {
-    const lowerKey = key.toLowerCase()
-    
-    if (seen.has(lowerKey) || key === 'embedding' || key === 'similarity') return
-    seen.add(lowerKey)
-    
-    const value = product[key]
-    if (value === null || value === undefined || value === '') return
-    
-    if (typeof value === 'string') {
-      const cleanedValue = stripHtml(value)
-      if (cleanedValue) cleaned[key] = cleanedValue
-    } else {
-      cleaned[key] = value
-    }
-  })
+  if (report.invalid > 0) {
+    console.log(`⚠️ ${report.invalid} of ${report.total} rows have neither SKU nor product name`)
+  }
   
-  return cleaned
+  return products
 }
 
-function scoreProductRelevance(product: ProductRecord, keywords: string[], debug: boolean = false): number {
-  let score = 0
+// BM25 scores are a few units to a few dozen; scaling them puts a strong
+// full-text match on a par with one exact name keyword
+const TEXT_SCORE_WEIGHT = 20
+
+function scoreProductRelevance(product: CoatingProduct, keywords: string[], debug: boolean = false, textScore: number = 0): number {
+  let score = Math.round(textScore * TEXT_SCORE_WEIGHT)
   const matchedKeywords = new Set<string>()
   
-  const name = (product.Product_Name || product.name || '').toLowerCase()
+  const name = (product.name || '').toLowerCase()
   const sku = (product.sku || '').toLowerCase()
   const family = (product.family || '').toLowerCase()
-  const productType = (product.Product_Type || '').toLowerCase()
-  const productModel = (product.Product_Model || '').toLowerCase()
-  const description = (product.Product_Description || product.description || '').toLowerCase()
+  const productType = (product.productType || '').toLowerCase()
+  const productModel = (product.productModel || '').toLowerCase()
+  const description = (product.description || '').toLowerCase()
   
   const genericTerms = [
     'coating', 'coatings',
@@ -1201,9 +1042,9 @@ function scoreProductRelevance(product: ProductRecord, keywords: string[], debug
     
     if (primaryKeywords.length > 0 && primaryMatches === 0) {
       if (debug) {
-        console.log(`  ❌ Product "${name}" has no primary keyword matches - score: 0`)
+        console.log(`  ❌ Product "${name}" has no primary keyword matches - text score only: ${score}`)
       }
-      return 0
+      return score
     }
   }
   
@@ -1274,72 +1115,31 @@ function scoreProductRelevance(product: ProductRecord, keywords: string[], debug
   return score
 }
 
-function buildComparisonTable(products: ProductRecord[]): string {
-  const rows: Array<{ spec: string; values: string[] }> = []
-  
-  const specs = [
-    { keys: ['Mix_Ratio', 'mix_ratio', 'mixing_ratio', 'Mix_Ratio_by_Volume'], label: 'Mix Ratio' },
-    { keys: ['Pot_Life', 'pot_life', 'working_time', 'Pot_Life_Hours'], label: 'Pot Life' },
-    { keys: ['Cure_Time', 'cure_time', 'dry_time', 'Full_Cure_Time_Hours'], label: 'Cure Time' },
-    { keys: ['VOC_Content', 'voc_content', 'voc', 'VOC_Actual_gL'], label: 'VOC Content' },
-    { keys: ['Color', 'color', 'colour'], label: 'Color' },
-    { keys: ['Gloss', 'gloss', 'finish'], label: 'Gloss' },
-    { keys: ['Application_Method', 'application_method', 'application'], label: 'Application Method' },
-    { keys: ['Coverage', 'coverage', 'spread_rate', 'Theoretical_Coverage_ft2gal'], label: 'Coverage' },
-    { keys: ['Temperature_Range', 'temperature_range', 'service_temp'], label: 'Temperature Range' }
-  ]
-  
-  specs.forEach(spec => {
-    const values = products.map(product => {
-      for (const key of spec.keys) {
-        const value = product[key] || 
-                     product[key.replace(/_/g, ' ')] ||
-                     product[key.replace(/ /g, '_')]
-        
-        if (value) {
-          return String(value).trim()
-        }
-      }
-      return 'N/A'
-    })
-    
-    if (values.some(v => v !== 'N/A')) {
-      rows.push({ spec: spec.label, values })
-    }
-  })
+function buildSummaryRequest(
+  query: string,
+  products: CoatingProduct[],
+  specFilters: SpecRangeFilters = {},
+  units: UnitSystem | null = null,
+  history: ChatMessage[] = []
+): CompletionRequest {
+  const appliedFilters = describeSpecFilters(specFilters, units)
+  const filtersSection = appliedFilters.length > 0
+    ? `\nAPPLIED SPEC FILTERS (every product below already satisfies these):\n${appliedFilters.map(f => `- ${f}`).join('\n')}\n`
+    : ''
+  const unitsLine = units ? `\n- ${UNIT_INSTRUCTIONS[units]}` : ''
+  
+  const productsData = products.slice(0, 20).map(p => 
+    JSON.stringify(toProductRecord(p), null, 2)
+  ).join('\n\n---\n\n')
   
-  const productNames = products.map(p => 
-    p.Product_Name || p.name || p.family || 'Unknown'
-  )
-  
-  let table = '\n## Key Specifications\n\n'
-  table += '| Specification | ' + productNames.join(' | ') + ' |\n'
-  table += '|' + Array(productNames.length + 1).fill('---').join('|') + '|\n'
-  
-  rows.forEach(row => {
-    table += '| ' + row.spec + ' | ' + row.values.join(' | ') + ' |\n'
-  })
-  
-  table += '\n'
-  
-  return table
-}
-
-async function generateAISummary(query: string, products: ProductRecord[]): Promise<string> {
-  try {
-    const productsData = products.slice(0, 20).map(p => {
-      const { embedding, ...rest } = p
-      return JSON.stringify(rest, null, 2)
-    }).join('\n\n---\n\n')
-    
-    console.log(`🤖 Generating AI summary from ${products.length} products`)
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert aerospace coatings consultant. Provide clear, comprehensive answers based on the product data.
+  return {
+    task: 'summary',
+    query,
+    products: products.slice(0, 20),
+    messages: [
+      {
+        role: 'system',
+        content: `You are an expert aerospace coatings consultant. Provide clear, comprehensive answers based on the product data.
 
 GUIDELINES:
 - Start with a direct answer
@@ -1347,152 +1147,257 @@ GUIDELINES:
 - Explain key features and applications
 - Include technical specifications
 - Compare products when relevant
-- Be concise but thorough
+- Be concise but thorough${unitsLine}
 
+${CITATION_INSTRUCTIONS}
+${filtersSection}
 PRODUCT DATA (${products.length} products):
 ${productsData}`
-        },
-        {
-          role: 'user',
-          content: query
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 2000
-    })
-    
-    return stripHtml(completion.choices[0].message.content || 'Unable to generate summary')
-  } catch (error: any) {
-    console.error('❌ AI summary error:', error.message)
-    return 'Unable to generate AI summary. Please review the product details below.'
+      },
+      // Earlier turns of the conversation, so follow-ups read in context
+      ...history,
+      {
+        role: 'user',
+        content: query
+      }
+    ],
+    temperature: 0.3,
+    maxTokens: 2000
+  }
+}
+
+const SUMMARY_UNAVAILABLE = 'Unable to generate AI summary. Please review the product details below.'
+
+// The summary is checked against the products that were in the prompt; the
+// question and applied filters may also be quoted
+function summaryContext(query: string, specFilters: SpecRangeFilters, units: UnitSystem | null): string[] {
+  return [query, ...describeSpecFilters(specFilters, units)]
+}
+
+function logGrounding(answer: GroundedAnswer): GroundedAnswer {
+  if (!answer.verification.grounded) {
+    console.log(`⚠️ Summary has ${answer.verification.unsupportedValues.length} unsupported values and ${answer.verification.invalidCitations} invalid citations`)
   }
+  
+  return answer
 }
 
-// Helper function to format attribute names nicely
-function formatAttributeName(attr: string): string {
-  return attr
-    .replace(/_/g, ' ')
-    .replace(/\b\w/g, char => char.toUpperCase())
+function groundSummary(
+  text: string,
+  query: string,
+  products: CoatingProduct[],
+  specFilters: SpecRangeFilters,
+  units: UnitSystem | null
+): GroundedAnswer {
+  return logGrounding(groundAnswer(text, products.slice(0, 20), summaryContext(query, specFilters, units)))
 }
 
-async function generateComparisonAnalysis(products: ProductRecord[], query: string): Promise<string> {
+async function generateAISummary(
+  query: string,
+  products: CoatingProduct[],
+  specFilters: SpecRangeFilters = {},
+  units: UnitSystem | null = null,
+  history: ChatMessage[] = []
+): Promise<GroundedAnswer> {
   try {
-    const excludeFields = ['embedding', 'created_at', 'updated_at', '_relevanceScore', '_sourceTable', 'searchable_text', 'searchabletext']
-    
-    const allAttributes = new Set<string>()
-    products.forEach(product => {
-      Object.keys(product).forEach(key => {
-        if (!excludeFields.includes(key.toLowerCase()) && product[key] !== null && product[key] !== undefined) {
-          allAttributes.add(key)
-        }
-      })
-    })
-    
-    const comparisonData = Array.from(allAttributes).map(attr => {
-      const values = products.map(p => p[attr])
-      const allSame = values.every(v => v === values[0])
-      
-      return {
-        attribute: attr,
-        values: values,
-        differs: !allSame
-      }
-    })
-    
-    const differingAttrs = comparisonData.filter(item => item.differs)
-    const sameAttrs = comparisonData.filter(item => !item.differs)
+    console.log(`🤖 Generating AI summary from ${products.length} products`)
     
-    console.log(`📊 Comparison stats: ${differingAttrs.length} differing attributes, ${sameAttrs.length} same attributes`)
+    const content = await getLLMProvider().complete(buildSummaryRequest(query, products, specFilters, units, history))
     
-    const productSummaries = products.map((product, idx) => {
-      const name = product.Product_Name || product.family || `Product ${idx + 1}`
-      const sku = product.sku || 'N/A'
-      const family = product.family || 'N/A'
-      
-      return `**Product ${idx + 1}: ${name}**\n- SKU: ${sku}\n- Family: ${family}`
-    }).join('\n\n')
+    return groundSummary(content || 'Unable to generate summary', query, products, specFilters, units)
+  } catch (error: any) {
+    console.error('❌ AI summary error:', error.message)
+    return groundSummary(SUMMARY_UNAVAILABLE, query, [], specFilters, units)
+  }
+}
+
+// Same prompt as generateAISummary, yielded as the model produces it. A
+// failure after the first delta ends the summary where it stopped.
+async function* streamAISummary(
+  query: string,
+  products: CoatingProduct[],
+  specFilters: SpecRangeFilters = {},
+  units: UnitSystem | null = null,
+  history: ChatMessage[] = []
+): AsyncGenerator<string> {
+  let streamed = false
+  
+  try {
+    console.log(`🤖 Streaming AI summary from ${products.length} products`)
     
-    const differencesSection = differingAttrs.length > 0 ? 
-      `\n\n### Key Differences (${differingAttrs.length} attributes differ)\n\n` +
-      differingAttrs.slice(0, 20).map(item => {
-        const attrName = formatAttributeName(item.attribute)
-        const valueComparison = products.map((p, idx) => 
-          `  - **Product ${idx + 1}:** ${item.values[idx] || 'N/A'}`
-        ).join('\n')
-        
-        return `**${attrName}:**\n${valueComparison}`
-      }).join('\n\n')
-      : '\n\n*No differences found - products are identical.*'
+    for await (const delta of getLLMProvider().stream(buildSummaryRequest(query, products, specFilters, units, history))) {
+      streamed = true
+      yield delta
+    }
     
-    const similaritiesSection = sameAttrs.length > 0 ?
-      `\n\n### Similarities (${sameAttrs.length} attributes are the same)\n\n` +
-      sameAttrs.slice(0, 15).map(item => 
-        `- **${formatAttributeName(item.attribute)}:** ${item.values[0] || 'N/A'}`
-      ).join('\n') +
-      (sameAttrs.length > 15 ? `\n- *...and ${sameAttrs.length - 15} more shared attributes*` : '')
-      : ''
+    if (!streamed) yield 'Unable to generate summary'
+  } catch (error: any) {
+    console.error('❌ AI summary stream error:', error.message)
+    if (!streamed) yield SUMMARY_UNAVAILABLE
+  }
+}
 
-    const prompt = `You are comparing ${products.length} coating products. Provide a comprehensive technical comparison.
+// ============================================================================
+// SEARCH RESPONSES
+// ============================================================================
 
-${productSummaries}
+interface SummaryInput {
+  query: string
+  products: CoatingProduct[]
+  specFilters: SpecRangeFilters
+  units: UnitSystem | null
+  conversation?: ConversationContext | null
+  // Marks the selected values in the result set's facets
+  facetSelection?: FacetSelection
+  summarize?: boolean
+}
 
-${differencesSection}
+// Without a stream format the summary is awaited and returned with the
+// results as one JSON body. When streaming, the events are `intent` (response
+// metadata), `products` (the results), `summary` (lines of the summary as
+// they complete: `delta` is their text and `segments` their citations and
+// unverified values, grounded like the final answer) and `done` (the final
+// summary text). In both cases `answer` holds the summary as cited segments
+// with its verification.
+async function respondWithSummary(
+  streamFormat: StreamFormat | null,
+  payload: Record<string, any>,
+  input: SummaryInput
+): Promise<Response> {
+  const history = conversationHistory(input.conversation?.session || null)
+  // Facet counts over the whole result set, not just the displayed page
+  payload = { ...payload, facets: computeFacets(input.products, input.facetSelection).facets }
+
+  if (input.summarize === false) {
+    return NextResponse.json({ success: true, ...payload, summaryPending: true })
+  }
 
-${similaritiesSection}
+  if (!streamFormat) {
+    const answer = await generateAISummary(input.query, input.products, input.specFilters, input.units, history)
+    return NextResponse.json({ success: true, ...payload, summary: answer.text, aiAnswer: answer.text, answer })
+  }
 
-Please provide a detailed analysis with these sections:
+  return createEventStream(streamFormat, async send => {
+    const { results, totalResults, count, displayedResults, ...metadata } = payload
+    const session = input.conversation ? sessionInfo(input.conversation) : undefined
+    send('intent', { success: true, ...metadata, session })
+    send('products', { results, totalResults, count, displayedResults })
 
-1. **Overview**: Brief summary of what these products are and their primary purpose
-2. **Critical Differences**: Highlight the 10-15 most important technical differences that would affect product selection
-3. **Performance Characteristics**: Compare key performance attributes (if available)
-4. **Application Recommendations**: When to use each product based on the differences
-5. **Summary**: Quick decision guide
+    // The deltas joined are the final text, so lines after the first start with a newline
+    const grounder = createAnswerGrounder(input.products.slice(0, 20), summaryContext(input.query, input.specFilters, input.units))
+    let streamed = false
+    const sendSegments = (segments: AnswerSegment[]) => {
+      if (segments.length === 0) return
+      const delta = segments.map(segment => segment.text).join('\n')
+      send('summary', { delta: streamed ? `\n${delta}` : delta, segments })
+      streamed = true
+    }
 
-Format your response in clear markdown with bullet points. Focus on technical specifications and practical differences.`
+    for await (const delta of streamAISummary(input.query, input.products, input.specFilters, input.units, history)) {
+      sendSegments(grounder.push(delta))
+    }
+    sendSegments(grounder.flush())
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a technical product comparison expert specializing in industrial coatings. Provide detailed, accurate comparisons focusing on specifications and practical differences. Always include comprehensive technical details and explain what the differences mean for end users.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 3000
-    })
+    const answer = logGrounding(grounder.result())
+    const aiAnswer = answer.text
+    send('done', { summary: aiAnswer, aiAnswer, answer })
 
-    const analysis = completion.choices[0]?.message?.content || 'Unable to generate comparison analysis.'
-    
-    console.log(`✅ Generated comparison analysis (${analysis.length} characters)`)
-    
-    return analysis
+    // A streamed turn is only complete once its summary is
+    if (input.conversation) {
+      await recordConversationTurn(input.conversation, { ...payload, aiAnswer })
+    }
+  })
+}
 
-  } catch (error) {
-    console.error('❌ Error generating comparison analysis:', error)
-    return `**Comparison Analysis**\n\nComparing ${products.length} products:\n\n${
-      products.map((p, i) => `${i + 1}. ${p.Product_Name || p.family || 'Unknown'} (SKU: ${p.sku || 'N/A'})`).join('\n')
-    }\n\n*Detailed analysis unavailable.*`
+// ============================================================================
+// QUALIFICATION QUERY HANDLER
+// ============================================================================
+
+async function handleQualificationQuery(
+  query: string,
+  wanted: Qualification[],
+  expandedTerms: string[],
+  specFilters: SpecRangeFilters,
+  facetFilters: FacetSelection,
+  units: UnitSystem | null
+): Promise<NextResponse | null> {
+  const requested = wanted.map(formatQualification)
+  console.log('🎖️ Processing qualification query for:', requested)
+  
+  const cache = await getCache()
+  
+  // Products must qualify to every spec named in the query
+  const matchesBySpec = wanted.map(q => findQualifiedProducts(cache.qualifications, q))
+  const skuSets = matchesBySpec.map(matches => new Set(matches.map(m => m.sku).filter((sku): sku is string => Boolean(sku))))
+  const skus = Array.from(skuSets[0]).filter(sku => skuSets.every(set => set.has(sku)))
+  
+  console.log(`🎖️ ${skus.length} products qualify to ${requested.join(' + ')}`)
+  
+  if (skus.length === 0) {
+    console.log('🎖️ No indexed qualifications match, continuing with search')
+    return null
   }
+  
+  const rows = await getCatalogRepository().findWhereIn('sku', skus, undefined, sanitizeCatalogFilters(facetFilters)).catch(() => null)
+  let products = applySpecFilters(toProducts(rows || []), specFilters)
+    .filter(p => matchesFacetSelection(p, facetFilters))
+  
+  products = products
+    .map(p => ({ ...p, relevanceScore: scoreProductRelevance(p, expandedTerms) }))
+    .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0))
+  
+  const designations = (product: CoatingProduct): string[] =>
+    matchesBySpec.flatMap(matches =>
+      matches.filter(m => m.sku === product.sku).map(m => formatQualification(m.qualification))
+    )
+  
+  const summary = products.length > 0
+    ? `**${products.length} product${products.length === 1 ? '' : 's'} qualif${products.length === 1 ? 'ies' : 'y'} to ${requested.join(' and ')}**\n\n` +
+      products.slice(0, 50).map(p =>
+        `- **${productDisplayName(p)}** (SKU: ${p.sku}): ${designations(p).join('; ')}`
+      ).join('\n')
+    : `Products qualify to ${requested.join(' and ')}, but none match ${[...describeFacetSelection(facetFilters), ...describeSpecFilters(specFilters, units)].join(', ')}.`
+  
+  return NextResponse.json({
+    success: true,
+    questionType: 'qualification',
+    intent: 'qualification',
+    qualification: {
+      requested,
+      matches: products.map(p => ({
+        sku: p.sku,
+        name: p.name,
+        qualifications: designations(p)
+      }))
+    },
+    summary,
+    aiAnswer: summary,
+    results: localizeProducts(products.slice(0, 50), units).map(toProductRecord),
+    totalResults: products.length,
+    count: products.length,
+    displayedResults: Math.min(50, products.length),
+    searchMethod: 'qualification-index',
+    specFilters,
+    appliedFilters: facetFilters
+  })
 }
 
 // ============================================================================
 // COMPARISON QUERY HANDLERS
 // ============================================================================
 
-async function handleComparisonQuery(query: string, productCodes: string[]): Promise<NextResponse> {
+async function handleComparisonQuery(query: string, productCodes: string[], units: UnitSystem | null = null, summarize: boolean = true): Promise<NextResponse> {
   console.log('🎯 Processing comparison query for:', productCodes)
   
   try {
     const cache = await getCache()
+    const catalog = getCatalogRepository()
     console.log('✅ Cache loaded for comparison')
     
-    const matchedProducts: ProductRecord[] = []
+    const matchedProducts: CoatingProduct[] = []
     const notFoundCodes: string[] = []
+    // Near misses are offered to the user, never compared without confirmation
+    const substitutes: Record<string, SubstituteCandidate[]> = {}
     
     for (const code of productCodes) {
       console.log(`  🔎 Searching for: ${code}`)
@@ -1513,17 +1418,12 @@ async function handleComparisonQuery(query: string, productCodes: string[]): Pro
       console.log(`  📋 Found ${familyMatches.length} family matches for ${code}:`, familyMatches.slice(0, 5))
       
       if (familyMatches.length > 0) {
-        const { data, error } = await supabase
-          .from('coatings')
-          .select('*')
-          .eq('family', familyMatches[0])
-          .limit(1)
+        const data = await catalog.findWhere('family', familyMatches[0], 1).catch(() => null)
         
-        if (!error && data && data.length > 0) {
+        if (data && data.length > 0) {
           console.log(`  ✅ Found product for ${code}: ${data[0].Product_Name || data[0].family}`)
-          matchedProducts.push(cleanProductData(data[0]))
+          matchedProducts.push(normalizeProduct(data[0]).product)
           found = true
-          continue
         }
       }
       
@@ -1571,18 +1471,17 @@ async function handleComparisonQuery(query: string, productCodes: string[]): Pro
             
             console.log(`  🎯 Closest family match: "${closestFamily}" (diff: ${smallestDiff})`)
             
-            const { data, error } = await supabase
-              .from('coatings')
-              .select('*')
-              .eq('family', closestFamily)
-              .limit(1)
+            const data = await catalog.findWhere('family', closestFamily, 1).catch(() => null)
             
-            if (!error && data && data.length > 0) {
-              console.log(`  ✅ Found similar product for ${code}: ${data[0].Product_Name || data[0].family}`)
-              console.log(`  ℹ️ Note: Using "${closestFamily}" as substitute for "${code}"`)
-              matchedProducts.push(cleanProductData(data[0]))
-              found = true
-              continue
+            if (data && data.length > 0 && data[0].sku) {
+              console.log(`  💡 Suggesting "${closestFamily}" as a substitute for "${code}"`)
+              substitutes[code] = [{
+                sku: data[0].sku,
+                name: data[0].Product_Name || undefined,
+                family: closestFamily,
+                reason: 'closest-family',
+                confidence: Math.round(Math.max(0, 1 - smallestDiff / Math.max(codeNumber, 1)) * 100) / 100
+              }]
             }
           }
         }
@@ -1602,17 +1501,12 @@ async function handleComparisonQuery(query: string, productCodes: string[]): Pro
         if (skuMatches.length > 0) {
           console.log(`  📋 Found ${skuMatches.length} SKU matches:`, skuMatches.slice(0, 5))
           
-          const { data, error } = await supabase
-            .from('coatings')
-            .select('*')
-            .eq('sku', skuMatches[0])
-            .limit(1)
+          const data = await catalog.findWhere('sku', skuMatches[0], 1).catch(() => null)
           
-          if (!error && data && data.length > 0) {
+          if (data && data.length > 0) {
             console.log(`  ✅ Found product by SKU for ${code}: ${data[0].Product_Name || data[0].family}`)
-            matchedProducts.push(cleanProductData(data[0]))
+            matchedProducts.push(normalizeProduct(data[0]).product)
             found = true
-            continue
           }
         }
       }
@@ -1623,17 +1517,12 @@ async function handleComparisonQuery(query: string, productCodes: string[]): Pro
       if (!found) {
         console.log(`  🔍 Trying Product_Name search for ${code}...`)
         
-        const { data, error } = await supabase
-          .from('coatings')
-          .select('*')
-          .ilike('Product_Name', `%${code}%`)
-          .limit(1)
+        const data = await catalog.searchText('Product_Name', [code], 1).catch(() => null)
         
-        if (!error && data && data.length > 0) {
+        if (data && data.length > 0) {
           console.log(`  ✅ Found product by name for ${code}: ${data[0].Product_Name}`)
-          matchedProducts.push(cleanProductData(data[0]))
+          matchedProducts.push(normalizeProduct(data[0]).product)
           found = true
-          continue
         }
       }
       
@@ -1643,6 +1532,9 @@ async function handleComparisonQuery(query: string, productCodes: string[]): Pro
       if (!found) {
         console.log(`  ❌ No match found for ${code}`)
         notFoundCodes.push(code)
+      } else {
+        // A near miss suggested before a later method found the product is moot
+        delete substitutes[code]
       }
     }
     
@@ -1662,73 +1554,80 @@ async function handleComparisonQuery(query: string, productCodes: string[]): Pro
       })
     }
     
-    if (matchedProducts.length === 1) {
+    if (matchedProducts.length === 1 && notFoundCodes.length > 0) {
       console.log('⚠️ Only found 1 product - suggesting similar products')
       
       // Get similar products from the same family or type
       const foundProduct = matchedProducts[0]
       const family = foundProduct.family
-      const productType = foundProduct.Product_Type
+      const productType = foundProduct.productType
       
-      console.log(`  🔍 Looking for similar products to ${foundProduct.Product_Name}`)
+      console.log(`  🔍 Looking for similar products to ${productDisplayName(foundProduct)}`)
       console.log(`  📋 Family: ${family}, Type: ${productType}`)
       
       // Find similar products
-      let similarQuery = supabase
-        .from('coatings')
-        .select('*')
-        .limit(5)
-      
-      if (family) {
-        similarQuery = similarQuery.eq('family', family)
-      } else if (productType) {
-        similarQuery = similarQuery.eq('Product_Type', productType)
-      }
+      const similarProducts = await (family
+        ? catalog.findWhere('family', family, 5)
+        : productType
+          ? catalog.findWhere('Product_Type', productType, 5)
+          : catalog.findByFilters({}, 5)
+      ).catch(() => null)
       
-      const { data: similarProducts } = await similarQuery
+      const similar = toProducts(similarProducts || [])
+        .filter(p => p.sku && p.sku !== foundProduct.sku)
+        .slice(0, 3)
+        .map((p): SubstituteCandidate => ({ sku: p.sku!, name: p.name, family: p.family, reason: 'same-family', confidence: 1 }))
       
-      if (similarProducts && similarProducts.length > 1) {
-        const cleanedSimilar = similarProducts.slice(0, 2).map(cleanProductData)
-        matchedProducts.push(...cleanedSimilar.filter(p => p.sku !== foundProduct.sku))
-        
-        console.log(`  ✅ Added ${matchedProducts.length - 1} similar products for comparison`)
+      if (similar.length > 0 && !substitutes[notFoundCodes[0]]) {
+        substitutes[notFoundCodes[0]] = similar
+        console.log(`  💡 Suggesting ${similar.length} similar products for ${notFoundCodes[0]}`)
       }
     }
     
     if (matchedProducts.length < 2) {
       return NextResponse.json({
         success: false,
+        needsConfirmation: Object.keys(substitutes).length > 0,
         error: `Could not find enough products to compare. Found ${matchedProducts.length} of ${productCodes.length} requested.`,
+        found: matchedProducts.map(p => p.sku).filter(Boolean),
         notFound: notFoundCodes,
-        results: matchedProducts,
+        substitutes,
+        results: localizeProducts(matchedProducts, units).map(toProductRecord),
         suggestion: matchedProducts.length === 1 
-          ? `We found "${matchedProducts[0].Product_Name}" but couldn't find "${notFoundCodes[0]}". Try searching for similar product codes.`
+          ? `We found "${productDisplayName(matchedProducts[0])}" but couldn't find "${notFoundCodes[0]}". Pick a substitute to compare against, or try a different product code.`
           : undefined
       })
     }
     
-	console.log('🤖 Generating comparison analysis...')
-	
-	const comparisonAnalysis = await generateComparisonAnalysis(matchedProducts, query)
-
-	// ✅ UPDATED: Provide both full fields and difference-only fields
-	return NextResponse.json({
-	  success: true,
-	  questionType: 'comparison',
-	  intent: 'comparison',
-	  comparison: {
-		products: matchedProducts,
-		summary: comparisonAnalysis,
-		comparedFields: getComparedFields(matchedProducts, true), 
-		allFields: getComparedFields(matchedProducts, false)        
-	  },
-	  results: matchedProducts,
-	  aiAnswer: comparisonAnalysis,
-	  notFound: notFoundCodes.length > 0 ? notFoundCodes : undefined,
-	  warning: notFoundCodes.length > 0 
-		? `Note: Could not find exact matches for: ${notFoundCodes.join(', ')}. Showing similar products instead.`
-		: undefined
-	})
+    console.log('🤖 Generating comparison analysis...')
+    
+    const { summary: comparisonAnalysis, verification, matrix } = summarize
+      ? await generateComparisonAnalysis(matchedProducts, query, units)
+      : comparisonWithoutAnalysis(matchedProducts, units)
+    const productRecords = localizeProducts(matchedProducts, units).map(toProductRecord)
+
+    // ✅ UPDATED: Provide both full fields and difference-only fields
+    return NextResponse.json({
+      success: true,
+      questionType: 'comparison',
+      intent: 'comparison',
+      comparison: {
+        products: productRecords,
+        summary: comparisonAnalysis,
+        comparedFields: getComparedFields(productRecords, true), 
+        allFields: getComparedFields(productRecords, false),
+        verification,
+        matrix
+      },
+      results: productRecords,
+      aiAnswer: comparisonAnalysis,
+      summaryPending: summarize ? undefined : true,
+      notFound: notFoundCodes.length > 0 ? notFoundCodes : undefined,
+      substitutes: Object.keys(substitutes).length > 0 ? substitutes : undefined,
+      warning: notFoundCodes.length > 0 
+        ? `Note: Could not find exact matches for: ${notFoundCodes.join(', ')}. Only the products that were found are compared.`
+        : undefined
+    })
     
   } catch (error) {
     console.error('❌ Error in comparison handler:', error)
@@ -1740,22 +1639,19 @@ async function handleComparisonQuery(query: string, productCodes: string[]): Pro
   }
 }
 
-async function handleSKUComparisonQuery(query: string, skus: string[]): Promise<NextResponse> {
+async function handleSKUComparisonQuery(query: string, skus: string[], units: UnitSystem | null = null, summarize: boolean = true): Promise<NextResponse> {
   console.log('🎯 Processing SKU comparison for:', skus)
   
   try {
-    const matchedProducts: ProductRecord[] = []
+    const catalog = getCatalogRepository()
+    const matchedProducts: CoatingProduct[] = []
     
     for (const sku of skus) {
-      const { data, error } = await supabase
-        .from('coatings')
-        .select('*')
-        .eq('sku', sku)
-        .limit(1)
+      const data = await catalog.findWhere('sku', sku, 1).catch(() => null)
       
-      if (!error && data && data.length > 0) {
+      if (data && data.length > 0) {
         console.log(`  ✅ Found product for SKU ${sku}`)
-        matchedProducts.push(cleanProductData(data[0]))
+        matchedProducts.push(normalizeProduct(data[0]).product)
       }
     }
     
@@ -1763,23 +1659,29 @@ async function handleSKUComparisonQuery(query: string, skus: string[]): Promise<
       return NextResponse.json({
         success: false,
         error: `Could not find enough products to compare. Found ${matchedProducts.length} of ${skus.length} requested.`,
-        results: matchedProducts
+        results: localizeProducts(matchedProducts, units).map(toProductRecord)
       })
     }
     
-    const comparisonAnalysis = await generateComparisonAnalysis(matchedProducts, query)
+    const { summary: comparisonAnalysis, verification, matrix } = summarize
+      ? await generateComparisonAnalysis(matchedProducts, query, units)
+      : comparisonWithoutAnalysis(matchedProducts, units)
+    const productRecords = localizeProducts(matchedProducts, units).map(toProductRecord)
     
     return NextResponse.json({
       success: true,
       questionType: 'comparison',
       intent: 'comparison',
       comparison: {
-        products: matchedProducts,
+        products: productRecords,
         summary: comparisonAnalysis,
-        comparedFields: getComparedFields(matchedProducts)
+        comparedFields: getComparedFields(productRecords),
+        verification,
+        matrix
       },
-      results: matchedProducts,
-      aiAnswer: comparisonAnalysis
+      results: productRecords,
+      aiAnswer: comparisonAnalysis,
+      summaryPending: summarize ? undefined : true
     })
     
   } catch (error) {
@@ -1796,8 +1698,8 @@ async function handleSKUComparisonQuery(query: string, skus: string[]): Promise<
 // DIVERSIFICATION
 // ============================================================================
 
-function diversifyByFamily(products: any[], maxPerFamily: number = Infinity, maxTotal: number = 500): any[] {
-  const familyGroups = new Map<string, any[]>()
+function diversifyByFamily(products: CoatingProduct[], maxPerFamily: number = Infinity, maxTotal: number = 500): CoatingProduct[] {
+  const familyGroups = new Map<string, CoatingProduct[]>()
   
   products.forEach(product => {
     const family = (product.family || 'UNKNOWN').toUpperCase()
@@ -1809,7 +1711,7 @@ function diversifyByFamily(products: any[], maxPerFamily: number = Infinity, max
   
   console.log(`📊 Found ${familyGroups.size} unique families`)
   
-  const diversified: any[] = []
+  const diversified: CoatingProduct[] = []
   const familyNames = Array.from(familyGroups.keys())
   const familyCounters = new Map<string, number>()
   familyNames.forEach(f => familyCounters.set(f, 0))
@@ -1875,166 +1777,203 @@ function diversifyByFamily(products: any[], maxPerFamily: number = Infinity, max
 }
 
 // ============================================================================
-// FILTER OPTIONS HANDLER
+// HYBRID RETRIEVAL
 // ============================================================================
 
-async function getFilterOptions(forceRefresh: boolean = false): Promise<any> {
-  console.log(`\n📋 Getting filter options (forceRefresh: ${forceRefresh})`)
+type RetrievalSource = 'exact' | 'semantic' | 'keyword'
 
-  if (!forceRefresh && filterCache) {
-    const now = Date.now()
-    const cacheAge = now - filterCache.timestamp
+interface ExactRetrieval {
+  match: MatchResult
+  products: CoatingProduct[]
+}
 
-    if (cacheAge < CACHE_TTL) {
-      const ageMinutes = Math.floor(cacheAge / 1000 / 60)
-      console.log(`✅ Using cached filter options (age: ${ageMinutes} minutes)`)
-      return {
-        success: true,
-        cached: true,
-        cacheAge: ageMinutes,
-        filterOptions: {
-          families: filterCache.families,
-          productTypes: filterCache.productTypes,
-          productModels: filterCache.productModels
-        }
-      }
-    }
+function productKey(product: CoatingProduct): string {
+  return product.sku || product.name || JSON.stringify(product.attributes)
+}
 
-    console.log(`⚠️ Cache expired (age: ${Math.floor(cacheAge / 1000 / 60)} minutes)`)
+function rankByRelevance(products: CoatingProduct[], keywords: string[], textScores?: Map<string, number>): CoatingProduct[] {
+  return products
+    .map((p, index) => ({
+      ...p,
+      relevanceScore: scoreProductRelevance(p, keywords, index === 0, textScores?.get(productKey(p)))
+    }))
+    .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0))
+}
+
+// A constrained query ("primers under 340 g/L") names a category rather than a
+// product, so a product type match is enough to use the exact path
+async function retrieveExactMatches(
+  match: MatchResult,
+  keywords: string[],
+  specFilters: SpecRangeFilters,
+  filters: CatalogFilters
+): Promise<ExactRetrieval> {
+  const exactThreshold = hasSpecFilters(specFilters) ? 0.9 : 0.95
+
+  if (!match.matched || match.confidence < exactThreshold) {
+    return { match, products: [] }
   }
 
-  console.log(`🔄 Fetching fresh filter options from database...`)
-  const startTime = Date.now()
+  console.log(`🎯 Exact match: ${match.field} = "${match.value}"`)
+
+  const matchColumns = {
+    family: 'family',
+    sku: 'sku',
+    productType: 'Product_Type',
+    productModel: 'Product_Model'
+  }
 
   try {
-    console.log('📊 Step 1: Counting total rows...')
-    
-    const { count: totalCount, error: countError } = await supabase
-      .from('coatings')
-      .select('*', { count: 'exact', head: true })
-    
-    if (countError) {
-      console.error('❌ Count error:', countError)
-      throw new Error(`Count error: ${countError.message}`)
-    }
-    
-    console.log(`📊 Total rows in database: ${totalCount}`)
-    
-    const BATCH_SIZE = 1000
-    const totalBatches = Math.ceil((totalCount || 0) / BATCH_SIZE)
-    
-    console.log(`📊 Step 2: Fetching ${totalBatches} batches of ${BATCH_SIZE} rows each...`)
-    
-    const allFamilies: string[] = []
-    const allTypes: string[] = []
-    const allModels: string[] = []
-    
-    for (let i = 0; i < totalBatches; i++) {
-      const from = i * BATCH_SIZE
-      const to = from + BATCH_SIZE - 1
-      
-      if (i % 5 === 0 || i === totalBatches - 1) {
-        console.log(`   Fetching batch ${i + 1}/${totalBatches} (rows ${from}-${to})...`)
-      }
-      
-      const [familiesResult, typesResult, modelsResult] = await Promise.all([
-        supabase
-          .from('coatings')
-          .select('family')
-          .not('family', 'is', null)
-          .neq('family', '')
-          .range(from, to),
-        
-        supabase
-          .from('coatings')
-          .select('Product_Type')
-          .not('Product_Type', 'is', null)
-          .neq('Product_Type', '')
-          .range(from, to),
-        
-        supabase
-          .from('coatings')
-          .select('Product_Model')
-          .not('Product_Model', 'is', null)
-          .neq('Product_Model', '')
-          .range(from, to)
-      ])
-
-      if (familiesResult.error) throw new Error(`Families: ${familiesResult.error.message}`)
-      if (typesResult.error) throw new Error(`Types: ${typesResult.error.message}`)
-      if (modelsResult.error) throw new Error(`Models: ${modelsResult.error.message}`)
-
-      allFamilies.push(...(familiesResult.data?.map(r => r.family).filter(v => v && v.trim()) || []))
-      allTypes.push(...(typesResult.data?.map(r => r.Product_Type).filter(v => v && v.trim()) || []))
-      allModels.push(...(modelsResult.data?.map(r => r.Product_Model).filter(v => v && v.trim()) || []))
-    }
-
-    console.log(`📊 Raw data collected:`)
-    console.log(`   - Families: ${allFamilies.length} values`)
-    console.log(`   - Types: ${allTypes.length} values`)
-    console.log(`   - Models: ${allModels.length} values`)
-
-    const families = [...new Set(allFamilies)].sort()
-    const productTypes = [...new Set(allTypes)].sort()
-    const productModels = [...new Set(allModels)].sort()
-
-    filterCache = {
-      families,
-      productTypes,
-      productModels,
-      timestamp: Date.now(),
-      ttl: CACHE_TTL
-    }
-
-    const loadTime = ((Date.now() - startTime) / 1000).toFixed(1)
-    console.log(`\n✅ Filter options loaded in ${loadTime}s:`)
-    console.log(`   👨‍👩‍👧‍👦 Families: ${families.length}`)
-    console.log(`   🏷️  Product Types: ${productTypes.length}`)
-    console.log(`   📦 Product Models: ${productModels.length}`)
-    
-    if (families.length > 0) {
-      console.log(`   Sample families (first 10):`, families.slice(0, 10))
-    }
+    const rows = await getCatalogRepository().findWhere(matchColumns[match.field!], match.value!, 1000, filters)
+    const products = rankByRelevance(toProducts(rows || []), keywords)
+    console.log(`✅ Found ${products.length} products via exact match`)
+    return { match, products }
+  } catch (error) {
+    console.error('❌ Exact match query error:', error)
+    return { match, products: [] }
+  }
+}
 
-    return {
-      success: true,
-      cached: false,
-      loadTime: `${loadTime}s`,
-      totalRows: totalCount,
-      filterOptions: {
-        families,
-        productTypes,
-        productModels
-      }
-    }
-  } catch (error: any) {
-    console.error('❌ Error fetching filter options:', error)
+// The vector RPC already orders by similarity and applies the filters
+async function retrieveSemanticMatches(searchQuery: string, filters: CatalogFilters): Promise<CoatingProduct[]> {
+  return semanticSearch(searchQuery, 150, filters)
+}
 
-    if (filterCache) {
-      console.log('⚠️ Returning expired cache as fallback')
-      return {
-        success: true,
-        cached: true,
-        expired: true,
-        error: error.message,
-        filterOptions: {
-          families: filterCache.families,
-          productTypes: filterCache.productTypes,
-          productModels: filterCache.productModels
-        }
-      }
-    }
+// Full-text hits come from the in-memory BM25 index, which holds the projected
+// cache rows; the full rows are then loaded for the hits by SKU. The index
+// covers the whole catalog, so hits outside the filters are dropped before
+// the limit.
+async function retrieveKeywordMatches(searchQuery: string, keywords: string[], filters: CatalogFilters): Promise<CoatingProduct[]> {
+  const cache = await getCache()
+  const hits = searchIndex(cache.textIndex, searchQuery, { expansions: keywords, limit: 200, filter: product => matchesFacetSelection(product, filters) })
+  console.log(`🔤 BM25 index returned ${hits.length} hits`)
+
+  if (hits.length === 0) return []
+
+  hits.slice(0, 5).forEach((hit, i) => {
+    console.log(`  ${i + 1}. ${productDisplayName(hit.product)} (bm25: ${hit.score.toFixed(2)}; ${hit.matchedFields.join(', ')}${
+      hit.matchedPhrases.length > 0 ? `; phrases: ${hit.matchedPhrases.join(', ')}` : ''
+    })`)
+  })
+
+  const skus = [...new Set(hits.map(hit => hit.product.sku).filter((v): v is string => Boolean(v)))]
+  const rows = skus.length > 0
+    ? await getCatalogRepository().findWhereIn('sku', skus, undefined, filters).catch(() => null)
+    : null
+  const bySku = new Map(toProducts(rows || []).map(p => [p.sku, p]))
+
+  const textScores = new Map<string, number>()
+  const products = hits.map(hit => {
+    const product = (hit.product.sku && bySku.get(hit.product.sku)) || hit.product
+    textScores.set(productKey(product), hit.score)
+    return product
+  })
+
+  return rankByRelevance(products, keywords, textScores)
+}
+
+function retrievalRanks(fused: FusedResult<CoatingProduct>[]) {
+  return fused.map(result => ({
+    sku: result.item.sku,
+    name: result.item.name,
+    score: Number(result.score.toFixed(5)),
+    ranks: result.ranks
+  }))
+}
+
+// ============================================================================
+// CONVERSATION SESSIONS
+// ============================================================================
+
+interface ConversationContext {
+  session: ConversationSession
+  resolution: QueryResolution
+  // The request filters the turn ran with, after inheritance
+  filters?: ConversationTurn['filters']
+}
+
+// A request joins a conversation with `sessionId` (an unknown or expired id
+// starts a new one) or starts one with `newSession: true`, optionally seeded
+// with the `previousTurn` the client showed without a session; anything else
+// stays stateless
+async function openConversation(body: any): Promise<ConversationContext | null> {
+  const query = body?.query
+  if (typeof query !== 'string' || !query.trim()) {
+    return null
+  }
 
+  let session: ConversationSession | null = null
+  if (typeof body.sessionId === 'string' && body.sessionId) {
+    session = await getSessionStore().get(body.sessionId)
+    if (!session) console.log(`💬 Session ${body.sessionId} not found, starting a new one`)
+  } else if (body.newSession !== true) {
+    return null
+  }
+
+  if (!session) {
+    const seed = parseSeedTurn(body.previousTurn)
+    session = seed ? appendTurn(createSession(), seed) : createSession()
+  }
+  const resolution = resolveFollowUp(query, session)
+
+  if (resolution.resolved) {
+    console.log(`💬 Resolved follow-up (${resolution.kind}): "${resolution.original}" → "${resolution.query}"`)
+  }
+
+  return { session, resolution }
+}
+
+function sessionInfo(conversation: ConversationContext) {
+  const { session, resolution } = conversation
+  return {
+    id: session.id,
+    turn: session.turns.length + 1,
+    resolvedQuery: resolution.resolved ? resolution.query : undefined,
+    resolution: resolution.kind,
+    referents: resolution.referents.length > 0 ? resolution.referents : undefined
+  }
+}
+
+async function recordConversationTurn(conversation: ConversationContext, data: any): Promise<void> {
+  const records: ProductRecord[] = data.comparison?.products || data.results || []
+  const products = records.slice(0, 10).map(record => {
+    const { product } = normalizeProduct(record)
     return {
-      success: false,
-      error: error.message || 'Failed to fetch filter options',
-      filterOptions: { 
-        families: [], 
-        productTypes: [], 
-        productModels: [] 
-      }
+      sku: product.sku,
+      name: product.name,
+      family: product.family,
+      productType: product.productType
     }
+  })
+
+  conversation.session = appendTurn(conversation.session, {
+    query: conversation.resolution.original,
+    resolvedQuery: conversation.resolution.query,
+    questionType: data.questionType,
+    products,
+    filters: conversation.filters,
+    specFilters: data.specFilters,
+    summary: data.aiAnswer || data.summary,
+    createdAt: new Date().toISOString()
+  })
+
+  await getSessionStore().save(conversation.session)
+}
+
+// JSON answers are recorded here; streamed ones record themselves when the
+// summary finishes
+async function finishConversationTurn(conversation: ConversationContext, response: Response): Promise<Response> {
+  if (!response.headers.get('content-type')?.includes('application/json')) {
+    return response
   }
+
+  const data = await response.clone().json()
+  const session = sessionInfo(conversation)
+  if (data.success !== false) {
+    await recordConversationTurn(conversation, data)
+  }
+
+  return NextResponse.json({ ...data, session }, { status: response.status })
 }
 
 // ============================================================================
@@ -2042,49 +1981,45 @@ async function getFilterOptions(forceRefresh: boolean = false): Promise<any> {
 // ============================================================================
 
 export async function POST(request: NextRequest) {
+  let body: any
   try {
-    const body = await request.json()
-    const { query, filters, getFilterOptions: shouldGetFilters } = body
+    body = await request.json()
+  } catch (error: any) {
+    return NextResponse.json(
+      { success: false, error: error.message || 'Invalid request body' },
+      { status: 400 }
+    )
+  }
 
-    console.log('📥 Request:', { query, filters, getFilterOptions: shouldGetFilters })
+  const conversation = await openConversation(body)
+  if (!conversation) {
+    return searchCoatings(request, body)
+  }
 
-    if (query === '__REFRESH_CACHE__') {
-      await refreshCache()
-      return NextResponse.json({
-        success: true,
-        message: 'Cache refreshed successfully',
-        cache: productCache
-      })
-    }
+  // A follow-up keeps the filters of the turn it refers to unless it sets its own
+  const previousFilters = conversation.resolution.previous?.filters
+  const filters = activeFilterEntries(body.filters).length > 0 || body.filters?.ranges
+    ? body.filters
+    : previousFilters || body.filters
+  conversation.filters = filters && {
+    ...filters,
+    ranges: filters.ranges ? sanitizeSpecFilters(filters.ranges) : undefined
+  }
 
-    if (shouldGetFilters === true || query === '__GET_FILTER_OPTIONS__') {
-      console.log('📊 Filter options requested')
-      
-      try {
-        const result = await getFilterOptions(false)
-        console.log('✅ Returning filter options:', {
-          success: result.success,
-          familyCount: result.filterOptions.families.length,
-          typeCount: result.filterOptions.productTypes.length,
-          modelCount: result.filterOptions.productModels.length
-        })
-        return NextResponse.json(result)
-      } catch (error: any) {
-        console.error('❌ Filter options error:', error)
-        return NextResponse.json(
-          { 
-            success: false,
-            error: error.message || 'Failed to load filter options',
-            filterOptions: {
-              families: [],
-              productTypes: [],
-              productModels: []
-            }
-          },
-          { status: 500 }
-        )
-      }
-    }
+  const response = await searchCoatings(request, { ...body, query: conversation.resolution.query, filters }, conversation)
+  return finishConversationTurn(conversation, response)
+}
+
+async function searchCoatings(request: NextRequest, body: any, conversation: ConversationContext | null = null): Promise<Response> {
+  try {
+    const { query, filters } = body
+    const units = parseUnitSystem(body.units)
+    const streamFormat = parseStreamFormat(body.stream, request.headers.get('accept'))
+    // `summary: false` returns the results without the model's summary or
+    // comparison analysis, marked `summaryPending`
+    const summarize = body.summary !== false
+
+    console.log('📥 Request:', { query, filters, units, stream: streamFormat })
 
     if (!query || typeof query !== 'string' || !query.trim()) {
       return NextResponse.json({ 
@@ -2107,10 +2042,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(result)
     }
 
+    // Family, type and model narrow every catalog query below
+    const catalogFilters = sanitizeCatalogFilters(filters)
+
     const metaQuestion = detectMetaQuestion(query)
     if (metaQuestion.isMeta && metaQuestion.type) {
       console.log(`🎯 Detected meta-question type: ${metaQuestion.type}`)
-      const result = await handleMetaQuestion(metaQuestion.type, query, filters)
+      const result = await handleMetaQuestion(metaQuestion.type, query, catalogFilters)
       if (result) {
         return NextResponse.json(result)
       }
@@ -2122,10 +2060,33 @@ export async function POST(request: NextRequest) {
 
     const comparison = extractComparisonProducts(query)
     const intent = classifyIntent(query)
-    const expandedTerms = expandSearchTerms(query)
+
+    // Numeric constraints ("under 340 g/L VOC") become range filters and are
+    // stripped from the text used for term and vector search
+    const extractedSpecFilters = extractSpecFilters(query)
+    const specFilters = mergeSpecFilters(extractedSpecFilters.filters, sanitizeSpecFilters(filters?.ranges))
+    // The catalog filters plus the color and gloss facets guard every result
+    // set, and are echoed back as `appliedFilters`
+    const facetFilters = sanitizeFacetSelection(filters, ['family', 'productType', 'productModel', 'color', 'gloss'])
+    const facetSelection = { ...sanitizeFacetSelection(filters), ...facetFilters }
+    const filterDescriptions = [...describeFacetSelection(facetFilters), ...describeSpecFilters(specFilters, units)]
+    const searchQuery = hasSpecFilters(extractedSpecFilters.filters)
+      ? extractedSpecFilters.remainingQuery
+      : query
+    const expandedTerms = searchQuery ? expandSearchTerms(searchQuery) : []
+    const constraintOnly = hasSpecFilters(specFilters) && expandedTerms.length === 0
 
     console.log(`🎯 Intent: ${intent.intent} (${intent.confidence})`)
 
+    if (hasSpecFilters(specFilters)) {
+      console.log('📏 Spec filters:', describeSpecFilters(specFilters))
+      console.log(`📏 Search text: "${searchQuery}"`)
+    }
+
+    if (Object.keys(facetFilters).length > 0) {
+      console.log('🧰 Filters:', describeFacetSelection(facetFilters))
+    }
+
     if (comparison.isComparison) {
       console.log('🔍 Comparison detection summary:')
       console.log(`   - Product codes found: ${comparison.productCodes.length}`, comparison.productCodes)
@@ -2140,6 +2101,17 @@ export async function POST(request: NextRequest) {
 
     console.log('🔍 Checking for comparison patterns...')
 
+    // "compare them" names earlier results by reference; the resolved SKUs are
+    // compared directly rather than re-extracted from the rewritten text
+    const referencedSkus = (conversation?.resolution.referents || [])
+      .map(product => product.sku)
+      .filter((sku): sku is string => Boolean(sku))
+
+    if (comparison.isComparison && referencedSkus.length >= 2) {
+      console.log('🎯 Comparing products referenced from the conversation:', referencedSkus)
+      return await handleSKUComparisonQuery(query, referencedSkus, units, summarize)
+    }
+
     // Pattern-based detection (simple regex patterns)
     const comparisonPatterns = [
       /compare\s+([a-z0-9\-]+)\s+(?:to|vs|versus|and|with)\s+([a-z0-9\-]+)/i,
@@ -2153,7 +2125,7 @@ export async function POST(request: NextRequest) {
         const productCodes = [match[1], match[2]]
         console.log('🎯 Detected comparison query via pattern')
         console.log('🎯 Product codes:', productCodes)
-        return await handleComparisonQuery(query, productCodes)
+        return await handleComparisonQuery(query, productCodes, units, summarize)
       }
     }
 
@@ -2161,288 +2133,223 @@ export async function POST(request: NextRequest) {
     if (comparison.isComparison && comparison.productCodes.length >= 2) {
       console.log('🎯 Detected comparison query via extraction')
       console.log('🎯 Product codes:', comparison.productCodes)
-      return await handleComparisonQuery(query, comparison.productCodes)
+      return await handleComparisonQuery(query, comparison.productCodes, units, summarize)
     }
 
     if (comparison.isComparison && comparison.potentialSkus.length >= 2) {
       console.log('🎯 Detected SKU comparison query')
       console.log('🎯 SKUs:', comparison.potentialSkus)
-      return await handleSKUComparisonQuery(query, comparison.potentialSkus)
+      return await handleSKUComparisonQuery(query, comparison.potentialSkus, units, summarize)
     }
 
     // ============================================================================
-    // STEP 3: EXACT MATCH SEARCH
+    // STEP 3: QUALIFICATION QUERIES ("which products qualify to MIL-PRF-85285")
     // ============================================================================
 
-    if (!comparison.isComparison) {
-      const bestMatch = await findBestMatch(query)
-
-      if (bestMatch.matched && bestMatch.confidence >= 0.95) {
-        console.log(`🎯 Using exact match: ${bestMatch.field} = "${bestMatch.value}"`)
-        
-        let dbQuery = supabase.from('coatings').select('*')
-        
-        switch (bestMatch.field) {
-          case 'family':
-            dbQuery = dbQuery.eq('family', bestMatch.value)
-            break
-          case 'sku':
-            dbQuery = dbQuery.eq('sku', bestMatch.value)
-            break
-          case 'productType':
-            dbQuery = dbQuery.eq('Product_Type', bestMatch.value)
-            break
-          case 'productModel':
-            dbQuery = dbQuery.eq('Product_Model', bestMatch.value)
-            break
-        }
-        
-        dbQuery = dbQuery.limit(1000)
-        
-        const { data: matchedProducts, error: matchError } = await dbQuery
-        
-        if (matchError) {
-          console.error('❌ Exact match query error:', matchError)
-        } else if (matchedProducts && matchedProducts.length > 0) {
-          console.log(`✅ Found ${matchedProducts.length} products via exact match`)
-          
-          let cleanedProducts = matchedProducts.map(cleanProductData)
-          let diversifiedResults = diversifyByFamily(cleanedProducts, Infinity, 500)
-          
-          diversifiedResults = diversifiedResults.map((p, index) => ({
-            ...p,
-            _relevanceScore: scoreProductRelevance(p, expandedTerms, index === 0)
-          }))
-
-          diversifiedResults.sort((a, b) => (b._relevanceScore || 0) - (a._relevanceScore || 0))
-
-          console.log(`🏆 Top 10 diversified results:`)
-          diversifiedResults.slice(0, 10).forEach((p, i) => {
-            const baseCode = (p.Product_Name || '')
-              .match(/\b([A-Z]{2,}\s*\d+[A-Z]?)/i)?.[0] || '?'
-            console.log(`  ${i + 1}. [${baseCode}] ${p.Product_Name} (score: ${p._relevanceScore})`)
-          })
-
-          // ✅ Fallback comparison check
-          if (query.toLowerCase().includes('compare') && diversifiedResults.length >= 2) {
-            console.log('🎯 Fallback comparison: Detected comparison intent')
-            
-            const topProducts = diversifiedResults.slice(0, Math.min(10, diversifiedResults.length))
-            const comparisonAnalysis = await generateComparisonAnalysis(topProducts, query)
-            
-			  return NextResponse.json({
-				success: true,
-				questionType: 'comparison',
-				intent: 'comparison',
-				comparison: {
-				  products: topProducts,
-				  summary: comparisonAnalysis,
-				  comparedFields: getComparedFields(topProducts, true),  
-				  allFields: getComparedFields(topProducts, false) 
-				},
-				summary: comparisonAnalysis,
-				aiAnswer: comparisonAnalysis,
-				results: topProducts,
-				totalResults: topProducts.length,
-				displayedResults: topProducts.length,
-				count: topProducts.length,
-				matchedField: bestMatch.field,
-				matchedValue: bestMatch.value,
-				confidence: bestMatch.confidence
-			  })
-			}
-
-          const summary = await generateAISummary(query, diversifiedResults)
-
-          return NextResponse.json({
-            success: true,
-            questionType: 'search',
-            summary: summary,
-            aiAnswer: summary,
-            results: diversifiedResults.slice(0, 50),
-            totalResults: diversifiedResults.length,
-            count: diversifiedResults.length,
-            displayedResults: Math.min(50, diversifiedResults.length),
-            matchedField: bestMatch.field,
-            matchedValue: bestMatch.value,
-            confidence: bestMatch.confidence
-          })
-        }
-      }
-    }
+    const wantedQualifications = parseQualificationQuery(query)
     
-    // ============================================================================
-    // USE SEMANTIC SEARCH FOR GENERAL QUERIES
-    // ============================================================================
-    
-    console.log('🧠 Using semantic search for general query...')
-    
-    let results: any[] = []
-    
-    try {
-      results = await semanticSearch(query, 150)
-      
-      if (results.length > 0) {
-        console.log(`✅ Semantic search returned ${results.length} results`)
-        
-        let cleanedProducts = results.map(cleanProductData)
-        
-        let diversifiedResults = diversifyByFamily(cleanedProducts, 20, 100)
-        
-        diversifiedResults = diversifiedResults.map(p => ({
-          ...p,
-          _relevanceScore: scoreProductRelevance(p, expandedTerms)
-        }))
-        
-        diversifiedResults.sort((a, b) => (b._relevanceScore || 0) - (a._relevanceScore || 0))
-        
-        console.log(`🏆 Top 10 semantic results:`)
-        diversifiedResults.slice(0, 10).forEach((p, i) => {
-          const baseCode = (p.Product_Name || '')
-            .match(/\b([A-Z]{2,}\s*\d+[A-Z]?)/i)?.[0] || '?'
-          console.log(`  ${i + 1}. [${baseCode}] ${p.Product_Name} (score: ${p._relevanceScore})`)
-        })
-        
-        const aiAnswer = await generateAISummary(query, diversifiedResults)
-        
-        return NextResponse.json({
-          success: true,
-          questionType: 'search',
-          summary: aiAnswer,
-          aiAnswer: aiAnswer,
-          results: diversifiedResults.slice(0, 50),
-          totalResults: diversifiedResults.length,
-          count: diversifiedResults.length,
-          displayedResults: Math.min(50, diversifiedResults.length),
-          searchMethod: 'semantic'
-        })
-      }
-    } catch (error) {
-      console.error('⚠️ Semantic search failed, falling back to traditional search')
+    if (wantedQualifications.length > 0) {
+      const qualificationResponse = await handleQualificationQuery(query, wantedQualifications, expandedTerms, specFilters, facetFilters, units)
+      if (qualificationResponse) return qualificationResponse
     }
-    
+
     // ============================================================================
-    // FALLBACK: TRADITIONAL SEARCH
+    // STEP 4: CONSTRAINT-ONLY QUERIES
     // ============================================================================
-    
-    console.log('🔍 Falling back to traditional search...')
-    console.log(`🔄 Expanded terms:`, expandedTerms)
 
-    let allResults: any[] = []
-    const searchTerms = expandedTerms.slice(0, 40)
+    // "VOC < 420 g/L" leaves nothing to search for, so the spec filters are
+    // applied straight to the full catalog snapshot. The facet selection
+    // covers the family/type/model filters.
+    if (constraintOnly) {
+      console.log('📏 Constraint-only query, filtering the full catalog')
 
-    const typeQuery = supabase
-      .from('coatings')
-      .select('*')
-      .or(searchTerms.map(term => `Product_Type.ilike.%${term}%`).join(','))
+      const { products: catalogProducts } = await getCatalogSnapshot()
+      const filteredProducts = applySpecFilters(catalogProducts, specFilters)
+        .filter(product => matchesFacetSelection(product, facetFilters))
+      const diversifiedResults = diversifyByFamily(filteredProducts, Infinity, 500)
 
-    const { data: typeData } = await typeQuery
-    console.log(`  📦 Found ${typeData?.length || 0} products by Product_Type`)
+      console.log(`📏 ${diversifiedResults.length} products within spec filters`)
 
-    if (typeData) allResults.push(...typeData)
-
-    if (typeData && typeData.length > 0) {
-      const uniqueFamilies = [...new Set(typeData.map(p => p.family).filter(Boolean))]
-      console.log(`  📋 Found ${uniqueFamilies.length} unique families:`, uniqueFamilies.slice(0, 10))
-      
-      if (uniqueFamilies.length > 0) {
-        const familyQuery = supabase
-          .from('coatings')
-          .select('*')
-          .in('family', uniqueFamilies)
-        
-        const { data: familyData } = await familyQuery
-        console.log(`  📦 Found ${familyData?.length || 0} products by family codes`)
-        
-        if (familyData) allResults.push(...familyData)
+      if (diversifiedResults.length > 0) {
+        return respondWithSummary(streamFormat, {
+          questionType: 'search',
+          intent: intent.intent,
+          results: localizeProducts(diversifiedResults.slice(0, 50), units).map(toProductRecord),
+          totalResults: diversifiedResults.length,
+          count: diversifiedResults.length,
+          displayedResults: Math.min(50, diversifiedResults.length),
+          searchMethod: 'spec-filter',
+          specFilters,
+          appliedFilters: facetFilters
+        }, { query, products: localizeProducts(diversifiedResults, units), specFilters, units, conversation, facetSelection, summarize })
       }
-    }
 
-    const nameQuery = supabase
-      .from('coatings')
-      .select('*')
-      .or(searchTerms.map(term => `Product_Name.ilike.%${term}%`).join(','))
+      const noResults = `No products found matching ${filterDescriptions.join(', ')}. Try relaxing the limits.`
 
-    const { data: nameData } = await nameQuery
-    console.log(`  📦 Found ${nameData?.length || 0} products by Product_Name`)
-
-    if (nameData) allResults.push(...nameData)
-
-    const descQuery = supabase
-      .from('coatings')
-      .select('*')
-      .or(searchTerms.map(term => `Product_Description.ilike.%${term}%`).join(','))
-
-    const { data: descData } = await descQuery
-    console.log(`  📦 Found ${descData?.length || 0} products by Product_Description`)
-
-    if (descData) allResults.push(...descData)
-
-    const skuQuery = supabase
-      .from('coatings')
-      .select('*')
-      .or(searchTerms.map(term => `sku.ilike.%${term}%`).join(','))
-
-    const { data: skuData } = await skuQuery
-    console.log(`  📦 Found ${skuData?.length || 0} products by SKU`)
-
-    if (skuData) allResults.push(...skuData)
+      return NextResponse.json({
+        success: true,
+        questionType: 'search',
+        summary: noResults,
+        aiAnswer: noResults,
+        results: [],
+        totalResults: 0,
+        count: 0,
+        displayedResults: 0,
+        searchMethod: 'spec-filter',
+        specFilters,
+        appliedFilters: facetFilters
+      })
+    }
 
-    const uniqueMap = new Map<string, any>()
+    // ============================================================================
+    // STEP 5: HYBRID RETRIEVAL (EXACT + SEMANTIC + KEYWORD)
+    // ============================================================================
 
-    allResults.forEach(product => {
-      const key = product.sku || product.Product_Name || Math.random().toString()
-      if (!uniqueMap.has(key)) {
-        uniqueMap.set(key, product)
-      }
-    })
+    // Every path runs on every query so exact-term hits are not lost when an
+    // embedding neighbour also clears the similarity threshold
+    const fusion = resolveFusionOptions(body.fusion)
+    console.log(`🧬 Hybrid retrieval (${fusion.strategy}, k=${fusion.k})`)
+
+    const bestMatch: MatchResult = comparison.isComparison
+      ? { matched: false, value: null, field: null, confidence: 0 }
+      : await findBestMatch(searchQuery)
+    const suggestions = bestMatch.suggestions || []
+
+    // Corrected spellings join the keyword expansions, so a mistyped code
+    // still retrieves the products it most likely meant
+    const keywordTerms = [...expandedTerms, ...suggestions.map(suggestion => suggestion.value)]
+
+    const [exact, semantic, keyword] = await Promise.all([
+      retrieveExactMatches(bestMatch, expandedTerms, specFilters, catalogFilters),
+      retrieveSemanticMatches(searchQuery, catalogFilters),
+      retrieveKeywordMatches(searchQuery, keywordTerms, catalogFilters)
+    ])
+
+    const lists: RankedList<CoatingProduct>[] = [
+      { source: 'exact', items: exact.products, scores: exact.products.map(p => p.relevanceScore || 0) },
+      { source: 'semantic', items: semantic, scores: semantic.map(p => p.similarity || 0) },
+      { source: 'keyword', items: keyword, scores: keyword.map(p => p.relevanceScore || 0) }
+    ]
 
-    const uniqueResults = Array.from(uniqueMap.values())
+    const fused = fuseRankings(
+      lists,
+      fusion,
+      productKey,
+      (kept, other) => kept.similarity === undefined && other.similarity !== undefined
+        ? { ...kept, similarity: other.similarity }
+        : kept
+    ).filter(result => matchesSpecFilters(result.item, specFilters) && matchesFacetSelection(result.item, facetFilters))
+
+    const didYouMean = suggestions.length > 0 ? suggestions : undefined
+    const sources: Record<RetrievalSource, any> = {
+      exact: {
+        count: exact.products.length,
+        matchedField: bestMatch.field,
+        matchedValue: bestMatch.value,
+        confidence: bestMatch.confidence
+      },
+      semantic: { count: semantic.length },
+      keyword: { count: keyword.length }
+    }
 
-    console.log(`✅ Total unique products: ${uniqueResults.length}`)
+    console.log(`🧬 Fused ${fused.length} products within spec filters (exact: ${exact.products.length}, semantic: ${semantic.length}, keyword: ${keyword.length})`)
 
-    if (uniqueResults.length === 0) {
+    if (fused.length === 0) {
+      const noResults = filterDescriptions.length > 0
+        ? `No products found matching ${filterDescriptions.join(', ')}. Try relaxing the filters or using different keywords.`
+        : suggestions.length > 0
+          ? `No products found. Did you mean ${suggestions.map(s => `**${s.value}**`).join(' or ')}?`
+          : 'No products found. Try adjusting your search terms or using different keywords.'
       return NextResponse.json({
         success: true,
         questionType: 'search',
-        summary: 'No products found. Try adjusting your search terms or using different keywords.',
-        aiAnswer: 'No products found. Try adjusting your search terms or using different keywords.',
+        summary: noResults,
+        aiAnswer: noResults,
         results: [],
-        count: 0
+        count: 0,
+        searchMethod: 'hybrid',
+        didYouMean,
+        retrieval: { strategy: fusion.strategy, k: fusion.k, weights: fusion.weights, sources, ranks: [] },
+        specFilters,
+        appliedFilters: facetFilters
       })
     }
 
-    let diversifiedResults = diversifyByFamily(uniqueResults, Infinity, 500)
+    const fusedProducts = fused.map(result => ({ ...result.item, relevanceScore: Number(result.score.toFixed(5)) }))
+
+    // ✅ Fallback comparison check
+    const exactProducts = fusedProducts.filter((_, i) => fused[i].ranks.exact !== null)
+    if (query.toLowerCase().includes('compare') && exactProducts.length >= 2) {
+      console.log('🎯 Fallback comparison: Detected comparison intent')
+      
+      const topProducts = exactProducts.slice(0, Math.min(10, exactProducts.length))
+      const { summary: comparisonAnalysis, verification, matrix } = summarize
+        ? await generateComparisonAnalysis(topProducts, query, units)
+        : comparisonWithoutAnalysis(topProducts, units)
+      const topRecords = localizeProducts(topProducts, units).map(toProductRecord)
+      
+      return NextResponse.json({
+        success: true,
+        questionType: 'comparison',
+        intent: 'comparison',
+        comparison: {
+          products: topRecords,
+          summary: comparisonAnalysis,
+          comparedFields: getComparedFields(topRecords, true),  
+          allFields: getComparedFields(topRecords, false),
+          verification,
+          matrix
+        },
+        summary: comparisonAnalysis,
+        aiAnswer: comparisonAnalysis,
+        summaryPending: summarize ? undefined : true,
+        results: topRecords,
+        totalResults: topProducts.length,
+        displayedResults: topProducts.length,
+        count: topProducts.length,
+        matchedField: bestMatch.field,
+        matchedValue: bestMatch.value,
+        confidence: bestMatch.confidence,
+        appliedFilters: facetFilters
+      })
+    }
 
-    diversifiedResults = diversifiedResults.map(cleanProductData)
+    // An exact family or type match is one family by construction, so only
+    // open-ended queries are capped per family; the round-robin order is
+    // discarded again by the fused score
+    const diversifiedResults = diversifyByFamily(fusedProducts, exactProducts.length > 0 ? Infinity : 20, 500)
+    diversifiedResults.sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0))
 
-    diversifiedResults = diversifiedResults.map(p => ({
-      ...p,
-      _relevanceScore: scoreProductRelevance(p, expandedTerms)
-    }))
-    
-    diversifiedResults.sort((a, b) => (b._relevanceScore || 0) - (a._relevanceScore || 0))
-    
-    console.log('🏆 Top 10 results:')
+    console.log('🏆 Top 10 fused results:')
+    const ranksByKey = new Map(fused.map(result => [result.key, result]))
     diversifiedResults.slice(0, 10).forEach((p, i) => {
-      const baseCode = (p.Product_Name || '')
-        .match(/\b([A-Z]{2,}\s*\d+[A-Z]?)/i)?.[0] || '?'
-      console.log(`  ${i + 1}. [${baseCode}] ${p.Product_Name} (score: ${p._relevanceScore})`)
+      const ranks = ranksByKey.get(productKey(p))?.ranks || {}
+      const ranksText = Object.entries(ranks).map(([source, rank]) => `${source}: ${rank ?? '-'}`).join(', ')
+      console.log(`  ${i + 1}. ${productDisplayName(p)} (score: ${p.relevanceScore}; ${ranksText})`)
     })
 
-    const aiAnswer = await generateAISummary(query, diversifiedResults)
-
-    return NextResponse.json({
-      success: true,
+    return respondWithSummary(streamFormat, {
       questionType: 'search',
-      summary: aiAnswer,
-      aiAnswer: aiAnswer,
-      results: diversifiedResults.slice(0, 50),
+      intent: intent.intent,
+      results: localizeProducts(diversifiedResults.slice(0, 50), units).map(toProductRecord),
       totalResults: diversifiedResults.length,
       count: diversifiedResults.length,
       displayedResults: Math.min(50, diversifiedResults.length),
-      searchMethod: 'traditional'
-    })
+      searchMethod: 'hybrid',
+      didYouMean,
+      matchedField: exact.products.length > 0 ? bestMatch.field : undefined,
+      matchedValue: exact.products.length > 0 ? bestMatch.value : undefined,
+      confidence: exact.products.length > 0 ? bestMatch.confidence : undefined,
+      retrieval: {
+        strategy: fusion.strategy,
+        k: fusion.k,
+        weights: fusion.weights,
+        sources,
+        ranks: retrievalRanks(diversifiedResults.slice(0, 50).flatMap(p => ranksByKey.get(productKey(p)) || []))
+      },
+      specFilters,
+      appliedFilters: facetFilters
+    }, { query, products: localizeProducts(diversifiedResults, units), specFilters, units, conversation, facetSelection, summarize })
 
   } catch (error: any) {
     console.error('❌ Error in POST handler:', error)
@@ -2468,17 +2375,30 @@ export async function GET(request: NextRequest) {
     version: '2.0',
     features: [
       'Semantic search with vector embeddings',
-      'Traditional keyword search fallback',
+      'Hybrid exact/semantic/keyword retrieval with rank fusion',
       'Product comparison',
       'Meta-question handling',
       'SKU analysis (missing/duplicate)',
-      'Filter options',
       'AI-powered summaries',
+      'Streaming responses (NDJSON or SSE via stream: true)',
+      'Multi-turn conversations (sessionId / newSession / previousTurn) with follow-up resolution',
+      'Results without the AI summary or comparison analysis (summary: false)',
+      'Grounded summaries with per-claim SKU/field citations and value checks',
+      'Comparison matrix with normalized units and per-row winners (COMPARISON_WINNER_DIRECTIONS)',
+      'Result facets with counts (family, type, model, color, gloss, spec buckets)',
+      'Family, type and model filters applied to every retrieval path (echoed as appliedFilters)',
       'Family-based diversification'
     ],
     endpoints: {
       POST: 'Search for products',
-      GET: 'API status'
+      GET: 'API status',
+      'POST /compare': 'Compare 2-8 SKUs ({ skus, substitutions?, directions?, summary? })',
+      'POST /export': 'Export results or a comparison as csv, xlsx or a printable data sheet (html, pdf)',
+      'POST /share': 'Shorten a permalink ({ params }); GET /share?id= returns its search state',
+      'GET /api/coatings-filter-options': 'Filter options with counts',
+      'GET /database-stats': 'Catalog counts of families, types, models and SKUs',
+      'GET /api/admin/catalog/stats': 'Catalog completeness: fill rates, missing embeddings and key specs, distribution, ingest times (ADMIN_API_KEY; rendered at /admin/catalog)',
+      'GET /api/admin/cache': 'Cache diagnostics; POST /refresh, POST /warm and DELETE /filters manage it (ADMIN_API_KEY)'
     }
   })
 }
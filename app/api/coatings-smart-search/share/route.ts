@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SHORT_LINK_ID, getShortLinkStore, isEmptySearchState, parseSearchState } from '@/lib/sharing'
+
+// Shortens a permalink. Body: { params } with the permalink's query string
+// ("q=epoxy+primer&family=..." or the full "/?..." path). The short link
+// /s/<id> redirects to the permalink, which re-runs the search.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const params = typeof body?.params === 'string' ? body.params.replace(/^[^?]*\?/, '') : ''
+    const state = parseSearchState(new URLSearchParams(params))
+
+    if (isEmptySearchState(state)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Nothing to share: params must contain q or compare'
+      }, { status: 400 })
+    }
+
+    const link = await getShortLinkStore().create(state)
+    console.log(`🔗 Short link ${link.id} -> ${link.path}`)
+
+    return NextResponse.json({
+      success: true,
+      id: link.id,
+      path: link.path,
+      shortPath: `/s/${link.id}`,
+      url: `${request.nextUrl.origin}/s/${link.id}`,
+      state: link.state
+    })
+  } catch (error: any) {
+    console.error('❌ Error creating short link:', error)
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to create short link'
+    }, { status: 500 })
+  }
+}
+
+// GET ?id=<id> returns the search state behind a short link
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id') || ''
+  const link = SHORT_LINK_ID.test(id) ? await getShortLinkStore().get(id) : null
+
+  if (!link) {
+    return NextResponse.json({
+      success: false,
+      error: 'Short link not found or expired'
+    }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, ...link })
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server'
+import { SPEC_BUCKETS } from '@/lib/catalog/facets'
+import { SearchState } from '@/lib/sharing'
+import { POST as searchPost } from './api/coatings-smart-search/route'
+import { POST as comparePost } from './api/coatings-smart-search/compare/route'
+
+// Bounds of the compare endpoint
+const MIN_COMPARED = 2
+
+// The results of the search or comparison a permalink describes, rendered
+// with the page. The summary or comparison analysis is left out
+// (`summaryPending`) and fetched by the page, so rendering a link for a
+// crawler or link preview costs no model call and opens no conversation.
+export interface InitialResponse {
+  kind: 'search' | 'compare'
+  data: any
+}
+
+// Selected spec buckets become range filters, like the page's own requests
+function bucketRanges(facets: Record<string, string> = {}) {
+  const ranges: Record<string, any> = {}
+  Object.entries(facets).forEach(([field, value]) => {
+    const bucket = SPEC_BUCKETS[field as keyof typeof SPEC_BUCKETS]?.find(option => option.value === value)
+    if (bucket) ranges[field] = bucket.bounds
+  })
+  return Object.keys(ranges).length > 0 ? ranges : undefined
+}
+
+function jsonRequest(path: string, body: any): NextRequest {
+  return new NextRequest(new URL(path, 'http://localhost'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+}
+
+// Runs the permalink's search through the same handlers the page calls. Null
+// when there is nothing to run or it failed, so the page runs it itself and
+// reports the error.
+export async function loadPermalinkResults(state: SearchState): Promise<InitialResponse | null> {
+  try {
+    if (state.compare && state.compare.length >= MIN_COMPARED) {
+      const response = await comparePost(jsonRequest('/api/coatings-smart-search/compare', {
+        skus: state.compare,
+        substitutions: state.substitutions,
+        units: state.units,
+        summary: false
+      }))
+      const data = await response.json()
+      return response.ok || data.needsConfirmation ? { kind: 'compare', data } : null
+    }
+
+    if (!state.query) return null
+
+    const response = await searchPost(jsonRequest('/api/coatings-smart-search', {
+      query: state.query,
+      filters: {
+        family: state.family,
+        productType: state.productType,
+        productModel: state.productModel,
+        ...state.facets,
+        ranges: bucketRanges(state.facets)
+      },
+      units: state.units,
+      summary: false
+    }))
+    const data = await response.json()
+    return response.ok ? { kind: 'search', data } : null
+  } catch (error: any) {
+    console.error('❌ Permalink results failed:', error.message)
+    return null
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SHORT_LINK_ID, getShortLinkStore } from '@/lib/sharing'
+
+// /s/<id> redirects to the permalink it was created for; an unknown or
+// expired link is a 404
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const link = SHORT_LINK_ID.test(id) ? await getShortLinkStore().get(id) : null
+
+  if (!link) {
+    console.log(`⚠️ Short link ${id} not found`)
+    return NextResponse.json({
+      success: false,
+      error: 'Short link not found or expired'
+    }, { status: 404 })
+  }
+
+  return NextResponse.redirect(new URL(link.path, request.url))
+}
@@ -0,0 +1,2148 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { UnitSystem, convertUnitsInText } from '@/lib/units'
+import { MAX_PERMALINK_LENGTH, SearchState, permalinkPath } from '@/lib/sharing/permalink'
+import type { InitialResponse } from './permalink-results'
+
+// Bounds of the compare endpoint
+const MIN_COMPARED = 2
+const MAX_COMPARED = 8
+
+// What the page shows for a response of the search or compare endpoint
+interface ResponseView {
+  results: any[]
+  aiAnswer: string
+  groundedAnswer: any
+  searchIntent: string
+  comparisonData: any
+  metaQuestionData: any
+  specificAnswer: any
+  analyticalData: any
+  didYouMean: any[]
+  resultFacets: any[]
+  // Products that were not found are only replaced once the user picks a substitute
+  pendingComparison: any
+}
+
+const EMPTY_VIEW: ResponseView = {
+  results: [],
+  aiAnswer: '',
+  groundedAnswer: null,
+  searchIntent: '',
+  comparisonData: null,
+  metaQuestionData: null,
+  specificAnswer: null,
+  analyticalData: null,
+  didYouMean: [],
+  resultFacets: [],
+  pendingComparison: null
+}
+
+function pendingComparisonOf(data: any) {
+  return data.needsConfirmation
+    ? { found: data.found || [], notFound: data.notFound || [], substitutes: data.substitutes || {}, error: data.error }
+    : null
+}
+
+function searchResponseView(data: any): ResponseView {
+  const view: ResponseView = {
+    ...EMPTY_VIEW,
+    didYouMean: data.didYouMean || [],
+    resultFacets: data.facets || [],
+    pendingComparison: pendingComparisonOf(data)
+  }
+
+  // ✅ CRITICAL: Check comparison FIRST (before specificAnswer)
+  if (data.comparison) {
+    console.log('✅ Setting comparison data:', {
+      productCount: data.comparison.products?.length,
+      summaryLength: data.comparison.summary?.length
+    })
+    return {
+      ...view,
+      comparisonData: data.comparison,
+      results: data.results || data.comparison.products || [],
+      aiAnswer: data.comparison.summary || data.aiAnswer || '',
+      searchIntent: 'comparison'
+    }
+  } else if (data.metaQuestion) {
+    console.log('✅ Setting meta question data')
+    return {
+      ...view,
+      metaQuestionData: data.metaQuestion,
+      results: data.results || [],
+      aiAnswer: data.metaQuestion.summary || data.aiAnswer || '',
+      searchIntent: data.metaQuestion.type || 'meta'
+    }
+  } else if (data.specificAnswer) {
+    console.log('✅ Setting specific answer data')
+    return {
+      ...view,
+      specificAnswer: data.specificAnswer,
+      results: data.results || [],
+      aiAnswer: data.specificAnswer.answer || data.aiAnswer || '',
+      searchIntent: 'specific'
+    }
+  } else if (data.analytical) {
+    console.log('✅ Setting analytical data')
+    return {
+      ...view,
+      analyticalData: data.analytical,
+      results: data.results || [],
+      aiAnswer: data.analytical.summary || data.aiAnswer || '',
+      searchIntent: 'analytical'
+    }
+  }
+
+  // Normal search results
+  console.log('✅ Setting normal search results')
+  return {
+    ...view,
+    results: data.results || [],
+    aiAnswer: data.aiAnswer || '',
+    groundedAnswer: data.answer || null,
+    searchIntent: data.intent || 'general'
+  }
+}
+
+function comparisonResponseView(data: any): ResponseView {
+  if (data.needsConfirmation) return { ...EMPTY_VIEW, pendingComparison: pendingComparisonOf(data) }
+
+  return {
+    ...EMPTY_VIEW,
+    comparisonData: data.comparison,
+    results: data.results || data.comparison.products || [],
+    aiAnswer: data.comparison.summary || data.aiAnswer || '',
+    searchIntent: 'comparison'
+  }
+}
+
+function initialTurn(state: SearchState, response: InitialResponse) {
+  if (response.kind === 'compare') {
+    return { query: `Compare ${(state.compare || []).map(sku => state.substitutions?.[sku] || sku).join(', ')}` }
+  }
+  return { query: state.query || '' }
+}
+
+// `initialState` comes from a permalink's params and `initialResponse` is the
+// search it describes, run by the server; without one the search runs on load
+export default function CoatingsSearch({ initialState = {}, initialResponse = null }: {
+  initialState?: SearchState
+  initialResponse?: InitialResponse | null
+}) {
+  const [initialView] = useState<ResponseView | null>(() => initialResponse && (
+    initialResponse.kind === 'compare' ? comparisonResponseView : searchResponseView
+  )(initialResponse.data))
+
+  const [query, setQuery] = useState(initialState.query || '')
+  const [results, setResults] = useState<any[]>(initialView?.results || [])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [aiAnswer, setAiAnswer] = useState<string>(initialView?.aiAnswer || '')
+  const [searchIntent, setSearchIntent] = useState<string>(initialView?.searchIntent || '')
+  const [specificAnswer, setSpecificAnswer] = useState<any>(initialView?.specificAnswer || null)
+  const [comparisonData, setComparisonData] = useState<any>(initialView?.comparisonData || null)
+  const [analyticalData, setAnalyticalData] = useState<any>(initialView?.analyticalData || null)
+  const [hasSearched, setHasSearched] = useState(Boolean(initialView))
+  const [searchProgress, setSearchProgress] = useState('')
+  const [searchTime, setSearchTime] = useState<number | null>(null)
+  
+  const [selectedFamily, setSelectedFamily] = useState(initialState.family || '')
+  const [selectedProductType, setSelectedProductType] = useState(initialState.productType || '')
+  const [selectedProductModel, setSelectedProductModel] = useState(initialState.productModel || '')
+  const [showFilters, setShowFilters] = useState(Boolean(initialState.family || initialState.productType || initialState.productModel))
+  
+  // Facets of the catalog for the current selection, with counts per value
+  const [filterFacets, setFilterFacets] = useState<any[]>([])
+  // Color, gloss and spec bucket selections (facet field -> value or bucket key)
+  const [specFacets, setSpecFacets] = useState<Record<string, string>>(initialState.facets || {})
+  // Facets of the current result set, offered as one-click refinements
+  const [resultFacets, setResultFacets] = useState<any[]>(initialView?.resultFacets || [])
+  const [refinePending, setRefinePending] = useState(false)
+  const [loadingFilters, setLoadingFilters] = useState(true)
+
+  const [metaQuestionData, setMetaQuestionData] = useState<any>(initialView?.metaQuestionData || null)
+  // null shows values as listed in the catalog
+  const [units, setUnits] = useState<UnitSystem | null>(initialState.units || null)
+  // "Did you mean" corrections for mistyped families, SKUs and models
+  const [didYouMean, setDidYouMean] = useState<any[]>(initialView?.didYouMean || [])
+  // True while summary tokens are still arriving after the results
+  const [summaryStreaming, setSummaryStreaming] = useState(false)
+  // Follow-up questions ("what about its pot life?") resolve against this session
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [currentTurn, setCurrentTurn] = useState<{ query: string; resolvedQuery?: string } | null>(
+    initialResponse && initialTurn(initialState, initialResponse)
+  )
+  // The summary as cited segments, with numbers the server could not verify
+  const [groundedAnswer, setGroundedAnswer] = useState<any>(initialView?.groundedAnswer || null)
+  // SKUs ticked on the result cards, compared together through the compare endpoint
+  const [compareSelection, setCompareSelection] = useState<string[]>([])
+  // A comparison that named products which do not exist, waiting for the user to pick substitutes
+  const [pendingComparison, setPendingComparison] = useState<any>(initialView?.pendingComparison || null)
+  const [substituteChoices, setSubstituteChoices] = useState<Record<string, string>>({})
+  // The comparison matrix hides rows where every product has the same value
+  const [matrixDifferencesOnly, setMatrixDifferencesOnly] = useState(true)
+  // "<kind>-<format>" of the export being downloaded
+  const [exporting, setExporting] = useState<string | null>(null)
+  // Path of the permalink for what is on screen, mirrored into the address bar
+  const [permalink, setPermalink] = useState<string | null>(() => {
+    const path = permalinkPath(initialState)
+    return initialView && path !== '/' ? path : null
+  })
+  const [shareStatus, setShareStatus] = useState('')
+  const initialSearchRun = useRef(false)
+  const [thread, setThread] = useState<Array<{ query: string; resolvedQuery?: string; answer: string; resultCount: number }>>([])
+
+  // Every selection changes the counts (and options) of the other facets
+  useEffect(() => {
+    loadFilterOptionsInline()
+  }, [selectedFamily, selectedProductType, selectedProductModel, specFacets])
+
+  useEffect(() => {
+    if (!refinePending) return
+    setRefinePending(false)
+    handleSearch()
+  }, [refinePending])
+
+  useEffect(() => {
+    if (initialSearchRun.current) return
+    initialSearchRun.current = true
+    // Already rendered with the page, unless the server could not run it
+    if (initialResponse) {
+      if (initialResponse.data.summaryPending) loadPendingSummary(initialResponse)
+      return
+    }
+    if (initialState.compare && initialState.compare.length >= MIN_COMPARED) {
+      runComparison(initialState.compare, initialState.substitutions)
+    } else if (initialState.query) {
+      handleSearch(initialState.query)
+    }
+  }, [])
+
+  const updatePermalink = (state: SearchState) => {
+    const path = permalinkPath({
+      family: selectedFamily || undefined,
+      productType: selectedProductType || undefined,
+      productModel: selectedProductModel || undefined,
+      facets: Object.keys(specFacets).length > 0 ? specFacets : undefined,
+      units: units || undefined,
+      ...state
+    })
+    setPermalink(path === '/' ? null : path)
+    setShareStatus('')
+    window.history.replaceState(null, '', path)
+  }
+
+  // Long permalinks are swapped for a short link before copying
+  const sharePermalink = async () => {
+    if (!permalink) return
+    let url = `${window.location.origin}${permalink}`
+
+    try {
+      if (url.length > MAX_PERMALINK_LENGTH) {
+        const response = await fetch('/api/coatings-smart-search/share', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ params: permalink })
+        })
+        const data = await response.json()
+        if (data.success) url = data.url
+      }
+      await navigator.clipboard.writeText(url)
+      setShareStatus('Link copied')
+    } catch (err) {
+      console.error('❌ Share error:', err)
+      window.prompt('Copy this link:', url)
+    }
+  }
+
+  // Exports go through the export endpoint with the data already on screen.
+  // The printable sheet opens in a new tab, which has to be opened before the
+  // request so popup blockers allow it.
+  const exportData = async (kind: 'results' | 'comparison', format: 'csv' | 'xlsx' | 'pdf') => {
+    const preview = format === 'pdf' ? window.open('', '_blank') : null
+    setExporting(`${kind}-${format}`)
+
+    try {
+      const response = await fetch('/api/coatings-smart-search/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format,
+          query: currentTurn?.resolvedQuery || currentTurn?.query || query,
+          differencesOnly: matrixDifferencesOnly,
+          ...(kind === 'comparison' ? { comparison: comparisonData } : { results })
+        })
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || `Export failed (${response.status})`)
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      if (preview) {
+        preview.location.href = url
+      } else {
+        const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `export.${format}`
+        const link = document.createElement('a')
+        link.href = url
+        link.download = filename
+        link.click()
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000)
+    } catch (err: any) {
+      preview?.close()
+      setError(err.message || 'Export failed')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const renderExportButtons = (kind: 'results' | 'comparison', color: 'purple' | 'blue') => (
+    <div className="flex items-center gap-2">
+      {(['csv', 'xlsx', 'pdf'] as const).map(format => (
+        <button
+          key={format}
+          onClick={() => exportData(kind, format)}
+          disabled={exporting !== null}
+          className={`px-3 py-1.5 text-xs sm:text-sm font-semibold rounded-lg border disabled:opacity-50 ${
+            color === 'purple'
+              ? 'border-purple-300 text-purple-700 hover:bg-purple-100'
+              : 'border-blue-300 text-blue-700 hover:bg-blue-100'
+          }`}
+        >
+          {exporting === `${kind}-${format}` ? '…' : '⬇'} {format === 'pdf' ? 'PDF' : format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  )
+
+  const localizeUnits = (text: string): string => units ? convertUnitsInText(text, units) : text
+
+  // Enhanced markdown rendering function with improved readability for AI analysis
+  const renderMarkdown = (markdown: string, colorClass: string = 'green'): string => {
+    let html = localizeUnits(markdown);
+    
+    // Color class mappings (Tailwind-safe - no dynamic classes)
+    const colors: { [key: string]: { heading: string; text: string; bold: string } } = {
+      green: { heading: 'text-green-800', text: 'text-green-900', bold: 'text-green-900' },
+      indigo: { heading: 'text-indigo-800', text: 'text-indigo-900', bold: 'text-indigo-900' },
+      purple: { heading: 'text-purple-800', text: 'text-purple-900', bold: 'text-purple-900' },
+      blue: { heading: 'text-blue-800', text: 'text-blue-900', bold: 'text-blue-900' }
+    };
+    
+    const color = colors[colorClass] || colors.green;
+    
+    // 1. Handle markdown tables FIRST (before other replacements)
+    const tablePattern = /\n\|(.+)\|\n\|[\-:\s|]+\|\n((?:\|.+\|\n?)+)/g;
+    html = html.replace(tablePattern, (match, header, rows) => {
+      const headerCells = header
+        .split('|')
+        .map((cell: string) => cell.trim())
+        .filter((cell: string) => cell !== '' && cell !== '-');
+      
+      const bodyRowsArray = rows.trim().split('\n').map((row: string) => {
+        const cells = row
+          .split('|')
+          .map((cell: string) => cell.trim())
+          .filter((cell: string) => cell !== '' && cell !== '-');
+        return cells;
+      });
+      
+      const headerHTML = headerCells
+        .map((cell: string) => 
+          `<th class="px-4 py-3 text-left text-sm font-semibold text-gray-700 border-b-2 border-gray-300 bg-gray-50">${cell}</th>`
+        )
+        .join('');
+      
+      const bodyHTML = bodyRowsArray
+        .map((cells: string[]) => {
+          const cellsHTML = cells
+            .map((cell: string) => 
+              `<td class="px-4 py-3 text-sm text-gray-800 border-b border-gray-200">${cell || '-'}</td>`
+            )
+            .join('');
+          return `<tr class="hover:bg-gray-50">${cellsHTML}</tr>`;
+        })
+        .join('');
+      
+      return `<div class="overflow-x-auto my-6 rounded-lg shadow-sm"><table class="min-w-full bg-white border border-gray-300 rounded-lg"><thead><tr>${headerHTML}</tr></thead><tbody>${bodyHTML}</tbody></table></div>`;
+    });
+    
+    // 2. Handle headings with better spacing
+    html = html.replace(/### (.*?)(\n|$)/g, `<h3 class="text-xl font-bold ${color.heading} mt-6 mb-3">$1</h3>`);
+    html = html.replace(/## (.*?)(\n|$)/g, `<h2 class="text-2xl font-bold ${color.text} mt-6 mb-4">$1</h2>`);
+    html = html.replace(/# (.*?)(\n|$)/g, `<h1 class="text-3xl font-bold ${color.text} mt-6 mb-4">$1</h1>`);
+    
+    // 3. Handle bold text
+    html = html.replace(/\*\*(.*?)\*\*/g, `<strong class="font-bold ${color.bold}">$1</strong>`);
+    
+    // 4. Clean up any existing bullet points (•) that AI might have added
+    html = html.replace(/\n•\s*/g, '\n- ');
+    html = html.replace(/^•\s*/gm, '- ');
+    
+    // 5. Handle section headers (text ending with colon)
+    html = html.replace(/^([A-Z][^:\n]+):$/gm, `<div class="font-semibold text-lg ${color.text} mt-5 mb-3">$1:</div>`);
+    
+    // 6. Process lists - identify and convert list blocks
+    const lines = html.split('\n');
+    const processedLines: string[] = [];
+    let inList = false;
+    let listItems: string[] = [];
+    
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const trimmedLine = line.trim();
+      
+      // Skip if this line is part of a table (already processed)
+      if (trimmedLine.startsWith('<div class="overflow-x-auto') || trimmedLine.startsWith('<table') || trimmedLine.includes('</table>')) {
+        if (inList) {
+          processedLines.push(
+            '<ul class="space-y-2 my-4 pl-0">' +
+            listItems.map(item => 
+              `<li class="flex items-start"><span class="inline-block mr-3 mt-1 text-${colorClass}-600 flex-shrink-0">•</span><span class="flex-1">${item}</span></li>`
+            ).join('') +
+            '</ul>'
+          );
+          inList = false;
+          listItems = [];
+        }
+        processedLines.push(line);
+        continue;
+      }
+      
+      // Check if this is a list item
+      if (trimmedLine.startsWith('- ')) {
+        if (!inList) {
+          inList = true;
+          listItems = [];
+        }
+        listItems.push(trimmedLine.substring(2).trim());
+      } else {
+        if (inList) {
+          processedLines.push(
+            '<ul class="space-y-2 my-4 pl-0">' +
+            listItems.map(item => 
+              `<li class="flex items-start"><span class="inline-block mr-3 mt-1 text-${colorClass}-600 flex-shrink-0">•</span><span class="flex-1">${item}</span></li>`
+            ).join('') +
+            '</ul>'
+          );
+          inList = false;
+          listItems = [];
+        }
+        
+        if (trimmedLine && !trimmedLine.startsWith('<')) {
+          processedLines.push(`<p class="my-3 leading-relaxed">${line}</p>`);
+        } else if (trimmedLine.startsWith('<')) {
+          processedLines.push(line);
+        } else {
+          processedLines.push(line);
+        }
+      }
+    }
+    
+    // Close any remaining open list
+    if (inList && listItems.length > 0) {
+      processedLines.push(
+        '<ul class="space-y-2 my-4 pl-0">' +
+        listItems.map(item => 
+          `<li class="flex items-start"><span class="inline-block mr-3 mt-1 text-${colorClass}-600 flex-shrink-0">•</span><span class="flex-1">${item}</span></li>`
+        ).join('') +
+        '</ul>'
+      );
+    }
+    
+    html = processedLines.join('\n');
+    
+    // 7. Clean up empty paragraphs
+    html = html.replace(/<p class="my-3 leading-relaxed"><\/p>/g, '');
+    html = html.replace(/<p class="my-3 leading-relaxed">\s*<\/p>/g, '');
+    
+    // 8. Handle nested lists (sub-items with extra indentation)
+    html = html.replace(/<li class="flex items-start"><span class="inline-block mr-3 mt-1 text-[^"]*-600 flex-shrink-0">•<\/span><span class="flex-1">\s*-\s*/g, 
+      '<li class="flex items-start ml-6"><span class="inline-block mr-3 mt-1 text-gray-500 flex-shrink-0">◦</span><span class="flex-1">');
+    
+    return html;
+  }
+
+  const searchRequestBody = (searchQuery: string) => ({
+    query: searchQuery,
+    filters: {
+      family: selectedFamily || undefined,
+      productType: selectedProductType || undefined,
+      productModel: selectedProductModel || undefined,
+      ...specFacets,
+      ranges: facetRanges()
+    },
+    units: units || undefined,
+    stream: true
+  })
+
+  const handleSearch = async (overrideQuery?: string) => {
+    const searchQuery = overrideQuery ?? query
+    if (!searchQuery.trim()) {
+      setError('Please enter a search query')
+      return
+    }
+
+    archiveCurrentTurn()
+    setCurrentTurn({ query: searchQuery })
+    updatePermalink({ query: searchQuery })
+
+    setLoading(true)
+    setError('')
+    setAiAnswer('')
+    setGroundedAnswer(null)
+    setSearchIntent('')
+    setResults([])
+    setSpecificAnswer(null)
+    setComparisonData(null)
+    setAnalyticalData(null)
+    setMetaQuestionData(null)
+    setDidYouMean([])
+    setResultFacets([])
+    setPendingComparison(null)
+    setSummaryStreaming(false)
+    setHasSearched(true)
+    setSearchProgress('Searching...')
+    setSearchTime(null)
+
+    const searchStartTime = Date.now()
+
+    try {
+      // A turn on screen that no session recorded (a server-rendered
+      // permalink) seeds the session this search starts
+      const previousTurn = !sessionId && currentTurn && results.length > 0
+        ? {
+            query: currentTurn.resolvedQuery || currentTurn.query,
+            products: results.map(result => ({ sku: result.sku, name: result.Product_Name, family: result.family, productType: result.Product_Type })),
+            summary: aiAnswer
+          }
+        : undefined
+
+      const response = await fetch('/api/coatings-smart-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...searchRequestBody(searchQuery),
+          ...(sessionId ? { sessionId } : { newSession: true, previousTurn })
+        })
+      })
+
+      // Searches that produce an AI summary stream their stages as NDJSON;
+      // every other answer type still arrives as a single JSON body
+      if (response.ok && response.headers.get('content-type')?.includes('application/x-ndjson')) {
+        await readSearchStream(response, searchStartTime)
+        return
+      }
+
+      const data = await response.json()
+      const searchEndTime = Date.now()
+      const timeTaken = ((searchEndTime - searchStartTime) / 1000).toFixed(2)
+      setSearchTime(parseFloat(timeTaken))
+
+      console.log('🔍 Response data:', {
+        questionType: data.questionType,
+        intent: data.intent,
+        hasComparison: !!data.comparison,
+        hasProducts: !!data.comparison?.products,
+        productCount: data.comparison?.products?.length,
+        hasSummary: !!data.comparison?.summary,
+        hasSpecificAnswer: !!data.specificAnswer,
+        hasAnalytical: !!data.analytical,
+        hasMetaQuestion: !!data.metaQuestion
+      })
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed')
+      }
+
+      applyView(searchResponseView(data))
+      applySession(data.session)
+
+      setSearchProgress('')
+    } catch (err: any) {
+      console.error('❌ Search error:', err)
+      setError(err.message || 'An error occurred while searching')
+      setSearchProgress('')
+    } finally {
+      setLoading(false)
+    }
+  }
+  
+  // The answer on screen becomes an earlier turn of the conversation
+  const archiveCurrentTurn = () => {
+    if (currentTurn && !error) {
+      setThread(previous => [...previous, { ...currentTurn, answer: aiAnswer, resultCount: results.length }])
+    }
+  }
+
+  const toggleCompare = (sku: string) => {
+    setCompareSelection(previous => previous.includes(sku)
+      ? previous.filter(s => s !== sku)
+      : previous.length >= MAX_COMPARED ? previous : [...previous, sku])
+  }
+
+  const runComparison = async (skus: string[], substitutions: Record<string, string> = {}) => {
+    archiveCurrentTurn()
+    setCurrentTurn({ query: `Compare ${skus.map(sku => substitutions[sku] || sku).join(', ')}` })
+    updatePermalink({ compare: skus, substitutions })
+
+    setLoading(true)
+    setError('')
+    setAiAnswer('')
+    setGroundedAnswer(null)
+    setSpecificAnswer(null)
+    setAnalyticalData(null)
+    setMetaQuestionData(null)
+    setDidYouMean([])
+    setPendingComparison(null)
+    setHasSearched(true)
+    setSearchProgress('Comparing products...')
+    setSearchTime(null)
+
+    const startTime = Date.now()
+
+    try {
+      const response = await fetch('/api/coatings-smart-search/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ skus, substitutions, units: units || undefined })
+      })
+      const data = await response.json()
+      setSearchTime(parseFloat(((Date.now() - startTime) / 1000).toFixed(2)))
+
+      if (!data.needsConfirmation && (!response.ok || !data.success)) {
+        throw new Error(data.error || 'Comparison failed')
+      }
+
+      applyView(comparisonResponseView(data))
+      if (!data.needsConfirmation) setCompareSelection([])
+    } catch (err: any) {
+      console.error('❌ Comparison error:', err)
+      setError(err.message || 'An error occurred while comparing products')
+    } finally {
+      setSearchProgress('')
+      setLoading(false)
+    }
+  }
+
+  // A server-rendered permalink arrives without its summary or comparison
+  // analysis, which is requested here outside any conversation
+  const loadPendingSummary = async (pending: InitialResponse) => {
+    setSummaryStreaming(true)
+    const startTime = Date.now()
+
+    try {
+      if (pending.kind === 'compare') {
+        const response = await fetch('/api/coatings-smart-search/compare', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ skus: initialState.compare, substitutions: initialState.substitutions, units: units || undefined })
+        })
+        const data = await response.json()
+        if (response.ok && data.success) applyView(comparisonResponseView(data))
+        return
+      }
+
+      const response = await fetch('/api/coatings-smart-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(searchRequestBody(initialState.query || ''))
+      })
+      if (response.ok && response.headers.get('content-type')?.includes('application/x-ndjson')) {
+        await readSearchStream(response, startTime)
+        return
+      }
+      const data = await response.json()
+      if (response.ok) applyView(searchResponseView(data))
+    } catch (err: any) {
+      console.error('❌ Summary error:', err)
+    } finally {
+      setSummaryStreaming(false)
+    }
+  }
+
+  // Compares what was found plus every missing product the user picked a substitute for
+  const confirmSubstitutes = () => {
+    if (!pendingComparison) return
+    const chosen = pendingComparison.notFound.filter((code: string) => substituteChoices[code])
+    runComparison([...pendingComparison.found, ...chosen], substituteChoices)
+  }
+
+  const applyView = (view: ResponseView) => {
+    setResults(view.results)
+    setAiAnswer(view.aiAnswer)
+    setGroundedAnswer(view.groundedAnswer)
+    setSearchIntent(view.searchIntent)
+    setComparisonData(view.comparisonData)
+    setMetaQuestionData(view.metaQuestionData)
+    setSpecificAnswer(view.specificAnswer)
+    setAnalyticalData(view.analyticalData)
+    setDidYouMean(view.didYouMean)
+    setResultFacets(view.resultFacets)
+    setPendingComparison(view.pendingComparison)
+    setSubstituteChoices({})
+  }
+
+  const applySession = (session: any) => {
+    if (!session) return
+    setSessionId(session.id)
+    setCurrentTurn(previous => previous && { ...previous, resolvedQuery: session.resolvedQuery })
+    // A follow-up is only meaningful in its conversation, so its link carries the resolved query
+    if (session.resolvedQuery) updatePermalink({ query: session.resolvedQuery })
+  }
+
+  const startNewConversation = () => {
+    setSessionId(null)
+    setCurrentTurn(null)
+    setThread([])
+    setQuery('')
+    setResults([])
+    setAiAnswer('')
+    setSpecificAnswer(null)
+    setComparisonData(null)
+    setAnalyticalData(null)
+    setMetaQuestionData(null)
+    setDidYouMean([])
+    setHasSearched(false)
+    setSearchTime(null)
+    updatePermalink({})
+  }
+
+  const readSearchStream = async (response: Response, searchStartTime: number) => {
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    const handleEvent = (event: string, data: any) => {
+      switch (event) {
+        case 'intent':
+          setResultFacets(data.facets || [])
+          setSearchIntent(data.intent || 'general')
+          setDidYouMean(data.didYouMean || [])
+          applySession(data.session)
+          setSearchProgress('Loading products...')
+          break
+        case 'products':
+          setResults(data.results || [])
+          setSearchTime(parseFloat(((Date.now() - searchStartTime) / 1000).toFixed(2)))
+          setSummaryStreaming(true)
+          setSearchProgress('')
+          setLoading(false)
+          break
+        case 'summary':
+          setAiAnswer(previous => previous + data.delta)
+          // Streamed lines arrive grounded; the verification comes with `done`
+          setGroundedAnswer((previous: any) => ({ segments: [...(previous?.segments || []), ...(data.segments || [])] }))
+          break
+        case 'done':
+          setAiAnswer(data.aiAnswer || '')
+          setGroundedAnswer(data.answer || null)
+          setSummaryStreaming(false)
+          break
+        case 'error':
+          throw new Error(data.error || 'Search failed')
+      }
+    }
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      lines.filter(line => line.trim()).forEach(line => {
+        const { event, data } = JSON.parse(line)
+        handleEvent(event, data)
+      })
+    }
+
+    setSummaryStreaming(false)
+  }
+
+  const loadFilterOptionsInline = async (retryCount = 0) => {
+    console.log('🔄 Loading filter options...')
+    setLoadingFilters(true)
+    
+    try {
+      const params = new URLSearchParams(Object.entries({
+        family: selectedFamily,
+        productType: selectedProductType,
+        productModel: selectedProductModel,
+        ...specFacets
+      }).filter(([, value]) => value))
+      const response = await fetch(`/api/coatings-filter-options?${params}`)
+
+      if (response.ok) {
+        const data = await response.json()
+        
+        if (data.success && Array.isArray(data.facets)) {
+          setFilterFacets(data.facets)
+          // A type or model that doesn't occur in the chosen family (or type) is cleared
+          if (data.dropped?.includes('productType')) setSelectedProductType('')
+          if (data.dropped?.includes('productModel')) setSelectedProductModel('')
+          console.log(`✅ Filter options loaded successfully (${data.total} matching products)`)
+        } else {
+          throw new Error('Invalid response structure')
+        }
+      } else {
+        throw new Error(`HTTP ${response.status}`)
+      }
+    } catch (err: any) {
+      console.error('❌ Exception loading filter options:', err)
+      
+      // ✅ Retry once if first attempt fails
+      if (retryCount < 1) {
+        console.log('🔄 Retrying filter load...')
+        setTimeout(() => loadFilterOptionsInline(retryCount + 1), 2000)
+      } else {
+        setError(`Failed to load filter options: ${err.message}`)
+      }
+    } finally {
+      setLoadingFilters(false)
+    }
+  }
+
+  const facetOptions = (field: string): any[] =>
+    filterFacets.find(facet => facet.field === field)?.values || []
+
+  // Selected spec buckets become range filters of the search request
+  const facetRanges = () => {
+    const ranges: Record<string, any> = {}
+    Object.entries(specFacets).forEach(([field, value]) => {
+      const bucket = facetOptions(field).find(option => option.value === value)
+      if (bucket?.bounds) ranges[field] = bucket.bounds
+    })
+    return Object.keys(ranges).length > 0 ? ranges : undefined
+  }
+
+  const setSpecFacet = (field: string, value: string) => {
+    setSpecFacets(previous => {
+      const { [field]: _, ...rest } = previous
+      return value ? { ...rest, [field]: value } : rest
+    })
+  }
+
+  // A refinement from the result set's facets applies the filter and searches again
+  const refineBy = (field: string, value: string) => {
+    if (field === 'family') setSelectedFamily(value)
+    else if (field === 'productType') setSelectedProductType(value)
+    else if (field === 'productModel') setSelectedProductModel(value)
+    else setSpecFacet(field, value)
+    setRefinePending(true)
+  }
+
+  // Family narrows the types and a type narrows the models, so changing a
+  // level resets the ones below it
+  const selectCascadeFilter = (field: 'family' | 'productType', value: string) => {
+    if (field === 'family') {
+      setSelectedFamily(value)
+      setSelectedProductType('')
+    } else {
+      setSelectedProductType(value)
+    }
+    setSelectedProductModel('')
+  }
+
+  const clearFilters = () => {
+    setSelectedFamily('')
+    setSelectedProductType('')
+    setSelectedProductModel('')
+    setSpecFacets({})
+  }
+
+  const activeFilterCount = [selectedFamily, selectedProductType, selectedProductModel].filter(Boolean).length + Object.keys(specFacets).length
+  const hasActiveFilters = activeFilterCount > 0
+
+  const isEmpty = (value: any): boolean => {
+    if (value === null || value === undefined) return true
+    if (typeof value === 'string' && value.trim() === '') return true
+    if (Array.isArray(value) && value.length === 0) return true
+    return false
+  }
+
+  const groupAttributes = (product: any) => {
+    const headerFieldsOrder = ['sku', 'product_name', 'productname', 'name', 'product_description', 'description']
+    const excludeFields = ['embedding', 'created_at', 'updated_at', 'createdat', 'updatedat', 'searchable_text', 'searchabletext', 'searchable', '_sourceTable']
+    
+    const header: any = {}
+    const other: any = {}
+    const seen = new Set<string>()
+
+    const headerCandidates: { [key: string]: any } = {}
+    
+    Object.entries(product).forEach(([key, value]) => {
+      const lowerKey = key.toLowerCase()
+      
+      if (seen.has(lowerKey) || excludeFields.includes(lowerKey) || isEmpty(value)) return
+      seen.add(lowerKey)
+      
+      if (headerFieldsOrder.includes(lowerKey)) {
+        headerCandidates[lowerKey] = { originalKey: key, value }
+      } else {
+        other[key] = value
+      }
+    })
+
+    headerFieldsOrder.forEach(fieldName => {
+      if (headerCandidates[fieldName]) {
+        const { originalKey, value } = headerCandidates[fieldName]
+        header[originalKey] = value
+      }
+    })
+
+    return { header, other }
+  }
+
+  const formatFieldName = (key: string): string => {
+    const fieldMappings: { [key: string]: string } = {
+      'sku': 'SKU',
+      'product_name': 'Product Name',
+      'Product_Name': 'Product Name',
+      'productname': 'Product Name',
+      'product_description': 'Description',
+      'Product_Description': 'Description',
+      'description': 'Description',
+      'product_model': 'Product Model',
+      'Product_Model': 'Product Model',
+      'productmodel': 'Product Model',
+      'product_type': 'Product Type',
+      'Product_Type': 'Product Type',
+      'producttype': 'Product Type',
+      'family': 'Family',
+    }
+    
+    const lowerKey = key.toLowerCase()
+    if (fieldMappings[lowerKey]) {
+      return fieldMappings[lowerKey]
+    }
+    
+    return key
+      .replace(/_/g, ' ')
+      .replace(/\b\w/g, (char) => char.toUpperCase())
+  }
+
+  const formatValue = (key: string, value: any): string => {
+    const lowerKey = key.toLowerCase()
+    if ((lowerKey.includes('created') || lowerKey.includes('updated')) && 
+        typeof value === 'string' && value.includes('T')) {
+      try {
+        return new Date(value).toLocaleString()
+      } catch {
+        return String(value)
+      }
+    }
+    return typeof value === 'string' ? localizeUnits(value) : String(value)
+  }
+
+  const getAllKeys = (products: any[]) => {
+    const allKeys = new Set<string>()
+    const seenLowerKeys = new Set<string>()
+    const excludeFields = ['embedding', 'created_at', 'updated_at', 'createdat', 'updatedat', 'searchable_text', 'searchabletext', '_sourceTable']
+    
+    products.forEach(product => {
+      Object.keys(product).forEach(key => {
+        const lowerKey = key.toLowerCase()
+        if (!seenLowerKeys.has(lowerKey) && !excludeFields.includes(lowerKey) && !isEmpty(product[key])) {
+          allKeys.add(key)
+          seenLowerKeys.add(lowerKey)
+        }
+      })
+    })
+    return Array.from(allKeys)
+  }
+
+  const isDifferent = (key: string, products: any[]) => {
+    const values = products.map(p => p[key])
+    return new Set(values).size > 1
+  }
+
+  const productAnchor = (sku: string) => `product-${encodeURIComponent(sku)}`
+
+  const escapeAttribute = (text: string) => text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+  // Rebuilds the summary markdown with numbered citation links to the product
+  // cards and a marker after lines holding values the server could not verify
+  const citedMarkdown = (): string => {
+    if (!groundedAnswer?.segments) return aiAnswer
+
+    const numbers = new Map<string, number>()
+
+    return groundedAnswer.segments.map((segment: any) => {
+      const links = segment.citations.map((citation: any) => {
+        const key = `${citation.sku}|${citation.field}`
+        if (!numbers.has(key)) numbers.set(key, numbers.size + 1)
+        const title = escapeAttribute(`${citation.sku} · ${formatFieldName(citation.field)}${citation.valid ? `: ${citation.value}` : ' (not found)'}`)
+        return citation.valid
+          ? `<a href="#${productAnchor(citation.sku)}" title="${title}" class="align-super text-xs font-semibold text-blue-600 hover:text-blue-800 no-underline">[${numbers.get(key)}]</a>`
+          : `<span title="${title}" class="align-super text-xs font-semibold text-red-600">[?]</span>`
+      })
+      const flag = segment.unsupportedValues.length > 0
+        ? ` <span title="Not found in the product data" class="text-xs font-semibold text-red-700 bg-red-50 rounded px-1">⚠ unverified: ${escapeAttribute(segment.unsupportedValues.join(', '))}</span>`
+        : ''
+      const suffix = links.join('') + flag
+      if (!suffix) return segment.text
+
+      // Table rows keep their closing pipe last
+      return /\|\s*$/.test(segment.text)
+        ? segment.text.replace(/\|\s*$/, `${suffix} |`)
+        : `${segment.text}${suffix}`
+    }).join('\n')
+  }
+
+  const renderVerificationNote = () => {
+    const verification = groundedAnswer?.verification
+    if (!verification || verification.grounded || summaryStreaming) return null
+
+    return (
+      <p className="mt-3 text-xs text-red-700">
+        ⚠ {verification.unsupportedValues.length} value{verification.unsupportedValues.length === 1 ? '' : 's'} and {verification.invalidCitations} citation{verification.invalidCitations === 1 ? '' : 's'} could not be verified against the product data. Check the product cards before relying on them.
+      </p>
+    )
+  }
+
+  const scrollToProducts = () => {
+    const element = document.getElementById('product-references')
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    }
+  }
+
+  // ✅ FIXED: Updated renderLookupSummary with specificAnswer check
+  const renderLookupSummary = () => {
+    // Don't show if no AI answer
+    if (!aiAnswer && !summaryStreaming) return null
+    
+    // Don't show for comparison, analytical, meta, or specific answers
+    if (comparisonData || analyticalData || metaQuestionData || specificAnswer) {
+      return null
+    }
+    
+    // Only show for general searches with multiple results
+    if (results.length === 0) return null
+
+    return (
+      <div className="bg-gradient-to-r from-blue-50 to-cyan-50 border-2 border-blue-200 rounded-xl p-6 shadow-lg mb-6">
+        <div className="flex items-start gap-3 mb-4">
+          <div className="flex-shrink-0">
+            <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-blue-900 mb-2">
+              🔍 Search Results
+            </h2>
+            <div 
+              className="prose prose-blue max-w-none text-blue-900"
+              dangerouslySetInnerHTML={{ 
+                __html: renderMarkdown(citedMarkdown(), 'blue') 
+              }}
+            />
+            {renderVerificationNote()}
+            {summaryStreaming && (
+              <p className="mt-2 text-sm text-blue-600 animate-pulse">Writing summary...</p>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+	const renderComparison = () => {
+	  if (!comparisonData) return null
+
+	  return (
+		<>
+		  {/* Comparison Summary and Analysis */}
+		  <div className="bg-gradient-to-r from-purple-50 to-pink-50 border-2 border-purple-200 rounded-xl p-6 shadow-lg mb-6">
+			<div className="flex items-start gap-3 mb-4">
+			  <div className="flex-shrink-0">
+				<svg className="w-8 h-8 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+				  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+				</svg>
+			  </div>
+			  <div className="flex-1">
+				<h2 className="text-2xl font-bold text-purple-900 mb-2">
+				  📊 Product Comparison
+				</h2>
+				
+				{/* Comparison Summary */}
+				{comparisonData.summary && (
+				  <div 
+					className="prose prose-purple max-w-none text-purple-900 mb-6"
+					dangerouslySetInnerHTML={{ 
+					  __html: renderMarkdown(comparisonData.summary, 'purple') 
+					}}
+				  />
+				)}
+
+				{/* Statements quoting values that are not in the compared products */}
+				{comparisonData.verification && !comparisonData.verification.verified && (
+				  <div className="mb-6 bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-sm text-red-800">
+					<p className="font-semibold">
+					  ⚠ {comparisonData.verification.unsupported.length} statement{comparisonData.verification.unsupported.length === 1 ? '' : 's'} {comparisonData.verification.mode === 'strip' ? 'removed' : 'marked'}: values not found in the product data
+					</p>
+					{comparisonData.verification.mode === 'strip' && (
+					  <ul className="mt-2 list-disc pl-5 space-y-1">
+						{comparisonData.verification.unsupported.map((statement: any, idx: number) => (
+						  <li key={idx} className="line-through">{statement.text.replace(/[*#]/g, '').replace(/^\s*-\s*/, '')}</li>
+						))}
+					  </ul>
+					)}
+				  </div>
+				)}
+
+				{/* Comparison Matrix: aligned attributes in one unit per row, best values highlighted */}
+				{comparisonData.matrix && comparisonData.matrix.rows.length > 0 && (() => {
+				  const matrix = comparisonData.matrix
+				  const rows = matrix.rows.filter((row: any) => !matrixDifferencesOnly || row.group === 'identity' || row.differs)
+
+				  return (
+					<div>
+					  <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+						<label className="flex items-center gap-2 text-sm text-purple-900 cursor-pointer">
+						  <input
+							type="checkbox"
+							checked={matrixDifferencesOnly}
+							onChange={(e) => setMatrixDifferencesOnly(e.target.checked)}
+							className="rounded border-purple-300 text-purple-600"
+						  />
+						  Only show differences
+						</label>
+						{renderExportButtons('comparison', 'purple')}
+					  </div>
+					  <div className="overflow-x-auto">
+						<table className="min-w-full bg-white rounded-lg overflow-hidden shadow-md">
+						  <thead className="bg-purple-600 text-white">
+							<tr>
+							  <th className="px-4 py-3 text-left font-semibold">Feature</th>
+							  {matrix.products.map((product: any, idx: number) => (
+								<th key={idx} className="px-4 py-3 text-left font-semibold">
+								  {product.name || product.sku}
+								</th>
+							  ))}
+							</tr>
+						  </thead>
+						  <tbody className="divide-y divide-gray-200">
+							{rows.map((row: any) => (
+							  <tr key={`${row.group}-${row.key}`} className="hover:bg-purple-50">
+								<td className="px-4 py-3 font-semibold text-purple-900 align-top">
+								  {row.label}
+								  {row.unit && <span className="block text-xs font-normal text-purple-600">{row.unit}</span>}
+								  {row.direction !== 'none' && (
+									<span className="block text-xs font-normal text-gray-500">{row.direction} is better</span>
+								  )}
+								</td>
+								{row.cells.map((cell: any, idx: number) => (
+								  <td
+									key={idx}
+									title={cell.raw && cell.raw !== cell.display ? `Listed as: ${cell.raw}` : undefined}
+									className={`px-4 py-3 text-sm align-top ${cell.winner ? 'bg-green-50 text-green-800 font-semibold' : 'text-gray-700'}`}
+								  >
+									{cell.display || 'N/A'}
+									{cell.winner && <span className="ml-1">✓</span>}
+								  </td>
+								))}
+							  </tr>
+							))}
+							{rows.every((row: any) => row.group === 'identity') && (
+							  <tr>
+								<td colSpan={matrix.products.length + 1} className="px-4 py-6 text-center text-gray-500 italic">
+								  No specification differences found in compared fields.
+								</td>
+							  </tr>
+							)}
+						  </tbody>
+						</table>
+					  </div>
+					</div>
+				  )
+				})()}
+
+				{/* Key Differences */}
+				{comparisonData.keyDifferences && comparisonData.keyDifferences.length > 0 && (
+				  <div className="mt-6 bg-purple-100 rounded-lg p-4">
+					<h3 className="text-lg font-bold text-purple-900 mb-2">🔑 Key Differences</h3>
+					<ul className="list-disc list-inside space-y-1 text-purple-900">
+					  {comparisonData.keyDifferences.map((diff: string, idx: number) => (
+						<li key={idx}>{diff}</li>
+					  ))}
+					</ul>
+				  </div>
+				)}
+
+				{/* Recommendations */}
+				{comparisonData.recommendation && (
+				  <div className="mt-4 bg-purple-100 rounded-lg p-4">
+					<h3 className="text-lg font-bold text-purple-900 mb-2">💡 Recommendation</h3>
+					<p className="text-purple-900">{comparisonData.recommendation}</p>
+				  </div>
+				)}
+			  </div>
+			</div>
+		  </div>
+
+			{/* ✅ NEW: Side-by-Side Product Table (Up to 4 products) */}
+			{comparisonData.products && comparisonData.products.length > 0 && (
+			  <div id="product-references" className="bg-white rounded-lg shadow-sm p-4 sm:p-6 mb-6">
+				<div className="flex items-center justify-between mb-6">
+				  <h2 className="text-2xl font-bold" style={{ color: '#0078a9' }}>
+					📦 Product Details
+				  </h2>
+				  <div className="flex flex-wrap items-center gap-3">
+					{renderExportButtons('comparison', 'purple')}
+					<span className="px-4 py-2 bg-purple-100 text-purple-800 rounded-full text-sm font-semibold">
+					  Comparing {comparisonData.products.length} Products
+					</span>
+				  </div>
+				</div>
+
+				{/* Product Details Table */}
+				<div className="overflow-x-auto">
+				  <table className="min-w-full bg-white border-2 border-purple-300 rounded-lg overflow-hidden shadow-lg">
+					{/* Table Header - Product Names */}
+					<thead className="bg-gradient-to-r from-purple-600 to-pink-600">
+					  <tr>
+						<th className="px-4 py-4 text-left font-bold text-white border-r-2 border-purple-400 sticky left-0 bg-purple-600 z-10" style={{ minWidth: '200px' }}>
+						  Specification
+						</th>
+						{comparisonData.products.slice(0, 4).map((product: any, idx: number) => (
+						  <th key={idx} className="px-4 py-4 text-left font-bold text-white border-r-2 last:border-r-0" style={{ minWidth: '250px' }}>
+							<div className="flex flex-col gap-2">
+							  <span className="text-xs uppercase tracking-wide opacity-90">Product {idx + 1}</span>
+							  <span className="text-base font-bold">{product.Product_Name || product.sku || 'Unknown'}</span>
+							  <span className="text-xs bg-purple-500 px-2 py-1 rounded inline-block w-fit">
+								{product.Product_Type || 'N/A'}
+							  </span>
+							</div>
+						  </th>
+						))}
+					  </tr>
+					</thead>
+
+					<tbody className="divide-y divide-purple-200">
+					  {/* SKU Row */}
+					  <tr className="hover:bg-purple-50 transition-colors">
+						<td className="px-4 py-3 font-bold text-purple-900 bg-purple-50 border-r-2 border-purple-200 sticky left-0 z-10">
+						  SKU
+						</td>
+						{comparisonData.products.slice(0, 4).map((product: any, idx: number) => (
+						  <td key={idx} className="px-4 py-3 text-gray-800 border-r-2 border-purple-100 last:border-r-0">
+							<span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+							  {product.sku || 'N/A'}
+							</span>
+						  </td>
+						))}
+					  </tr>
+
+					  {/* Family Row */}
+					  <tr className="hover:bg-purple-50 transition-colors">
+						<td className="px-4 py-3 font-bold text-purple-900 bg-purple-50 border-r-2 border-purple-200 sticky left-0 z-10">
+						  Family
+						</td>
+						{comparisonData.products.slice(0, 4).map((product: any, idx: number) => (
+						  <td key={idx} className="px-4 py-3 text-gray-800 border-r-2 border-purple-100 last:border-r-0">
+							{product.family || 'N/A'}
+						  </td>
+						))}
+					  </tr>
+
+					  {/* Product Description Row */}
+					  <tr className="hover:bg-purple-50 transition-colors">
+						<td className="px-4 py-3 font-bold text-purple-900 bg-purple-50 border-r-2 border-purple-200 sticky left-0 z-10">
+						  Description
+						</td>
+						{comparisonData.products.slice(0, 4).map((product: any, idx: number) => (
+						  <td key={idx} className="px-4 py-3 text-gray-700 text-sm border-r-2 border-purple-100 last:border-r-0">
+							<div className="max-h-24 overflow-y-auto">
+							  {product.Product_Description || 'N/A'}
+							</div>
+						  </td>
+						))}
+					  </tr>
+
+					  {/* Dynamic Rows - All Other Specifications */}
+					  {(() => {
+						// Get all unique attribute keys from all products
+						const allKeys = new Set<string>()
+						comparisonData.products.slice(0, 4).forEach((product: any) => {
+						  Object.keys(product).forEach(key => {
+							// Exclude already shown fields and system fields
+							if (!['Product_Name', 'sku', 'family', 'Product_Type', 'Product_Description', 
+								  'embedding', 'created_at', 'updated_at', '_relevanceScore', '_sourceTable',
+								  'similarity', 'searchable_text'].includes(key)) {
+							  allKeys.add(key)
+							}
+						  })
+						})
+
+						// Convert to array and sort
+						const sortedKeys = Array.from(allKeys).sort()
+
+						return sortedKeys.map((key, rowIdx) => (
+						  <tr key={rowIdx} className="hover:bg-purple-50 transition-colors">
+							<td className="px-4 py-3 font-bold text-purple-900 bg-purple-50 border-r-2 border-purple-200 sticky left-0 z-10">
+							  {formatFieldName(key)}
+							</td>
+							{comparisonData.products.slice(0, 4).map((product: any, idx: number) => {
+							  const value = product[key]
+							  const isDifferent = comparisonData.products.slice(0, 4).some((p: any) => p[key] !== value)
+							  
+							  return (
+								<td 
+								  key={idx} 
+								  className={`px-4 py-3 text-sm border-r-2 border-purple-100 last:border-r-0 ${
+									isDifferent ? 'bg-yellow-50 font-semibold text-gray-900' : 'text-gray-700'
+								  }`}
+								>
+								  <div className="max-h-20 overflow-y-auto">
+									{value ? (
+									  <span dangerouslySetInnerHTML={{ __html: formatValue(key, value) }} />
+									) : (
+									  <span className="text-gray-400 italic">N/A</span>
+									)}
+								  </div>
+								</td>
+							  )
+							})}
+						  </tr>
+						))
+					  })()}
+					</tbody>
+				  </table>
+				</div>
+
+				{/* Legend */}
+				<div className="mt-4 flex items-center gap-4 text-sm text-gray-600">
+				  <div className="flex items-center gap-2">
+					<div className="w-4 h-4 bg-yellow-50 border border-yellow-200 rounded"></div>
+					<span>Highlighted = Different values across products</span>
+				  </div>
+				  <div className="flex items-center gap-2">
+					<div className="w-4 h-4 bg-white border border-gray-200 rounded"></div>
+					<span>Same value across all products</span>
+				  </div>
+				</div>
+
+				{/* Show warning if more than 4 products */}
+				{comparisonData.products.length > 4 && (
+				  <div className="mt-4 bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded">
+					<div className="flex items-start">
+					  <svg className="w-5 h-5 text-yellow-600 mr-2 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
+						<path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+					  </svg>
+					  <div>
+						<h3 className="text-sm font-semibold text-yellow-800">
+						  Showing first 4 of {comparisonData.products.length} products
+						</h3>
+						<p className="text-sm text-yellow-700 mt-1">
+						  The table displays up to 4 products side-by-side. Additional products are not shown in the comparison table.
+						</p>
+					  </div>
+					</div>
+				  </div>
+				)}
+			  </div>
+			)}
+		</>
+	  )
+	}
+
+  const applySuggestion = (value: string) => {
+    setQuery(value)
+    handleSearch(value)
+  }
+
+  // Earlier questions of the conversation, oldest first, with a short answer preview
+  const renderThread = () => {
+    if (thread.length === 0 && !currentTurn?.resolvedQuery) return null
+
+    return (
+      <div className="mb-6 bg-white rounded-lg border border-gray-200 shadow-sm p-4 sm:p-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-700">Conversation</h3>
+          <button
+            type="button"
+            onClick={startNewConversation}
+            className="text-xs font-medium text-blue-700 hover:text-blue-900 underline"
+          >
+            New conversation
+          </button>
+        </div>
+        <ol className="space-y-3">
+          {thread.map((turn, i) => (
+            <li key={i} className="border-l-2 border-gray-200 pl-3">
+              <p className="text-sm font-medium text-gray-900">{turn.query}</p>
+              {turn.resolvedQuery && (
+                <p className="text-xs text-gray-500">Interpreted as: {turn.resolvedQuery}</p>
+              )}
+              <p className="text-xs text-gray-600 mt-1 line-clamp-2">
+                {turn.answer ? turn.answer.replace(/[#*|]/g, '').slice(0, 240) : `${turn.resultCount} products`}
+              </p>
+            </li>
+          ))}
+          {currentTurn && (
+            <li className="border-l-2 pl-3" style={{ borderColor: '#0078a9' }}>
+              <p className="text-sm font-medium text-gray-900">{currentTurn.query}</p>
+              {currentTurn.resolvedQuery && (
+                <p className="text-xs text-gray-500">Interpreted as: {currentTurn.resolvedQuery}</p>
+              )}
+            </li>
+          )}
+        </ol>
+      </div>
+    )
+  }
+
+  const renderCompareBar = () => {
+    if (compareSelection.length === 0) return null
+
+    return (
+      <div className="sticky top-2 z-10 mb-6 flex flex-wrap items-center gap-3 bg-white border-2 border-purple-200 rounded-lg shadow-md px-4 py-3 text-sm">
+        <span className="font-semibold text-purple-900">
+          {compareSelection.length} of {MAX_COMPARED} selected for comparison
+        </span>
+        <span className="text-gray-600 truncate flex-1">{compareSelection.join(', ')}</span>
+        <button
+          type="button"
+          onClick={() => runComparison(compareSelection)}
+          disabled={compareSelection.length < MIN_COMPARED || loading}
+          className="px-4 py-2 rounded-lg font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Compare
+        </button>
+        <button
+          type="button"
+          onClick={() => setCompareSelection([])}
+          className="text-purple-700 hover:text-purple-900 underline"
+        >
+          Clear
+        </button>
+      </div>
+    )
+  }
+
+  // Facet values of the result set that would narrow it, as clickable chips
+  const renderResultFacets = () => {
+    const refinable = resultFacets
+      .map(facet => ({ ...facet, values: facet.values.filter((value: any) => !value.selected && value.count < results.length) }))
+      .filter(facet => facet.values.length > 0)
+    if (refinable.length === 0) return null
+
+    return (
+      <div className="mb-4 sm:mb-6 p-3 sm:p-4 bg-blue-50 border border-blue-100 rounded-lg">
+        <p className="text-xs sm:text-sm font-semibold text-blue-900 mb-2">Refine results</p>
+        <div className="space-y-2">
+          {refinable.map(facet => (
+            <div key={facet.field} className="flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+              <span className="text-gray-600 w-24 flex-shrink-0">{facet.label}</span>
+              {facet.values.slice(0, 8).map((value: any) => (
+                <button
+                  key={value.value}
+                  type="button"
+                  onClick={() => refineBy(facet.field, value.value)}
+                  disabled={loading}
+                  className="px-2 py-0.5 bg-white border border-blue-200 rounded-full text-blue-800 hover:bg-blue-100 disabled:opacity-50"
+                >
+                  {value.label} <span className="text-blue-500">({value.count})</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  const renderComparisonConfirmation = () => {
+    if (!pendingComparison) return null
+
+    const chosenCount = pendingComparison.notFound.filter((code: string) => substituteChoices[code]).length
+    const total = pendingComparison.found.length + chosenCount
+
+    return (
+      <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-4 text-sm text-yellow-900">
+        <p className="font-semibold mb-3">{pendingComparison.error}</p>
+        <div className="space-y-3">
+          {pendingComparison.notFound.map((code: string) => {
+            const candidates = pendingComparison.substitutes[code] || []
+            return (
+              <div key={code}>
+                <span className="font-medium">{code}</span>
+                {candidates.length === 0 ? (
+                  <span className="ml-2 text-yellow-800">no similar products found</span>
+                ) : (
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {candidates.map((candidate: any) => {
+                      const chosen = substituteChoices[code] === candidate.sku
+                      return (
+                        <button
+                          key={candidate.sku}
+                          type="button"
+                          onClick={() => setSubstituteChoices(previous => {
+                            const next = { ...previous }
+                            if (chosen) delete next[code]
+                            else next[code] = candidate.sku
+                            return next
+                          })}
+                          className={`px-3 py-1 rounded-full border text-xs font-medium ${chosen ? 'bg-purple-600 border-purple-600 text-white' : 'bg-white border-yellow-300 text-yellow-900 hover:bg-yellow-100'}`}
+                          title={candidate.name}
+                        >
+                          Use {candidate.sku}{candidate.family ? ` (${candidate.family})` : ''}
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <div className="mt-4 flex items-center gap-3">
+          <button
+            type="button"
+            onClick={confirmSubstitutes}
+            disabled={total < MIN_COMPARED}
+            className="px-4 py-2 rounded-lg font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {chosenCount > 0 ? `Compare with ${chosenCount} substitute${chosenCount === 1 ? '' : 's'}` : 'Compare the products that were found'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setPendingComparison(null)}
+            className="text-yellow-800 hover:text-yellow-900 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const renderDidYouMean = () => {
+    if (didYouMean.length === 0) return null
+
+    return (
+      <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-3 text-sm text-yellow-900">
+        <span className="font-semibold mr-2">Did you mean:</span>
+        {didYouMean.map((suggestion, i) => (
+          <span key={`${suggestion.field}-${suggestion.value}`}>
+            {i > 0 && <span className="mr-1">,</span>}
+            <button
+              type="button"
+              onClick={() => applySuggestion(suggestion.value)}
+              className="font-medium text-blue-700 hover:text-blue-900 underline"
+              title={`${suggestion.field} · ${Math.round(suggestion.confidence * 100)}% similar`}
+            >
+              {suggestion.value}
+            </button>
+          </span>
+        ))}
+        <span>?</span>
+      </div>
+    )
+  }
+
+  // 🎯 NEW: Render AI Summary (Primary Display)
+  const renderAISummary = () => {
+    if (!aiAnswer || comparisonData || analyticalData || metaQuestionData) return null
+
+    return (
+      <div className="mb-8 bg-gradient-to-br from-indigo-50 to-purple-50 rounded-xl shadow-lg overflow-hidden border border-indigo-100">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <span className="text-3xl">✨</span>
+              <div>
+                <h3 className="text-xl font-bold text-white">
+                  AI Summary
+                </h3>
+                <p className="text-indigo-100 text-sm">
+                  {searchIntent === 'comparison' && 'Product Comparison'}
+                  {searchIntent === 'lookup' && 'Product Information'}
+                  {searchIntent === 'list' && 'Product Catalog'}
+                  {searchIntent === 'count' && 'Product Count'}
+                  {searchIntent === 'analytical' && 'Expert Recommendation'}
+                  {searchIntent === 'specific' && 'Product Details'}
+                  {!searchIntent && 'Search Results'}
+                </p>
+              </div>
+            </div>
+            
+            {/* Search Stats */}
+            <div className="text-right">
+              <div className="text-white text-sm font-semibold">
+                {results.length} Products Found
+              </div>
+              {searchTime && (
+                <div className="text-indigo-200 text-xs">
+                  {searchTime.toFixed(1)}s response time
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* AI Answer Content */}
+        <div className="px-6 py-6">
+          <div 
+            className="prose prose-indigo max-w-none"
+            dangerouslySetInnerHTML={{ 
+              __html: renderMarkdown(aiAnswer, 'indigo') 
+            }}
+          />
+        </div>
+
+        {/* Footer */}
+        <div className="bg-indigo-50 px-6 py-3 border-t border-indigo-100">
+          <div className="flex items-center justify-between text-sm text-indigo-700">
+            <div className="flex items-center space-x-2">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+              </svg>
+              <span>AI-generated summary based on {results.length} matching products</span>
+            </div>
+            <button
+              onClick={scrollToProducts}
+              className="text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              View Products →
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const renderAnalyticalSummary = () => {
+    if (!analyticalData) return null
+
+    return (
+      <div className="mb-8">
+        <div className="bg-gradient-to-r from-green-50 to-emerald-50 border-l-4 border-green-500 rounded-lg overflow-hidden shadow-lg">
+          <div className="p-4 sm:p-6">
+            <div className="flex items-start mb-4">
+              <div className="flex-shrink-0">
+                <svg className="h-6 w-6 sm:h-8 sm:w-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+                </svg>
+              </div>
+              <div className="ml-3 sm:ml-4 flex-1">
+                <h2 className="text-xl sm:text-2xl font-bold text-green-900 mb-2">AI Summary</h2>
+                <p className="text-green-700 text-xs sm:text-sm">
+                  Based on analysis of {analyticalData.count} coating product(s)
+                  {searchTime && <span className="ml-2">• Completed in {searchTime}s</span>}
+                </p>
+              </div>
+            </div>
+            
+            <div className="prose prose-green max-w-none text-sm sm:text-base">
+              <div 
+                className="text-gray-800 leading-relaxed"
+                dangerouslySetInnerHTML={{ __html: renderMarkdown(analyticalData.summary, 'green') }}
+              />
+            </div>
+          </div>
+        </div>
+
+        {analyticalData.count > 0 && (
+          <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-3 sm:p-4">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+              <div className="flex items-center">
+                <svg className="h-5 w-5 text-blue-600 mr-2 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span className="text-xs sm:text-sm font-medium text-blue-900">
+                  {analyticalData.count} coating product reference{analyticalData.count !== 1 ? 's' : ''} available below
+                </span>
+              </div>
+              <button
+                onClick={scrollToProducts}
+                className="relative z-10 text-xs sm:text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-3 py-1 transition-all cursor-pointer whitespace-nowrap"
+                type="button"
+              >
+                View Details →
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const renderMetaSummary = () => {
+    if (!metaQuestionData) return null
+
+    return (
+      <div className="mb-8">
+        <div className="bg-gradient-to-r from-indigo-50 to-purple-50 border-l-4 border-indigo-500 rounded-lg overflow-hidden shadow-lg">
+          <div className="p-4 sm:p-6">
+            <div className="flex items-start mb-4">
+              <div className="flex-shrink-0">
+                <svg className="h-6 w-6 sm:h-8 sm:w-8 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                </svg>
+              </div>
+              <div className="ml-3 sm:ml-4 flex-1">
+                <h2 className="text-xl sm:text-2xl font-bold text-indigo-900 mb-2">Database Information</h2>
+                <p className="text-indigo-700 text-xs sm:text-sm">
+                  {metaQuestionData.metaType === 'count' && 'Product count summary'}
+                  {metaQuestionData.metaType === 'list' && 'Available product categories'}
+                  {metaQuestionData.metaType === 'overview' && 'Complete database overview'}
+                  {searchTime && <span className="ml-2">• Retrieved in {searchTime}s</span>}
+                </p>
+              </div>
+            </div>
+            
+            <div className="prose prose-indigo max-w-none text-sm sm:text-base">
+              <div 
+                className="text-gray-800 leading-relaxed"
+                dangerouslySetInnerHTML={{ __html: renderMarkdown(metaQuestionData.summary, 'indigo') }}
+              />
+            </div>
+
+            {metaQuestionData.count !== undefined && (
+              <div className="mt-4 pt-4 border-t border-indigo-200">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs sm:text-sm font-medium text-indigo-700">Total Count:</span>
+                  <span className="bg-indigo-100 text-indigo-800 px-3 py-1 rounded-full font-semibold text-sm">
+                    {metaQuestionData.count.toLocaleString()}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {results.length > 0 && (
+          <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-3 sm:p-4">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+              <div className="flex items-center">
+                <svg className="h-5 w-5 text-blue-600 mr-2 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span className="text-xs sm:text-sm font-medium text-blue-900">
+                  {results.length} coating product reference{results.length !== 1 ? 's' : ''} available below
+                </span>
+              </div>
+              <button
+                onClick={scrollToProducts}
+                className="relative z-10 text-xs sm:text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-3 py-1 transition-all cursor-pointer whitespace-nowrap"
+                type="button"
+              >
+                View Details →
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <main className="min-h-screen p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto bg-gray-50">
+      <div className="bg-white rounded-lg shadow-sm p-4 sm:p-6 lg:p-8 mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold mb-2 text-center" style={{ color: '#0078a9' }}>
+          Coatings Smart Search
+        </h1>
+        <p className="text-center text-gray-600 mb-6 sm:mb-8 text-sm sm:text-base">
+          Search coating products using natural language • Powered by AI
+        </p>
+
+        <form onSubmit={(e) => { e.preventDefault(); handleSearch(); }}>
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-4 mb-4">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Ask anything... (e.g., 'Best coating for corrosion protection')"
+              className="flex-1 px-3 sm:px-4 py-2 sm:py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0078a9] focus:border-transparent text-sm sm:text-base"
+            />
+            <div className="flex gap-2 sm:gap-4">
+              <button
+                type="button"
+                onClick={() => setShowFilters(!showFilters)}
+                className="flex-1 sm:flex-none px-4 sm:px-6 py-2 sm:py-3 border-2 rounded-lg font-medium transition-colors text-sm sm:text-base"
+                style={{ 
+                  borderColor: '#0078a9',
+                  color: showFilters ? '#fff' : '#0078a9',
+                  backgroundColor: showFilters ? '#0078a9' : 'transparent'
+                }}
+              >
+                <svg className="w-4 h-4 sm:w-5 sm:h-5 inline-block mr-1 sm:mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+                </svg>
+                <span className="hidden sm:inline">Filters</span>
+                <span className="sm:hidden">Filter</span>
+                {hasActiveFilters && (
+                  <span className="ml-1 sm:ml-2 inline-flex items-center justify-center w-4 h-4 sm:w-5 sm:h-5 text-xs font-bold text-white bg-red-500 rounded-full">
+                    {activeFilterCount}
+                  </span>
+                )}
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !query.trim()}
+                className="flex-1 sm:flex-none px-6 sm:px-8 py-2 sm:py-3 text-white rounded-lg hover:opacity-90 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors text-sm sm:text-base"
+                style={{ backgroundColor: '#0078a9' }}
+              >
+                {loading ? 'Searching...' : 'Search'}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2 mb-4 text-xs sm:text-sm">
+            {permalink && (
+              <button
+                type="button"
+                onClick={sharePermalink}
+                className="mr-auto px-3 py-1 border border-gray-300 rounded-full text-gray-700 hover:bg-gray-100 font-medium"
+              >
+                🔗 {shareStatus || 'Copy link'}
+              </button>
+            )}
+            <span className="text-gray-600">Units:</span>
+            {([
+              { system: null, label: 'As listed' },
+              { system: 'imperial', label: 'Imperial (°F, lb/gal)' },
+              { system: 'metric', label: 'Metric (°C, g/L)' }
+            ] as Array<{ system: UnitSystem | null; label: string }>).map(({ system, label }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setUnits(system)}
+                className="px-3 py-1 border rounded-full font-medium transition-colors"
+                style={{
+                  borderColor: '#0078a9',
+                  color: units === system ? '#fff' : '#0078a9',
+                  backgroundColor: units === system ? '#0078a9' : 'transparent'
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {showFilters && (
+            <div className="border border-gray-200 rounded-lg p-4 sm:p-6 bg-gray-50">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-4 gap-2">
+                <h3 className="text-base sm:text-lg font-semibold" style={{ color: '#0078a9' }}>
+                  Filter Options {loadingFilters && <span className="text-xs sm:text-sm font-normal text-gray-500">(Loading...)</span>}
+                </h3>
+                {hasActiveFilters && (
+                  <button
+                    type="button"
+                    onClick={clearFilters}
+                    className="text-xs sm:text-sm text-red-600 hover:text-red-800 font-medium"
+                  >
+                    Clear All Filters
+                  </button>
+                )}
+              </div>
+              
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                    Family ({facetOptions('family').length} options)
+                  </label>
+                  <select
+                    value={selectedFamily}
+                    onChange={(e) => selectCascadeFilter('family', e.target.value)}
+                    disabled={loadingFilters}
+                    className="w-full px-3 sm:px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0078a9] focus:border-transparent disabled:bg-gray-100 text-sm sm:text-base"
+                  >
+                    <option value="">All Families</option>
+                    {facetOptions('family').map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label} ({option.count})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                    Product Type ({facetOptions('productType').length} options)
+                  </label>
+                  <select
+                    value={selectedProductType}
+                    onChange={(e) => selectCascadeFilter('productType', e.target.value)}
+                    disabled={loadingFilters}
+                    className="w-full px-3 sm:px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0078a9] focus:border-transparent disabled:bg-gray-100 text-sm sm:text-base"
+                  >
+                    <option value="">All Types</option>
+                    {facetOptions('productType').map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label} ({option.count})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="sm:col-span-2 lg:col-span-1">
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                    Product Model ({facetOptions('productModel').length} options)
+                  </label>
+                  <select
+                    value={selectedProductModel}
+                    onChange={(e) => setSelectedProductModel(e.target.value)}
+                    disabled={loadingFilters}
+                    className="w-full px-3 sm:px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0078a9] focus:border-transparent disabled:bg-gray-100 text-sm sm:text-base"
+                  >
+                    <option value="">All Models</option>
+                    {facetOptions('productModel').map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label} ({option.count})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <h4 className="mt-6 mb-3 text-xs sm:text-sm font-semibold text-gray-700">Refine by specification</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                {['color', 'gloss', 'vocContent', 'potLife', 'cureTime', 'coverage'].map(field => {
+                  const facet = filterFacets.find(item => item.field === field)
+                  if (!facet) return null
+                  return (
+                    <div key={field}>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">{facet.label}</label>
+                      <select
+                        value={specFacets[field] || ''}
+                        onChange={(e) => setSpecFacet(field, e.target.value)}
+                        disabled={loadingFilters}
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0078a9] focus:border-transparent disabled:bg-gray-100 text-xs sm:text-sm"
+                      >
+                        <option value="">Any</option>
+                        {facet.values.map((option: any) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label} ({option.count})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )
+                })}
+              </div>
+
+              {hasActiveFilters && (
+                <div className="mt-4 flex flex-wrap gap-2">
+                  <span className="text-xs sm:text-sm text-gray-600">Active filters:</span>
+                  {selectedFamily && (
+                    <span className="inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium bg-blue-100 text-blue-800">
+                      Family: {selectedFamily}
+                      <button
+                        type="button"
+                        onClick={() => setSelectedFamily('')}
+                        className="ml-1 sm:ml-2 text-blue-600 hover:text-blue-800"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  )}
+                  {selectedProductType && (
+                    <span className="inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium bg-green-100 text-green-800">
+                      Type: {selectedProductType}
+                      <button
+                        type="button"
+                        onClick={() => setSelectedProductType('')}
+                        className="ml-1 sm:ml-2 text-green-600 hover:text-green-800"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  )}
+                  {selectedProductModel && (
+                    <span className="inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium bg-purple-100 text-purple-800">
+                      Model: {selectedProductModel}
+                      <button
+                        type="button"
+                        onClick={() => setSelectedProductModel('')}
+                        className="ml-1 sm:ml-2 text-purple-600 hover:text-purple-800"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  )}
+                  {Object.entries(specFacets).map(([field, value]) => {
+                    const facet = filterFacets.find(item => item.field === field)
+                    const option = facet?.values.find((item: any) => item.value === value)
+                    return (
+                      <span key={field} className="inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium bg-amber-100 text-amber-800">
+                        {facet?.label || field}: {option?.label || value}
+                        <button
+                          type="button"
+                          onClick={() => setSpecFacet(field, '')}
+                          className="ml-1 sm:ml-2 text-amber-600 hover:text-amber-800"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </form>
+      </div>
+
+      {renderThread()}
+
+      {loading && (
+        <div className="text-center py-8 sm:py-12 bg-white rounded-lg border border-gray-200 shadow-sm">
+          <div className="inline-block animate-spin rounded-full h-10 w-10 sm:h-12 sm:w-12 border-b-2 border-[#0078a9] mb-4"></div>
+          <p className="text-base sm:text-lg font-medium text-gray-700">Searching coating products...</p>
+          {searchProgress && (
+            <p className="mt-2 text-xs sm:text-sm text-gray-600">{searchProgress}</p>
+          )}
+          <p className="mt-2 text-xs text-gray-400">Optimized search • Typically completes in 15-30 seconds</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 sm:p-6 rounded-lg shadow-sm">
+          <div className="flex items-start">
+            <svg className="h-5 w-5 sm:h-6 sm:w-6 text-red-500 mr-3 flex-shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <div>
+              <h3 className="text-base sm:text-lg font-semibold text-red-800">Search Error</h3>
+              <p className="text-red-700 mt-1 text-sm sm:text-base">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!loading && !error && hasSearched && (
+        <>
+          {renderDidYouMean()}
+          {renderComparisonConfirmation()}
+          {renderCompareBar()}
+
+          {/* ✅ RENDER ORDER: Show only ONE summary type */}
+          {/* 1. Meta Questions (highest priority) */}
+          {renderMetaSummary()}
+          
+          {/* 2. Analytical Summary */}
+          {renderAnalyticalSummary()}
+          
+          {/* 3. Comparison */}
+          {renderComparison()}
+          
+          {/* 4. Specific Answer (via AI Summary) */}
+          {specificAnswer && renderAISummary()}
+          
+          {/* 5. General Lookup (only if none of the above) */}
+          {renderLookupSummary()}
+
+          {/* 6. Product Grid (always show if results exist and not comparison) */}
+          {results.length > 0 && !comparisonData && (
+            <div id="product-references" className="bg-white rounded-lg shadow-sm p-4 sm:p-6">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-4 sm:mb-6 gap-3">
+                <h2 className="text-xl sm:text-2xl font-bold" style={{ color: '#0078a9' }}>
+                  {analyticalData || metaQuestionData || specificAnswer ? 'Product References' : 'Search Results'}
+                </h2>
+                <div className="flex flex-wrap items-center gap-3 sm:gap-4">
+                  {renderExportButtons('results', 'blue')}
+                  {searchTime && (
+                    <span className="text-xs sm:text-sm text-gray-500">
+                      ⚡ {searchTime.toFixed(1)}s
+                    </span>
+                  )}
+                  <span className="px-3 sm:px-4 py-1 sm:py-2 bg-blue-100 text-blue-800 rounded-full text-xs sm:text-sm font-semibold">
+                    {results.length} {results.length === 1 ? 'Product' : 'Products'}
+                  </span>
+                </div>
+              </div>
+
+              {renderResultFacets()}
+
+              <div className="space-y-4 sm:space-y-6">
+                {results.map((product, index) => {
+                  const { header, other } = groupAttributes(product)
+                  
+                  return (
+                    <div 
+                      key={index} 
+                      id={product.sku ? productAnchor(product.sku) : undefined}
+                      className="border border-gray-200 rounded-lg p-4 sm:p-6 hover:shadow-md transition-shadow bg-gray-50 scroll-mt-4 target:ring-2 target:ring-blue-400"
+                    >
+                      <div className="mb-4 pb-4 border-b border-gray-300">
+                        {product.sku && (
+                          <label className="float-right ml-3 inline-flex items-center gap-2 text-xs sm:text-sm text-purple-800 cursor-pointer select-none">
+                            <input
+                              type="checkbox"
+                              checked={compareSelection.includes(product.sku)}
+                              onChange={() => toggleCompare(product.sku)}
+                              disabled={!compareSelection.includes(product.sku) && compareSelection.length >= MAX_COMPARED}
+                              className="h-4 w-4 accent-purple-600"
+                            />
+                            Compare
+                          </label>
+                        )}
+                        {Object.entries(header).map(([key, value]) => (
+                          <div key={key} className="mb-2">
+                            <span className="font-bold text-base sm:text-lg" style={{ color: '#0078a9' }}>
+                              {formatFieldName(key)}:
+                            </span>
+                            <span 
+                              className="ml-2 text-gray-800 text-base sm:text-lg break-words"
+                              dangerouslySetInnerHTML={{ __html: formatValue(key, value) }}
+                            />
+                          </div>
+                        ))}
+                        {product._sourceTable && (
+                          <div className="mt-2">
+                            <span className="inline-block px-2 sm:px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-xs font-semibold">
+                              Found in: {product._sourceTable}
+                            </span>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4">
+                        {Object.entries(other).map(([key, value]) => (
+                          <div key={key} className="flex flex-col">
+                            <span className="text-xs sm:text-sm font-semibold text-gray-600 mb-1">
+                              {formatFieldName(key)}
+                            </span>
+                            <span 
+                              className="text-xs sm:text-sm text-gray-800 bg-white p-2 rounded border border-gray-200 whitespace-pre-wrap break-words"
+                              dangerouslySetInnerHTML={{ __html: formatValue(key, value) }}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {!loading && !error && hasSearched && results.length === 0 && !analyticalData && !metaQuestionData && !aiAnswer && !pendingComparison && (
+            <div className="text-center py-8 sm:py-12 bg-white rounded-lg border border-gray-200 shadow-sm">
+              <svg className="mx-auto h-12 w-12 sm:h-16 sm:w-16 text-gray-400 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <h3 className="text-lg sm:text-xl font-semibold text-gray-700 mb-2">No Products Found</h3>
+              <p className="text-gray-600 mb-4 text-sm sm:text-base px-4">
+                We couldn't find any coating products matching your search.
+              </p>
+              <p className="text-xs sm:text-sm text-gray-500 px-4">
+                Try adjusting your search terms or filters, or browse all products.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,47 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+// The key comes as `Authorization: Bearer <key>` or `x-api-key: <key>`
+function requestKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization')
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+  return (bearer || request.headers.get('x-api-key') || '').trim() || null
+}
+
+function sameKey(given: string, expected: string): boolean {
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// Null when the request may use the admin API, otherwise the response to send.
+// Without ADMIN_API_KEY the admin API is switched off rather than left open.
+export function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const expected = process.env.ADMIN_API_KEY?.trim()
+
+  if (!expected) {
+    return NextResponse.json({
+      success: false,
+      error: 'Admin API is disabled: set ADMIN_API_KEY to enable it'
+    }, { status: 503 })
+  }
+
+  const given = requestKey(request)
+
+  if (!given) {
+    return NextResponse.json({
+      success: false,
+      error: 'Missing API key'
+    }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } })
+  }
+
+  if (!sameKey(given, expected)) {
+    console.log('🚫 Admin request with an invalid API key')
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid API key'
+    }, { status: 403 })
+  }
+
+  return null
+}
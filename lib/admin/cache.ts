@@ -0,0 +1,109 @@
+import {
+  SNAPSHOT_STORAGE_KEY,
+  SnapshotStorage,
+  filterOptionsCacheSize,
+  getCatalogSnapshotStore,
+  StoredValueMetadata,
+  getSnapshotStorage,
+  readStoredMetadata
+} from '@/lib/catalog'
+import { PRODUCT_CACHE_STORAGE_KEY, peekProductCache } from '@/lib/search'
+
+// ============================================================================
+// CACHE DIAGNOSTICS
+// ============================================================================
+
+export interface SnapshotDiagnostics {
+  version: number
+  hash: string
+  origin: 'catalog' | 'storage'
+  rows: number
+  watermark: string | null
+  loadedAt: string
+  refreshedAt: string
+  ageSeconds: number
+}
+
+export interface SearchCacheDiagnostics {
+  version: number
+  hash: string
+  // Built from an older snapshot; the next search rebuilds it
+  stale: boolean
+  families: number
+  productTypes: number
+  productModels: number
+  skus: number
+  qualificationSpecs: number
+  indexedTerms: number
+  lastUpdated: string
+  ageSeconds: number
+}
+
+export interface StorageDiagnostics {
+  kind: string
+  // Size and time of the last write; null when nothing is stored
+  snapshot: StoredValueMetadata | null
+  searchCache: StoredValueMetadata | null
+  // Why the storage couldn't be read, when it couldn't
+  error: string | null
+}
+
+export interface CacheDiagnostics {
+  snapshot: SnapshotDiagnostics | null
+  searchCache: SearchCacheDiagnostics | null
+  // Selections with memoised filter options for the current snapshot
+  filterOptions: { cachedSelections: number }
+  storage: StorageDiagnostics | null
+}
+
+const ageSeconds = (date: Date) => Math.round((Date.now() - date.getTime()) / 1000)
+
+// Reads the metadata written beside each value, not the values themselves
+async function storageDiagnostics(storage: SnapshotStorage): Promise<StorageDiagnostics> {
+  try {
+    return {
+      kind: storage.kind,
+      snapshot: await readStoredMetadata(storage, SNAPSHOT_STORAGE_KEY),
+      searchCache: await readStoredMetadata(storage, PRODUCT_CACHE_STORAGE_KEY),
+      error: null
+    }
+  } catch (error: any) {
+    console.error('❌ Error reading cache storage:', error)
+    return { kind: storage.kind, snapshot: null, searchCache: null, error: error.message }
+  }
+}
+
+// Reports what is loaded without loading anything
+export async function cacheDiagnostics(): Promise<CacheDiagnostics> {
+  const snapshot = getCatalogSnapshotStore().peek()
+  const cache = peekProductCache()
+  const storage = getSnapshotStorage()
+
+  return {
+    snapshot: snapshot && {
+      version: snapshot.version,
+      hash: snapshot.hash,
+      origin: snapshot.origin,
+      rows: snapshot.rows.length,
+      watermark: snapshot.watermark,
+      loadedAt: snapshot.loadedAt.toISOString(),
+      refreshedAt: snapshot.refreshedAt.toISOString(),
+      ageSeconds: ageSeconds(snapshot.refreshedAt)
+    },
+    searchCache: cache && {
+      version: cache.version,
+      hash: cache.hash,
+      stale: !snapshot || cache.version !== snapshot.version,
+      families: cache.families.length,
+      productTypes: cache.productTypes.length,
+      productModels: cache.productModels.length,
+      skus: cache.skus.length,
+      qualificationSpecs: cache.qualifications.size,
+      indexedTerms: cache.textIndex.documentFrequency.size,
+      lastUpdated: cache.lastUpdated.toISOString(),
+      ageSeconds: ageSeconds(cache.lastUpdated)
+    },
+    filterOptions: { cachedSelections: filterOptionsCacheSize() },
+    storage: storage && await storageDiagnostics(storage)
+  }
+}
@@ -0,0 +1,325 @@
+import { CoatingProduct, ProductRecord, toProductRecord } from '@/lib/catalog'
+import { stripHtml } from '@/lib/text'
+
+// ============================================================================
+// GROUNDED ANSWER TYPES
+// ============================================================================
+
+// A reference from the answer to the product field a value was taken from
+export interface Citation {
+  sku: string
+  // Column name as it appears in the prompt's product data ("Pot_Life")
+  field: string
+  // The cited field's value; absent when the SKU or field does not exist
+  value?: string
+  valid: boolean
+}
+
+// One line of the answer (paragraph, list item or table row)
+export interface AnswerSegment {
+  text: string
+  citations: Citation[]
+  // Numbers in the text found neither in the cited fields nor in the product
+  // (or spec field) the line is about
+  unsupportedValues: string[]
+}
+
+// Grounds an answer line by line as it is produced, so streamed text is
+// checked the same way as a complete answer
+export interface AnswerGrounder {
+  // Segments for the lines `delta` completes
+  push(delta: string): AnswerSegment[]
+  // The segment for the last, unterminated line
+  flush(): AnswerSegment[]
+  result(): GroundedAnswer
+}
+
+export interface AnswerVerification {
+  checkedValues: number
+  unsupportedValues: string[]
+  citations: number
+  invalidCitations: number
+  // True when every number is backed by the source data and every citation resolves
+  grounded: boolean
+}
+
+export interface GroundedAnswer {
+  text: string
+  segments: AnswerSegment[]
+  verification: AnswerVerification
+}
+
+// One row of the attribute table a comparison prompt was built from
+export interface ComparisonAttribute {
+  attribute: string
+  values: unknown[]
+  differs: boolean
+}
+
+// 'mark' keeps unsupported statements with a warning; 'strip' removes them
+export type VerificationMode = 'mark' | 'strip'
+
+export interface UnsupportedStatement {
+  text: string
+  values: string[]
+  // Attributes the statement names, whose values the numbers were checked against
+  attributes: string[]
+}
+
+export interface ComparisonVerification {
+  mode: VerificationMode
+  checkedStatements: number
+  checkedValues: number
+  unsupported: UnsupportedStatement[]
+  verified: boolean
+}
+
+// [[SKU|Field]], written by the model right after the value it supports
+const CITATION = /\s?\[\[([^\]|]+)\|([^\]]+)\]\]/g
+
+const NUMBER = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g
+
+// Rounding and unit conversion may move a quoted value by this share
+const NUMBER_TOLERANCE = 0.01
+
+export const CITATION_INSTRUCTIONS = `CITATIONS:
+- Immediately after every technical value (numbers, ratios, temperatures, colors, specifications) add a marker [[SKU|Field]] naming the product SKU and the exact field name from PRODUCT DATA the value came from, e.g. "Pot life is 4 hours [[CA8000/B900-1GL|Pot_Life]]"
+- Only state values that appear in PRODUCT DATA; if a value is not listed, say so instead of estimating it`
+
+// ============================================================================
+// CITATION MARKERS
+// ============================================================================
+
+export function stripCitations(text: string): string {
+  return text.replace(CITATION, '')
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+function normalizeField(field: string): string {
+  return field.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function parseNumbers(text: string): number[] {
+  return (text.match(NUMBER) || []).map(n => parseFloat(n.replace(/,/g, '')))
+}
+
+function isSupported(value: number, known: number[]): boolean {
+  return known.some(n => Math.abs(n - value) <= NUMBER_TOLERANCE * Math.max(Math.abs(n), 1))
+}
+
+function recordText(value: unknown): string {
+  return typeof value === 'string' ? stripHtml(value) : String(value ?? '')
+}
+
+function resolveCitation(records: Map<string, ProductRecord>, sku: string, field: string): Citation {
+  const record = records.get(sku.trim().toLowerCase())
+  const key = record && Object.keys(record).find(k => normalizeField(k) === normalizeField(field))
+  return key
+    ? { sku: record!.sku, field: key, value: recordText(record![key]), valid: true }
+    : { sku: sku.trim(), field: field.trim(), valid: false }
+}
+
+function parseVerificationMode(value: unknown): VerificationMode | null {
+  return value === 'mark' || value === 'strip' ? value : null
+}
+
+// Product identifiers carry digits ("02GN084", "CA8000/B900") that are not
+// values, so they are removed before numbers are checked
+function removeIdentifiers(text: string, identifiers: string[]): string {
+  let result = text.replace(/^\s*(?:#+\s*)?\d+\.\s+/, '').replace(/\bproduct\s+\d+\b/gi, ' ')
+  identifiers.forEach(identifier => {
+    result = result.split(identifier).join(' ')
+  })
+  return result
+}
+
+// Markup is removed line by line; indentation is kept for nested lists
+function cleanLine(line: string): string {
+  const text = stripHtml(line)
+  return text ? `${line.match(/^\s*/)![0]}${text}` : ''
+}
+
+// "**Pot Life:** 4 hours" names its attribute before the colon
+function lineLabel(line: string): string {
+  const text = line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '')
+  const label = text.includes(':') ? normalizeField(text.slice(0, text.indexOf(':'))) : ''
+  return label.length > 3 ? label : ''
+}
+
+function matchesLabel(name: string, label: string): boolean {
+  return name === label || name.includes(label) || label.includes(name)
+}
+
+function productIdentifiers(products: CoatingProduct[]): string[] {
+  return Array.from(new Set(
+    products.flatMap(product => [product.sku, product.family, product.productModel, product.name])
+      .filter((value): value is string => Boolean(value))
+  )).sort((a, b) => b.length - a.length)
+}
+
+// Resolves each line's citations against the products the prompt was built
+// from and checks its uncited numbers against the product the line is about:
+// one it names, or for list items and table rows the one named above them. A
+// line labelled with an attribute ("Pot Life: 4 hours") is checked against
+// that field only; a line about no product against every product. `context`
+// is other text the answer may legitimately quote (the question, applied
+// filters). Counts up to the number of products are never flagged.
+export function createAnswerGrounder(products: CoatingProduct[], context: string[] = []): AnswerGrounder {
+  const records = new Map<string, ProductRecord>()
+  const sources = products.map(product => {
+    const record = toProductRecord(product)
+    if (product.sku) records.set(product.sku.toLowerCase(), record)
+    return {
+      names: [product.sku, product.productModel, product.name, product.family]
+        .filter((value): value is string => Boolean(value) && value!.length >= 4)
+        .map(value => value.toLowerCase()),
+      fields: Object.entries(record).map(([key, value]) => ({
+        name: normalizeField(key),
+        numbers: parseNumbers(recordText(value))
+      }))
+    }
+  })
+
+  const contextNumbers = [
+    ...context.flatMap(parseNumbers),
+    ...Array.from({ length: products.length + 1 }, (_, i) => i)
+  ]
+  const identifiers = productIdentifiers(products)
+
+  const segments: AnswerSegment[] = []
+  let attached: typeof sources = []
+  let checkedValues = 0
+  let pending = ''
+
+  function groundLine(line: string): AnswerSegment {
+    const citations = Array.from(line.matchAll(CITATION)).map(match => resolveCitation(records, match[1], match[2]))
+    const clean = cleanLine(stripCitations(line))
+    const lower = clean.toLowerCase()
+
+    // Headings and paragraphs start a new subject; list items and table rows
+    // continue the one above them
+    const named = sources.filter(source => source.names.some(name => lower.includes(name)))
+    if (named.length > 0) attached = named
+    else if (clean.trim() && !/^\s*(?:[-*+]\s|\d+\.\s|\|)/.test(clean)) attached = []
+
+    const scope = attached.length > 0 ? attached : sources
+    const label = lineLabel(clean)
+    const labelled = label ? scope.flatMap(source => source.fields.filter(field => matchesLabel(field.name, label))) : []
+    const known = (labelled.length > 0 ? labelled : scope.flatMap(source => source.fields)).flatMap(field => field.numbers)
+
+    const cited = citations.filter(c => c.valid).flatMap(c => parseNumbers(c.value || ''))
+    const unsupportedValues = (removeIdentifiers(clean, identifiers).match(NUMBER) || []).filter(raw => {
+      checkedValues++
+      const value = parseFloat(raw.replace(/,/g, ''))
+      return !isSupported(value, cited) && !isSupported(value, known) && !isSupported(value, contextNumbers)
+    })
+
+    const segment = { text: clean, citations, unsupportedValues }
+    segments.push(segment)
+    return segment
+  }
+
+  return {
+    push(delta) {
+      const lines = (pending + delta).split('\n')
+      pending = lines.pop()!
+      return lines.map(groundLine)
+    },
+
+    flush() {
+      const line = pending
+      pending = ''
+      return [groundLine(line)]
+    },
+
+    result() {
+      const unsupportedValues = segments.flatMap(segment => segment.unsupportedValues)
+      const allCitations = segments.flatMap(segment => segment.citations)
+      const invalidCitations = allCitations.filter(citation => !citation.valid).length
+
+      return {
+        text: segments.map(segment => segment.text).join('\n'),
+        segments,
+        verification: {
+          checkedValues,
+          unsupportedValues,
+          citations: allCitations.length,
+          invalidCitations,
+          grounded: unsupportedValues.length === 0 && invalidCitations === 0
+        }
+      }
+    }
+  }
+}
+
+export function groundAnswer(text: string, products: CoatingProduct[], context: string[] = []): GroundedAnswer {
+  const grounder = createAnswerGrounder(products, context)
+  grounder.push(text)
+  grounder.flush()
+  return grounder.result()
+}
+
+// Cross-checks every number in a comparison analysis against the attribute
+// table it was generated from. A line labelled with an attribute ("Pot Life:
+// 6 hours") must quote values of that attribute; any other line may quote
+// any value.
+// COMPARISON_VERIFICATION selects 'mark' (default) or 'strip'.
+export function verifyComparison(
+  text: string,
+  products: CoatingProduct[],
+  attributes: ComparisonAttribute[],
+  options: { context?: string[]; mode?: VerificationMode } = {}
+): { text: string; verification: ComparisonVerification } {
+  const mode = options.mode || parseVerificationMode(process.env.COMPARISON_VERIFICATION) || 'mark'
+  const identifiers = productIdentifiers(products)
+  const contextNumbers = [
+    ...(options.context || []).flatMap(parseNumbers),
+    ...Array.from({ length: products.length + 1 }, (_, i) => i)
+  ]
+
+  const attributeNumbers = attributes.map(item => ({
+    name: normalizeField(item.attribute),
+    label: item.attribute,
+    numbers: item.values.flatMap(value => parseNumbers(recordText(value)))
+  }))
+  const allNumbers = attributeNumbers.flatMap(item => item.numbers)
+
+  let checkedStatements = 0
+  let checkedValues = 0
+  const unsupported: UnsupportedStatement[] = []
+
+  const lines = text.split('\n').flatMap(line => {
+    const values = removeIdentifiers(line, identifiers).match(NUMBER) || []
+    if (values.length === 0) return [line]
+
+    checkedStatements++
+    checkedValues += values.length
+
+    const label = lineLabel(line)
+    const named = label ? attributeNumbers.filter(item => matchesLabel(item.name, label)) : []
+    const known = named.length > 0 ? named.flatMap(item => item.numbers) : allNumbers
+
+    const missing = values.filter(raw => {
+      const value = parseFloat(raw.replace(/,/g, ''))
+      return !isSupported(value, known) && !isSupported(value, contextNumbers)
+    })
+    if (missing.length === 0) return [line]
+
+    unsupported.push({ text: line.trim(), values: missing, attributes: named.map(item => item.label) })
+    return mode === 'strip' ? [] : [`${line} ⚠️ (unverified: ${missing.join(', ')} not in the product data)`]
+  })
+
+  return {
+    text: lines.join('\n'),
+    verification: {
+      mode,
+      checkedStatements,
+      checkedValues,
+      unsupported,
+      verified: unsupported.length === 0
+    }
+  }
+}
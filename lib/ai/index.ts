@@ -0,0 +1,63 @@
+import OpenAI from 'openai'
+import { EmbeddingProvider, LLMProvider } from './providers'
+import { createOpenAIEmbeddingProvider, createOpenAILLMProvider } from './openai-providers'
+import { createLocalEmbeddingProvider, createLocalLLMProvider } from './local-providers'
+
+export * from './providers'
+export * from './grounding'
+export { createOpenAIEmbeddingProvider, createOpenAILLMProvider } from './openai-providers'
+export { createLocalEmbeddingProvider, createLocalLLMProvider } from './local-providers'
+
+let openaiClient: OpenAI | null = null
+let embeddingProvider: EmbeddingProvider | null = null
+let llmProvider: LLMProvider | null = null
+
+function getOpenAIClient(): OpenAI {
+  if (!openaiClient) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('Missing OPENAI_API_KEY environment variable')
+    }
+    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return openaiClient
+}
+
+// EMBEDDING_PROVIDER / LLM_PROVIDER select 'openai' (default) or 'local', the
+// deterministic offline stand-ins that need no network access or API key.
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (embeddingProvider) return embeddingProvider
+
+  if (process.env.EMBEDDING_PROVIDER === 'local') {
+    const dimensions = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '', 10) || 1536
+    embeddingProvider = createLocalEmbeddingProvider(dimensions)
+  } else {
+    embeddingProvider = createOpenAIEmbeddingProvider(
+      getOpenAIClient(),
+      process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+    )
+  }
+
+  console.log(`🧩 Embedding provider: ${embeddingProvider.name}`)
+  return embeddingProvider
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (llmProvider) return llmProvider
+
+  if (process.env.LLM_PROVIDER === 'local') {
+    llmProvider = createLocalLLMProvider()
+  } else {
+    llmProvider = createOpenAILLMProvider(
+      getOpenAIClient(),
+      process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini'
+    )
+  }
+
+  console.log(`🧩 LLM provider: ${llmProvider.name}`)
+  return llmProvider
+}
+
+export function setAIProviders(providers: { embedding?: EmbeddingProvider | null; llm?: LLMProvider | null }): void {
+  if (providers.embedding !== undefined) embeddingProvider = providers.embedding
+  if (providers.llm !== undefined) llmProvider = providers.llm
+}
@@ -0,0 +1,140 @@
+import { CoatingProduct, SPEC_COLUMNS, SPEC_LABELS, SpecField, productDisplayName, toProductRecord } from '@/lib/catalog'
+import { CompletionRequest, EmbeddingProvider, LLMProvider } from './providers'
+
+// ============================================================================
+// HASHED BAG-OF-WORDS EMBEDDINGS
+// ============================================================================
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1)
+}
+
+// Unigrams and bigrams are hashed into a fixed number of buckets with a hashed
+// sign, then L2-normalised, so identical text always yields the same vector and
+// texts sharing vocabulary score a positive cosine similarity.
+export function createLocalEmbeddingProvider(dimensions: number = 1536): EmbeddingProvider {
+  return {
+    name: `local:hashed-bow-${dimensions}`,
+    dimensions,
+
+    async embed(text: string) {
+      const vector = new Array<number>(dimensions).fill(0)
+      const tokens = tokenize(text)
+      const features = [
+        ...tokens,
+        ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)
+      ]
+
+      features.forEach(feature => {
+        const hash = fnv1a(feature)
+        const sign = (hash & 0x80000000) === 0 ? 1 : -1
+        vector[hash % dimensions] += sign
+      })
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+      return norm === 0 ? vector : vector.map(v => v / norm)
+    }
+  }
+}
+
+// ============================================================================
+// TEMPLATE SUMMARIZER
+// ============================================================================
+
+const SUMMARY_SPEC_FIELDS: SpecField[] = ['mixRatio', 'potLife', 'cureTime', 'vocContent', 'color']
+
+const COMPARISON_EXCLUDED_FIELDS = ['created_at', 'updated_at', '_relevanceScore']
+
+function renderSummary(request: CompletionRequest, products: CoatingProduct[]): string {
+  const query = request.query || request.messages.filter(m => m.role === 'user').pop()?.content || ''
+
+  if (products.length === 0) {
+    return `No catalog products matched "${query}".`
+  }
+
+  const lines = products.slice(0, 10).map((product, i) => {
+    const details = [
+      product.productType && `Type: ${product.productType}`,
+      product.family && `Family: ${product.family}`,
+      ...SUMMARY_SPEC_FIELDS
+        .filter(field => product.specs[field])
+        .map(field => `${SPEC_LABELS[field]}: ${product.specs[field]}${product.sku ? ` [[${product.sku}|${SPEC_COLUMNS[field]}]]` : ''}`)
+    ].filter(Boolean)
+
+    return `${i + 1}. **${productDisplayName(product)}** (SKU: ${product.sku || 'N/A'})${
+      details.length > 0 ? '\n' + details.map(d => `   - ${d}`).join('\n') : ''
+    }`
+  })
+
+  return `**Results for "${query}"**
+
+Found ${products.length} matching product${products.length === 1 ? '' : 's'}. Top matches:
+
+${lines.join('\n\n')}`
+}
+
+function renderComparison(products: CoatingProduct[]): string {
+  const records = products.map(toProductRecord)
+  const fields = new Set<string>()
+  records.forEach(r => Object.keys(r).forEach(key => {
+    if (!COMPARISON_EXCLUDED_FIELDS.includes(key)) fields.add(key)
+  }))
+
+  const differing = Array.from(fields).filter(field =>
+    new Set(records.map(r => String(r[field] ?? ''))).size > 1
+  )
+
+  const overview = products.map((p, i) =>
+    `- **Product ${i + 1}:** ${productDisplayName(p)} (SKU: ${p.sku || 'N/A'})`
+  ).join('\n')
+
+  const differences = differing.slice(0, 15).map(field =>
+    `**${field.replace(/_/g, ' ')}:**\n` +
+    records.map((r, i) => `  - Product ${i + 1}: ${r[field] ?? 'N/A'}`).join('\n')
+  ).join('\n\n')
+
+  return `### Overview
+
+${overview}
+
+### Critical Differences
+
+${differences || '*No differing attributes found.*'}`
+}
+
+function renderCompletion(request: CompletionRequest): string {
+  const products = request.products || []
+  const body = request.task === 'comparison'
+    ? renderComparison(products)
+    : renderSummary(request, products)
+
+  return `${body}\n\n_Generated offline from catalog data without a language model._`
+}
+
+export function createLocalLLMProvider(): LLMProvider {
+  return {
+    name: 'local:template',
+
+    async complete(request: CompletionRequest) {
+      return renderCompletion(request)
+    },
+
+    // Word-sized deltas, so streaming clients exercise the same code path as with a model
+    async *stream(request: CompletionRequest) {
+      yield* renderCompletion(request).match(/\S+\s*|\s+/g) || []
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import OpenAI from 'openai'
+import { CompletionRequest, EmbeddingProvider, LLMProvider } from './providers'
+
+const EMBEDDING_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536
+}
+
+export function createOpenAIEmbeddingProvider(client: OpenAI, model: string = 'text-embedding-3-small'): EmbeddingProvider {
+  return {
+    name: `openai:${model}`,
+    dimensions: EMBEDDING_DIMENSIONS[model] || 1536,
+
+    async embed(text: string) {
+      const response = await client.embeddings.create({
+        model,
+        input: text,
+      })
+      return response.data[0].embedding
+    }
+  }
+}
+
+export function createOpenAILLMProvider(client: OpenAI, model: string = 'gpt-4o-mini'): LLMProvider {
+  return {
+    name: `openai:${model}`,
+
+    async complete(request: CompletionRequest) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.3,
+        max_tokens: request.maxTokens ?? 2000
+      })
+      return completion.choices[0]?.message?.content || ''
+    },
+
+    async *stream(request: CompletionRequest) {
+      const stream = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.3,
+        max_tokens: request.maxTokens ?? 2000,
+        stream: true
+      })
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content
+        if (delta) yield delta
+      }
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { CoatingProduct } from '@/lib/catalog'
+
+export interface EmbeddingProvider {
+  readonly name: string
+  readonly dimensions: number
+  embed(text: string): Promise<number[]>
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export type CompletionTask = 'summary' | 'comparison'
+
+export interface CompletionRequest {
+  task: CompletionTask
+  messages: ChatMessage[]
+  // Source records the prompt was built from. Model-backed providers ignore
+  // them (they are already in the prompt); the local provider renders from them.
+  products?: CoatingProduct[]
+  query?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LLMProvider {
+  readonly name: string
+  complete(request: CompletionRequest): Promise<string>
+  // Yields the completion in order as text deltas
+  stream(request: CompletionRequest): AsyncIterable<string>
+}
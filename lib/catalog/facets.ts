@@ -0,0 +1,219 @@
+import { CoatingProduct } from './product'
+import { RangeBounds, RangeField, matchesSpecFilters } from './spec-filters'
+
+// ============================================================================
+// FACET TYPES
+// ============================================================================
+
+export type BucketField = Extract<RangeField, 'vocContent' | 'potLife' | 'cureTime' | 'coverage'>
+
+export type FacetField = 'family' | 'productType' | 'productModel' | 'color' | 'gloss' | BucketField
+
+export const FACET_FIELDS: FacetField[] = [
+  'family', 'productType', 'productModel', 'color', 'gloss', 'vocContent', 'potLife', 'cureTime', 'coverage'
+]
+
+export const FACET_LABELS: Record<FacetField, string> = {
+  family: 'Family',
+  productType: 'Product Type',
+  productModel: 'Product Model',
+  color: 'Color',
+  gloss: 'Gloss',
+  vocContent: 'VOC',
+  potLife: 'Pot Life',
+  cureTime: 'Cure Time',
+  coverage: 'Coverage'
+}
+
+export interface FacetValue {
+  // What a selection sends back: the text value, or the bucket key ("100-250")
+  value: string
+  label: string
+  count: number
+  selected: boolean
+  // Spec buckets only: the range filter the bucket stands for
+  bounds?: RangeBounds
+}
+
+export interface Facet {
+  field: FacetField
+  label: string
+  values: FacetValue[]
+}
+
+// One selected value per facet
+export type FacetSelection = Partial<Record<FacetField, string>>
+
+export interface FacetResult {
+  // Products matching the whole selection
+  total: number
+  facets: Facet[]
+}
+
+interface SpecBucket {
+  value: string
+  label: string
+  bounds: RangeBounds
+}
+
+// Bounds are in the canonical units of the parsed specs
+export const SPEC_BUCKETS: Record<BucketField, SpecBucket[]> = {
+  vocContent: [
+    { value: 'lte-100', label: '≤ 100 g/L', bounds: { lte: 100 } },
+    { value: '100-250', label: '100–250 g/L', bounds: { gt: 100, lte: 250 } },
+    { value: '250-340', label: '250–340 g/L', bounds: { gt: 250, lte: 340 } },
+    { value: '340-420', label: '340–420 g/L', bounds: { gt: 340, lte: 420 } },
+    { value: 'gt-420', label: '> 420 g/L', bounds: { gt: 420 } }
+  ],
+  potLife: [
+    { value: 'lte-1', label: '≤ 1 hour', bounds: { lte: 1 } },
+    { value: '1-4', label: '1–4 hours', bounds: { gt: 1, lte: 4 } },
+    { value: '4-8', label: '4–8 hours', bounds: { gt: 4, lte: 8 } },
+    { value: 'gt-8', label: '> 8 hours', bounds: { gt: 8 } }
+  ],
+  cureTime: [
+    { value: 'lte-24', label: '≤ 24 hours', bounds: { lte: 24 } },
+    { value: '24-72', label: '1–3 days', bounds: { gt: 24, lte: 72 } },
+    { value: '72-168', label: '3–7 days', bounds: { gt: 72, lte: 168 } },
+    { value: 'gt-168', label: '> 7 days', bounds: { gt: 168 } }
+  ],
+  coverage: [
+    { value: 'lte-400', label: '≤ 400 ft²/gal', bounds: { lte: 400 } },
+    { value: '400-600', label: '400–600 ft²/gal', bounds: { gt: 400, lte: 600 } },
+    { value: '600-800', label: '600–800 ft²/gal', bounds: { gt: 600, lte: 800 } },
+    { value: 'gt-800', label: '> 800 ft²/gal', bounds: { gt: 800 } }
+  ]
+}
+
+// Gloss is written many ways ("High Gloss (90+ at 60°)", "Lusterless"), so it
+// is faceted by class; anything unrecognised keeps its own text
+const GLOSS_CLASSES: Array<{ label: string; pattern: RegExp }> = [
+  { label: 'Semi-Gloss', pattern: /semi[\s-]*gloss/i },
+  { label: 'Flat / Matte', pattern: /\bflat\b|\bmatte?\b|lusterless|low[\s-]*gloss/i },
+  { label: 'Satin', pattern: /satin|eggshell/i },
+  { label: 'Gloss', pattern: /gloss/i }
+]
+
+// ============================================================================
+// FACET VALUES
+// ============================================================================
+
+function isBucketField(field: FacetField): field is BucketField {
+  return field in SPEC_BUCKETS
+}
+
+function facetKey(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+export function glossClass(gloss: string): string {
+  return GLOSS_CLASSES.find(item => item.pattern.test(gloss))?.label || gloss.trim()
+}
+
+// The values a product contributes to a facet. A spec given as a range
+// ("2-6 hours") can fall into more than one bucket.
+export function productFacetValues(product: CoatingProduct, field: FacetField): string[] {
+  if (isBucketField(field)) {
+    return SPEC_BUCKETS[field]
+      .filter(bucket => matchesSpecFilters(product, { [field]: bucket.bounds }))
+      .map(bucket => bucket.value)
+  }
+
+  const text = field === 'color' || field === 'gloss' ? product.specs[field] : product[field]
+  if (!text || !text.trim()) return []
+  return [field === 'gloss' ? glossClass(text) : text.trim()]
+}
+
+export function matchesFacetSelection(product: CoatingProduct, selection: FacetSelection, except?: FacetField): boolean {
+  return (Object.keys(selection) as FacetField[]).every(field => {
+    const wanted = selection[field]
+    if (field === except || !wanted) return true
+    return productFacetValues(product, field).some(value => facetKey(value) === facetKey(wanted))
+  })
+}
+
+// Accepts facet keys from a request body or query params, dropping unknown
+// fields and unknown bucket keys
+export function sanitizeFacetSelection(input: any, fields: FacetField[] = FACET_FIELDS): FacetSelection {
+  const selection: FacetSelection = {}
+  if (!input || typeof input !== 'object') return selection
+
+  fields.forEach(field => {
+    const value = typeof input.get === 'function' ? input.get(field) : input[field]
+    if (typeof value !== 'string' || !value.trim()) return
+    if (isBucketField(field) && !SPEC_BUCKETS[field].some(bucket => bucket.value === value)) return
+    selection[field] = value.trim()
+  })
+
+  return selection
+}
+
+// "Family: CA8000" lines for messages and prompts. Bucket keys read as their labels.
+export function describeFacetSelection(selection: FacetSelection): string[] {
+  return (Object.keys(selection) as FacetField[])
+    .filter(field => selection[field])
+    .map(field => {
+      const value = selection[field]!
+      const label = isBucketField(field)
+        ? SPEC_BUCKETS[field].find(bucket => bucket.value === value)?.label || value
+        : value
+      return `${FACET_LABELS[field]}: ${label}`
+    })
+}
+
+// ============================================================================
+// FACET COUNTS
+// ============================================================================
+
+// Counts every facet over `products`. Each facet is counted over the products
+// matching the rest of the selection, so the options of one dropdown narrow
+// as the others are chosen while its own alternatives stay visible.
+export function computeFacets(
+  products: CoatingProduct[],
+  selection: FacetSelection = {},
+  fields: FacetField[] = FACET_FIELDS
+): FacetResult {
+  const facets = fields.map(field => {
+    const counts = new Map<string, { label: string; count: number }>()
+
+    products.forEach(product => {
+      if (!matchesFacetSelection(product, selection, field)) return
+      productFacetValues(product, field).forEach(value => {
+        const key = facetKey(value)
+        const entry = counts.get(key) || { label: value, count: 0 }
+        entry.count++
+        counts.set(key, entry)
+      })
+    })
+
+    const selected = selection[field] ? facetKey(selection[field]!) : null
+    let values: FacetValue[]
+
+    if (isBucketField(field)) {
+      values = SPEC_BUCKETS[field]
+        .map(bucket => ({
+          value: bucket.value,
+          label: bucket.label,
+          count: counts.get(bucket.value)?.count || 0,
+          selected: selected === bucket.value,
+          bounds: bucket.bounds
+        }))
+        .filter(value => value.count > 0 || value.selected)
+    } else {
+      values = Array.from(counts.entries())
+        .map(([key, entry]) => ({ value: entry.label, label: entry.label, count: entry.count, selected: key === selected }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+      // A selection nothing matches any more stays visible so it can be cleared
+      if (selected && !counts.has(selected)) {
+        values.unshift({ value: selection[field]!, label: selection[field]!, count: 0, selected: true })
+      }
+    }
+
+    return { field, label: FACET_LABELS[field], values }
+  })
+
+  return {
+    total: products.filter(product => matchesFacetSelection(product, selection)).length,
+    facets
+  }
+}
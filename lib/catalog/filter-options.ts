@@ -0,0 +1,154 @@
+import { createHash } from 'crypto'
+import { CoatingProduct } from './product'
+import { Facet, FacetField, FacetSelection, FACET_FIELDS, computeFacets, sanitizeFacetSelection } from './facets'
+import { CatalogSnapshot } from './snapshot'
+
+// ============================================================================
+// FILTER OPTION TYPES
+// ============================================================================
+
+// Each level narrows the ones after it: a family's types, then a type's models
+export const FILTER_CASCADE: FacetField[] = ['family', 'productType', 'productModel']
+
+export interface FilterOptions {
+  // Cascaded values with at least one product, sorted
+  families: string[]
+  productTypes: string[]
+  productModels: string[]
+  facets: Facet[]
+  // The selection the options were computed for
+  selection: FacetSelection
+  // Selected types or models that don't occur under the levels above them
+  dropped: FacetField[]
+  // Products matching the selection
+  total: number
+  snapshotVersion: number
+  // Changes whenever the catalog or the selection does
+  etag: string
+}
+
+// Short names used by permalinks
+const PARAM_ALIASES: Partial<Record<FacetField, string>> = {
+  productType: 'type',
+  productModel: 'model'
+}
+
+const MAX_CACHED_SELECTIONS = 500
+
+// ============================================================================
+// COMPUTING
+// ============================================================================
+
+function withoutFields(selection: FacetSelection, fields: FacetField[]): FacetSelection {
+  const rest = { ...selection }
+  fields.forEach(field => delete rest[field])
+  return rest
+}
+
+function valuesOf(facets: Facet[], field: FacetField): string[] {
+  return (facets.find(facet => facet.field === field)?.values || [])
+    .filter(value => value.count > 0)
+    .map(value => value.value)
+    .sort()
+}
+
+// The cascading levels are counted over the levels above them (and every
+// other facet), never the ones below, so picking a model doesn't hide the
+// other families. The remaining facets count over the whole selection.
+export function computeFilterOptions(
+  products: CoatingProduct[],
+  requested: FacetSelection
+): Omit<FilterOptions, 'snapshotVersion' | 'etag'> {
+  const selection = { ...requested }
+  const dropped: FacetField[] = []
+
+  const cascadeFacets = FILTER_CASCADE.map((field, level) => {
+    const below = FILTER_CASCADE.slice(level + 1)
+    let facet = computeFacets(products, withoutFields(selection, below), [field]).facets[0]
+
+    const chosen = facet.values.find(value => value.selected)
+    if (level > 0 && selection[field] && (!chosen || chosen.count === 0)) {
+      delete selection[field]
+      dropped.push(field)
+      facet = computeFacets(products, withoutFields(selection, below), [field]).facets[0]
+    }
+
+    return facet
+  })
+
+  const otherFields = FACET_FIELDS.filter(field => !FILTER_CASCADE.includes(field))
+  const { total, facets: otherFacets } = computeFacets(products, selection, otherFields)
+  const facets = [...cascadeFacets, ...otherFacets]
+
+  return {
+    families: valuesOf(facets, 'family'),
+    productTypes: valuesOf(facets, 'productType'),
+    productModels: valuesOf(facets, 'productModel'),
+    facets,
+    selection,
+    dropped,
+    total
+  }
+}
+
+// ============================================================================
+// SHARED SERVICE
+// ============================================================================
+
+let cachedHash: string | null = null
+const cached = new Map<string, FilterOptions>()
+
+function selectionKey(selection: FacetSelection): string {
+  return FACET_FIELDS.map(field => `${field}=${selection[field] || ''}`).join('&')
+}
+
+// Accepts the facet fields as query params, with `type` and `model` standing
+// in for productType and productModel
+export function parseFilterOptionsParams(params: URLSearchParams): FacetSelection {
+  const aliased = new URLSearchParams(params)
+  Object.entries(PARAM_ALIASES).forEach(([field, alias]) => {
+    const value = params.get(alias!)
+    if (value && !params.get(field)) aliased.set(field, value)
+  })
+  return sanitizeFacetSelection(aliased)
+}
+
+// Options for a selection over the catalog snapshot, memoised until the
+// snapshot's rows change
+export function getFilterOptions(snapshot: CatalogSnapshot, selection: FacetSelection = {}): FilterOptions {
+  if (cachedHash !== snapshot.hash) {
+    cached.clear()
+    cachedHash = snapshot.hash
+  }
+
+  const key = selectionKey(selection)
+  const hit = cached.get(key)
+  if (hit) return hit
+
+  const options: FilterOptions = {
+    ...computeFilterOptions(snapshot.products, selection),
+    snapshotVersion: snapshot.version,
+    etag: `"${createHash('sha1').update(`${snapshot.hash}|${key}`).digest('hex').slice(0, 27)}"`
+  }
+
+  // Oldest first, like the session store
+  cached.set(key, options)
+  while (cached.size > MAX_CACHED_SELECTIONS) {
+    const oldest = cached.keys().next().value
+    if (oldest === undefined) break
+    cached.delete(oldest)
+  }
+
+  return options
+}
+
+export function filterOptionsCacheSize(): number {
+  return cached.size
+}
+
+export function clearFilterOptionsCache(): number {
+  const size = cached.size
+  cached.clear()
+  cachedHash = null
+  return size
+}
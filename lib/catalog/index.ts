@@ -0,0 +1,79 @@
+import path from 'path'
+import { createClient } from '@supabase/supabase-js'
+import { CatalogRepository } from './repository'
+import { createSupabaseCatalogRepository } from './supabase-repository'
+import { createMemoryCatalogRepository, loadCatalogFixture } from './memory-repository'
+import { CatalogSnapshot, CatalogSnapshotStore, createCatalogSnapshotStore } from './snapshot'
+import { getSnapshotStorage } from './snapshot-storage'
+
+export * from './repository'
+export * from './product'
+export * from './specs'
+export * from './spec-filters'
+export * from './qualifications'
+export * from './facets'
+export * from './filter-options'
+export * from './statistics'
+export * from './snapshot'
+export * from './snapshot-storage'
+export { createSupabaseCatalogRepository } from './supabase-repository'
+export { createMemoryCatalogRepository, loadCatalogFixture } from './memory-repository'
+
+const DEFAULT_FIXTURE_PATH = 'data/fixtures/coatings.json'
+
+let repository: CatalogRepository | null = null
+
+// CATALOG_SOURCE=memory serves the catalog from CATALOG_FIXTURE_PATH (a JSON
+// array of `coatings` rows) so the search pipeline runs without Supabase.
+export function getCatalogRepository(): CatalogRepository {
+  if (repository) return repository
+
+  if (process.env.CATALOG_SOURCE === 'memory') {
+    const fixturePath = path.resolve(process.cwd(), process.env.CATALOG_FIXTURE_PATH || DEFAULT_FIXTURE_PATH)
+    const rows = loadCatalogFixture(fixturePath)
+    console.log(`📂 Using in-memory catalog: ${rows.length} products from ${fixturePath}`)
+    repository = createMemoryCatalogRepository(rows)
+  } else {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    repository = createSupabaseCatalogRepository(createClient(supabaseUrl, supabaseKey))
+  }
+
+  return repository
+}
+
+export function setCatalogRepository(next: CatalogRepository | null): void {
+  repository = next
+  snapshotStore?.clear()
+}
+
+let snapshotStore: CatalogSnapshotStore | null = null
+
+// CATALOG_REFRESH_SECONDS is how old the snapshot may get before a read checks
+// for changed rows; CATALOG_FULL_RELOAD_HOURS forces a full reload. The
+// snapshot is persisted to getSnapshotStorage() across cold starts.
+export function getCatalogSnapshotStore(): CatalogSnapshotStore {
+  if (!snapshotStore) {
+    const refreshSeconds = parseInt(process.env.CATALOG_REFRESH_SECONDS || '', 10)
+    const fullReloadHours = parseInt(process.env.CATALOG_FULL_RELOAD_HOURS || '', 10)
+    snapshotStore = createCatalogSnapshotStore(getCatalogRepository, {
+      staleAfterMs: refreshSeconds >= 0 ? refreshSeconds * 1000 : undefined,
+      fullReloadAfterMs: fullReloadHours > 0 ? fullReloadHours * 60 * 60 * 1000 : undefined,
+      storage: getSnapshotStorage()
+    })
+  }
+  return snapshotStore
+}
+
+export function setCatalogSnapshotStore(next: CatalogSnapshotStore | null): void {
+  snapshotStore = next
+}
+
+export function getCatalogSnapshot(): Promise<CatalogSnapshot> {
+  return getCatalogSnapshotStore().get()
+}
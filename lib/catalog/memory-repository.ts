@@ -0,0 +1,134 @@
+import { readFileSync } from 'fs'
+import {
+  CatalogFilters,
+  CatalogRepository,
+  EmbeddingMatchOptions,
+  ProductRecord,
+  UPDATED_AT_COLUMN,
+  activeFilterEntries
+} from './repository'
+
+function selectColumns(row: ProductRecord, columns: string): ProductRecord {
+  if (columns.trim() === '*') return { ...row }
+
+  const selected: ProductRecord = {}
+  columns.split(',').map(c => c.trim()).filter(Boolean).forEach(column => {
+    selected[column] = row[column] ?? null
+  })
+  return selected
+}
+
+function parseEmbedding(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[]
+  if (typeof value === 'string' && value.startsWith('[')) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length)
+  let dot = 0
+  let normA = 0
+  let normB = 0
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+// Serves the catalog from an array of rows shaped like the `coatings` table.
+// Matching mirrors the Supabase queries: `eq` is exact, `ilike` is a
+// case-insensitive substring match.
+export function createMemoryCatalogRepository(rows: ProductRecord[]): CatalogRepository {
+  const matchesFilters = (row: ProductRecord, filters?: CatalogFilters) =>
+    activeFilterEntries(filters).every(([column, value]) => row[column] === value)
+
+  const limited = (rows: ProductRecord[], limit?: number) =>
+    (limit ? rows.slice(0, limit) : rows).map(row => ({ ...row }))
+
+  return {
+    source: 'memory',
+
+    async count(filters?: CatalogFilters) {
+      return rows.filter(row => matchesFilters(row, filters)).length
+    },
+
+    async fetchAll(columns: string) {
+      return rows.map(row => selectColumns(row, columns))
+    },
+
+    async fetchChangedSince(since: string, columns: string) {
+      const sinceTime = new Date(since).getTime()
+      return rows
+        .filter(row => row[UPDATED_AT_COLUMN] && new Date(row[UPDATED_AT_COLUMN]).getTime() >= sinceTime)
+        .map(row => selectColumns(row, columns))
+    },
+
+    async findByFilters(filters: CatalogFilters, limit: number) {
+      return limited(rows.filter(row => matchesFilters(row, filters)), limit)
+    },
+
+    async findWhere(column: string, value: string, limit: number = 1000, filters?: CatalogFilters) {
+      return limited(rows.filter(row => row[column] === value && matchesFilters(row, filters)), limit)
+    },
+
+    async findWhereIn(column: string, values: string[], limit?: number, filters?: CatalogFilters) {
+      const wanted = new Set(values)
+      return limited(rows.filter(row => wanted.has(row[column]) && matchesFilters(row, filters)), limit)
+    },
+
+    async searchText(column: string, terms: string[], limit?: number, filters?: CatalogFilters) {
+      const lowerTerms = terms.map(t => t.toLowerCase())
+      return limited(rows.filter(row => {
+        if (!matchesFilters(row, filters)) return false
+        const value = row[column]
+        if (value === null || value === undefined) return false
+        const lowerValue = String(value).toLowerCase()
+        return lowerTerms.some(term => lowerValue.includes(term))
+      }), limit)
+    },
+
+    async matchEmbedding(embedding: number[], options: EmbeddingMatchOptions) {
+      const scored: ProductRecord[] = []
+
+      rows.forEach(row => {
+        if (!matchesFilters(row, options.filters)) return
+        const rowEmbedding = parseEmbedding(row.embedding)
+        if (!rowEmbedding) return
+
+        const similarity = cosineSimilarity(embedding, rowEmbedding)
+        if (similarity > options.threshold) scored.push({ ...row, similarity })
+      })
+
+      return scored
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, options.limit)
+    },
+
+    async findMissing(column: string, columns: string, limit: number) {
+      const missing = rows.filter(row => row[column] === null || row[column] === undefined)
+      return { count: missing.length, rows: missing.slice(0, limit).map(row => selectColumns(row, columns)) }
+    }
+  }
+}
+
+export function loadCatalogFixture(path: string): ProductRecord[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf8'))
+  const rows = Array.isArray(parsed) ? parsed : parsed.products
+
+  if (!Array.isArray(rows)) {
+    throw new Error(`Catalog fixture ${path} must contain an array of products`)
+  }
+
+  return rows
+}
@@ -0,0 +1,374 @@
+import { stripHtml } from '@/lib/text'
+import { UnitSystem, convertUnitsInText } from '@/lib/units'
+import { ProductRecord } from './repository'
+import { PARSED_SPEC_FIELDS, ParsedSpecs, parseSpecs } from './specs'
+
+// ============================================================================
+// CANONICAL PRODUCT SCHEMA
+// ============================================================================
+
+export type CoreField = 'sku' | 'name' | 'description' | 'family' | 'productType' | 'productModel'
+
+export type SpecField =
+  | 'mixRatio'
+  | 'potLife'
+  | 'cureTime'
+  | 'vocContent'
+  | 'color'
+  | 'gloss'
+  | 'applicationMethod'
+  | 'coverage'
+  | 'temperatureRange'
+  | 'shelfLife'
+  | 'specification'
+
+export type CoatingSpecs = Partial<Record<SpecField, string>>
+
+export type AttributeValue = string | number | boolean
+
+export interface CoatingProduct {
+  sku?: string
+  name?: string
+  description?: string
+  family?: string
+  productType?: string
+  productModel?: string
+  enabled?: boolean
+  createdAt?: string
+  updatedAt?: string
+  specs: CoatingSpecs
+  // Typed quantities parsed from `specs`; the original strings are kept as-is
+  parsedSpecs: ParsedSpecs
+  // Columns (and all_attributes keys) with no canonical field, keyed by their
+  // original name
+  attributes: Record<string, AttributeValue>
+  similarity?: number
+  relevanceScore?: number
+}
+
+// Column names used when a product is serialised back into a table-shaped
+// record for API responses and prompts
+export const CORE_COLUMNS: Record<CoreField, string> = {
+  sku: 'sku',
+  name: 'Product_Name',
+  description: 'Product_Description',
+  family: 'family',
+  productType: 'Product_Type',
+  productModel: 'Product_Model'
+}
+
+export const SPEC_COLUMNS: Record<SpecField, string> = {
+  mixRatio: 'Mix_Ratio',
+  potLife: 'Pot_Life',
+  cureTime: 'Cure_Time',
+  vocContent: 'VOC_Content',
+  color: 'Color',
+  gloss: 'Gloss',
+  applicationMethod: 'Application_Method',
+  coverage: 'Theoretical_Coverage_ft2gal',
+  temperatureRange: 'Temperature_Range',
+  shelfLife: 'Shelf_Life',
+  specification: 'Specification'
+}
+
+export const SPEC_LABELS: Record<SpecField, string> = {
+  mixRatio: 'Mix Ratio',
+  potLife: 'Pot Life',
+  cureTime: 'Cure Time',
+  vocContent: 'VOC Content',
+  color: 'Color',
+  gloss: 'Gloss',
+  applicationMethod: 'Application Method',
+  coverage: 'Coverage',
+  temperatureRange: 'Temperature Range',
+  shelfLife: 'Shelf Life',
+  specification: 'Specification'
+}
+
+// ============================================================================
+// COLUMN ALIASES
+// ============================================================================
+
+type FieldTarget =
+  | { kind: 'core'; field: CoreField }
+  | { kind: 'spec'; field: SpecField }
+  | { kind: 'enabled' | 'createdAt' | 'updatedAt' | 'similarity' | 'ignored' }
+
+// Spellings seen in the coatings table, uploads and all_attributes. Keys are
+// compared case-insensitively with punctuation removed, so `Product_Type`,
+// `product_type` and `productType` are the same alias.
+const CORE_ALIASES: Record<CoreField, string[]> = {
+  sku: ['sku', 'product_sku'],
+  name: ['Product_Name', 'name', 'title'],
+  description: ['Product_Description', 'description'],
+  family: ['family', 'product_family'],
+  productType: ['Product_Type', 'type', 'category'],
+  productModel: ['Product_Model', 'model']
+}
+
+const SPEC_ALIASES: Record<SpecField, string[]> = {
+  mixRatio: ['Mix_Ratio', 'mixing_ratio', 'Mix_Ratio_by_Volume'],
+  potLife: ['Pot_Life', 'working_time', 'Pot_Life_Hours'],
+  cureTime: ['Cure_Time', 'dry_time', 'Full_Cure_Time_Hours'],
+  vocContent: ['VOC_Content', 'voc', 'VOC_Actual_gL'],
+  color: ['Color', 'colour'],
+  gloss: ['Gloss', 'finish'],
+  applicationMethod: ['Application_Method', 'application'],
+  coverage: ['Theoretical_Coverage_ft2gal', 'Coverage', 'spread_rate'],
+  temperatureRange: ['Temperature_Range', 'service_temp', 'Service_Temperature'],
+  shelfLife: ['Shelf_Life'],
+  specification: ['Specification', 'Specifications', 'mil_spec', 'Qualification']
+}
+
+const IGNORED_COLUMNS = ['id', 'embedding', 'searchable_text', 'all_attributes', '_relevanceScore', '_sourceTable']
+
+function aliasKey(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+const FIELD_TARGETS = new Map<string, FieldTarget>()
+
+;(Object.keys(CORE_ALIASES) as CoreField[]).forEach(field => {
+  CORE_ALIASES[field].forEach(alias => FIELD_TARGETS.set(aliasKey(alias), { kind: 'core', field }))
+})
+;(Object.keys(SPEC_ALIASES) as SpecField[]).forEach(field => {
+  SPEC_ALIASES[field].forEach(alias => FIELD_TARGETS.set(aliasKey(alias), { kind: 'spec', field }))
+})
+FIELD_TARGETS.set('enabled', { kind: 'enabled' })
+FIELD_TARGETS.set('createdat', { kind: 'createdAt' })
+FIELD_TARGETS.set('updatedat', { kind: 'updatedAt' })
+FIELD_TARGETS.set('similarity', { kind: 'similarity' })
+IGNORED_COLUMNS.forEach(column => FIELD_TARGETS.set(aliasKey(column), { kind: 'ignored' }))
+
+export function resolveColumn(column: string): FieldTarget | null {
+  return FIELD_TARGETS.get(aliasKey(column)) || null
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+export interface NormalizedProduct {
+  product: CoatingProduct
+  valid: boolean
+  unmappedColumns: string[]
+  issues: string[]
+}
+
+export interface NormalizationReport {
+  total: number
+  invalid: number
+  // Column name -> number of rows carrying it
+  unmappedColumns: Record<string, number>
+  // Issue message -> number of rows affected
+  issues: Record<string, number>
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined
+  if (typeof value === 'string') {
+    const cleaned = stripHtml(value)
+    return cleaned || undefined
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return undefined
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase()
+    if (['true', 'yes', 'y', '1', 'enabled'].includes(lower)) return true
+    if (['false', 'no', 'n', '0', 'disabled'].includes(lower)) return false
+  }
+  return undefined
+}
+
+function parseAttributes(value: unknown): Record<string, unknown> | null {
+  if (!value) return null
+  if (typeof value === 'object' && !Array.isArray(value)) return value as Record<string, unknown>
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value)
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+export function normalizeProduct(row: ProductRecord): NormalizedProduct {
+  const product: CoatingProduct = { specs: {}, parsedSpecs: {}, attributes: {} }
+  const unmappedColumns: string[] = []
+  const issues: string[] = []
+
+  // First value wins: columns are assigned before all_attributes, so a real
+  // column always takes precedence over the same key inside the JSON blob
+  const assign = (column: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return
+
+    const target = resolveColumn(column)
+
+    if (!target) {
+      if (column in product.attributes) return
+      if (typeof value === 'string') {
+        const text = toText(value)
+        if (text) product.attributes[column] = text
+      } else if (typeof value === 'number' || typeof value === 'boolean') {
+        product.attributes[column] = value
+      } else {
+        product.attributes[column] = JSON.stringify(value)
+      }
+      unmappedColumns.push(column)
+      return
+    }
+
+    switch (target.kind) {
+      case 'core': {
+        if (product[target.field]) return
+        const text = toText(value)
+        if (text === undefined) {
+          issues.push(`${column}: expected text`)
+        } else {
+          product[target.field] = text
+        }
+        return
+      }
+      case 'spec': {
+        if (product.specs[target.field]) return
+        const text = toText(value)
+        if (text === undefined) {
+          issues.push(`${column}: expected text`)
+        } else {
+          product.specs[target.field] = text
+        }
+        return
+      }
+      case 'enabled': {
+        const flag = toBoolean(value)
+        if (flag === undefined) {
+          issues.push(`${column}: expected boolean`)
+        } else if (product.enabled === undefined) {
+          product.enabled = flag
+        }
+        return
+      }
+      case 'createdAt':
+      case 'updatedAt':
+        if (!product[target.kind]) product[target.kind] = toText(value)
+        return
+      case 'similarity':
+        if (typeof value === 'number') product.similarity = value
+        return
+      case 'ignored':
+        return
+    }
+  }
+
+  Object.entries(row).forEach(([column, value]) => assign(column, value))
+
+  if (row.all_attributes !== undefined && row.all_attributes !== null && row.all_attributes !== '') {
+    const attributes = parseAttributes(row.all_attributes)
+    if (attributes) {
+      Object.entries(attributes).forEach(([key, value]) => assign(key, value))
+    } else {
+      issues.push('all_attributes: not a JSON object')
+    }
+  }
+
+  product.parsedSpecs = parseSpecs(product.specs)
+  PARSED_SPEC_FIELDS.forEach(field => {
+    if (product.specs[field] && !product.parsedSpecs[field]) {
+      issues.push(`${SPEC_COLUMNS[field]}: no parseable value`)
+    }
+  })
+
+  if (!product.sku) issues.push('missing sku')
+  if (!product.name) issues.push('missing name')
+
+  return {
+    product,
+    valid: Boolean(product.sku || product.name),
+    unmappedColumns,
+    issues
+  }
+}
+
+export function normalizeProducts(rows: ProductRecord[]): { products: CoatingProduct[]; report: NormalizationReport } {
+  const report: NormalizationReport = {
+    total: rows.length,
+    invalid: 0,
+    unmappedColumns: {},
+    issues: {}
+  }
+
+  const products = rows.map(row => {
+    const result = normalizeProduct(row)
+
+    if (!result.valid) report.invalid++
+    result.unmappedColumns.forEach(column => {
+      report.unmappedColumns[column] = (report.unmappedColumns[column] || 0) + 1
+    })
+    result.issues.forEach(issue => {
+      report.issues[issue] = (report.issues[issue] || 0) + 1
+    })
+
+    return result.product
+  })
+
+  return { products, report }
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+export function productDisplayName(product: CoatingProduct): string {
+  return product.name || product.family || product.sku || 'Unknown'
+}
+
+// Rewrites spec and attribute text in the requested unit system. Parsed specs
+// are canonical and stay as they are.
+export function localizeProduct(product: CoatingProduct, units: UnitSystem): CoatingProduct {
+  const specs: CoatingSpecs = {}
+  ;(Object.keys(product.specs) as SpecField[]).forEach(field => {
+    let text = product.specs[field]!
+    // Coverage is often stored as a bare number in the ft²/gal column
+    if (field === 'coverage' && /^[\d,.]+$/.test(text.trim())) text = `${text.trim()} ft²/gal`
+    specs[field] = convertUnitsInText(text, units)
+  })
+
+  const attributes: Record<string, AttributeValue> = {}
+  Object.entries(product.attributes).forEach(([key, value]) => {
+    attributes[key] = typeof value === 'string' ? convertUnitsInText(value, units) : value
+  })
+
+  return { ...product, specs, attributes }
+}
+
+export function localizeProducts(products: CoatingProduct[], units: UnitSystem | null): CoatingProduct[] {
+  return units ? products.map(p => localizeProduct(p, units)) : products
+}
+
+export function toProductRecord(product: CoatingProduct): ProductRecord {
+  const record: ProductRecord = {}
+
+  ;(Object.keys(CORE_COLUMNS) as CoreField[]).forEach(field => {
+    if (product[field]) record[CORE_COLUMNS[field]] = product[field]
+  })
+  ;(Object.keys(SPEC_COLUMNS) as SpecField[]).forEach(field => {
+    if (product.specs[field]) record[SPEC_COLUMNS[field]] = product.specs[field]
+  })
+  Object.entries(product.attributes).forEach(([key, value]) => {
+    if (!(key in record)) record[key] = value
+  })
+
+  if (product.enabled !== undefined) record.Enabled = product.enabled
+  if (product.createdAt) record.created_at = product.createdAt
+  if (product.updatedAt) record.updated_at = product.updatedAt
+  if (product.relevanceScore !== undefined) record._relevanceScore = product.relevanceScore
+
+  return record
+}
@@ -0,0 +1,187 @@
+import { CoatingProduct } from './product'
+
+// ============================================================================
+// QUALIFICATION TYPES
+// ============================================================================
+
+export interface Qualification {
+  // Canonical spec number without revision letter: 'MIL-PRF-85285', 'AMS 3095', 'BMS 10-72'
+  spec: string
+  revision?: string
+  type?: string
+  class?: string
+  grade?: string
+}
+
+export interface QualifiedProduct {
+  sku?: string
+  name?: string
+  family?: string
+  qualification: Qualification
+}
+
+// Canonical spec number -> every product reference to it
+export type QualificationIndex = Map<string, QualifiedProduct[]>
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+interface SpecPattern {
+  pattern: RegExp
+  canonical: (match: RegExpExecArray) => { spec: string; revision?: string }
+}
+
+// Patterns are case-insensitive and allow spaces or hyphens between parts so
+// the same parser reads catalog text ("MIL-PRF-85285") and queries ("mil prf 85285")
+const SPEC_PATTERNS: SpecPattern[] = [
+  {
+    pattern: /\bMIL[\s-]*(PRF|DTL|C|P|A|E|STD|SPEC)[\s-]*(\d{3,6})([A-Z])?\b/gi,
+    canonical: m => ({ spec: `MIL-${m[1].toUpperCase()}-${m[2]}`, revision: m[3]?.toUpperCase() })
+  },
+  {
+    pattern: /\bAMS[\s-]*([A-Z])[\s-]*(\d{3,6})([A-Z])?\b/gi,
+    canonical: m => ({ spec: `AMS-${m[1].toUpperCase()}-${m[2]}`, revision: m[3]?.toUpperCase() })
+  },
+  {
+    pattern: /\bAMS[\s-]*(\d{4})([A-Z])?\b/gi,
+    canonical: m => ({ spec: `AMS ${m[1]}`, revision: m[2]?.toUpperCase() })
+  },
+  {
+    pattern: /\b(BMS|DMS|AIMS)[\s-]*(\d{1,2})[\s-](\d{1,3})([A-Z])?\b/gi,
+    canonical: m => ({ spec: `${m[1].toUpperCase()} ${m[2]}-${m[3]}`, revision: m[4]?.toUpperCase() })
+  },
+  {
+    pattern: /\bTT[\s-]*P[\s-]*(\d{2,4})([A-Z])?\b/gi,
+    canonical: m => ({ spec: `TT-P-${m[1]}`, revision: m[2]?.toUpperCase() })
+  }
+]
+
+const DESIGNATION_PATTERNS: Array<{ key: 'type' | 'class' | 'grade'; pattern: RegExp }> = [
+  { key: 'type', pattern: /\bType\s+([IVX]+|\d+[A-Z]?)\b/i },
+  { key: 'class', pattern: /\bClass\s+([A-Z0-9]{1,3})\b/i },
+  { key: 'grade', pattern: /\bGrade\s+([A-Z0-9]{1,3})\b/i }
+]
+
+interface SpecMatch {
+  index: number
+  end: number
+  spec: string
+  revision?: string
+}
+
+function findSpecMatches(text: string): SpecMatch[] {
+  const matches: SpecMatch[] = []
+
+  SPEC_PATTERNS.forEach(({ pattern, canonical }) => {
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index
+      const end = start + match[0].length
+      // AMS-C-27725 also matches the bare AMS pattern; keep the first claim
+      if (matches.some(m => start < m.end && end > m.index)) continue
+      matches.push({ index: start, end, ...canonical(match) })
+    }
+  })
+
+  return matches.sort((a, b) => a.index - b.index)
+}
+
+function qualificationKey(qualification: Qualification): string {
+  return [qualification.spec, qualification.type, qualification.class, qualification.grade].join('|')
+}
+
+// Type/class/grade designations are read from the text between a spec number
+// and the next spec number or clause break
+export function extractQualifications(text: string): Qualification[] {
+  const matches = findSpecMatches(text)
+  const seen = new Set<string>()
+  const qualifications: Qualification[] = []
+
+  matches.forEach((match, i) => {
+    const next = matches[i + 1]?.index ?? text.length
+    let segment = text.slice(match.end, next)
+    const clauseBreak = segment.search(/[;\n]|\.\s/)
+    if (clauseBreak >= 0) segment = segment.slice(0, clauseBreak)
+
+    const qualification: Qualification = { spec: match.spec }
+    if (match.revision) qualification.revision = match.revision
+
+    DESIGNATION_PATTERNS.forEach(({ key, pattern }) => {
+      const designation = segment.match(pattern)
+      if (designation) qualification[key] = designation[1].toUpperCase()
+    })
+
+    const key = qualificationKey(qualification)
+    if (!seen.has(key)) {
+      seen.add(key)
+      qualifications.push(qualification)
+    }
+  })
+
+  return qualifications
+}
+
+export function extractProductQualifications(product: CoatingProduct): Qualification[] {
+  const sources = [
+    product.specs.specification,
+    product.description,
+    ...Object.values(product.attributes).filter((v): v is string => typeof v === 'string')
+  ].filter((v): v is string => Boolean(v))
+
+  const seen = new Set<string>()
+  return sources.flatMap(extractQualifications).filter(qualification => {
+    const key = qualificationKey(qualification)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+export function formatQualification(qualification: Qualification): string {
+  return [
+    qualification.spec,
+    qualification.type && `Type ${qualification.type}`,
+    qualification.class && `Class ${qualification.class}`,
+    qualification.grade && `Grade ${qualification.grade}`
+  ].filter(Boolean).join(' ')
+}
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+export function buildQualificationIndex(products: CoatingProduct[]): QualificationIndex {
+  const index: QualificationIndex = new Map()
+
+  products.forEach(product => {
+    extractProductQualifications(product).forEach(qualification => {
+      const entries = index.get(qualification.spec) || []
+      entries.push({
+        sku: product.sku,
+        name: product.name,
+        family: product.family,
+        qualification
+      })
+      index.set(qualification.spec, entries)
+    })
+  })
+
+  return index
+}
+
+// A product qualifies when it references the spec and every designation the
+// query names; a query without designations matches any type/class/grade
+export function findQualifiedProducts(index: QualificationIndex, wanted: Qualification): QualifiedProduct[] {
+  return (index.get(wanted.spec) || []).filter(({ qualification }) =>
+    (['type', 'class', 'grade'] as const).every(key =>
+      !wanted[key] || qualification[key] === wanted[key]
+    )
+  )
+}
+
+// Spec references in a search query, e.g. "which primers qualify to mil-prf-23377 type i class c2"
+export function parseQualificationQuery(query: string): Qualification[] {
+  return extractQualifications(query)
+}
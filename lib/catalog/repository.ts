@@ -0,0 +1,66 @@
+export type ProductRecord = Record<string, any>
+
+export interface CatalogFilters {
+  family?: string
+  productType?: string
+  productModel?: string
+}
+
+export const UPDATED_AT_COLUMN = 'updated_at'
+export const CREATED_AT_COLUMN = 'created_at'
+export const EMBEDDING_COLUMN = 'embedding'
+
+// Filter keys used by the API map onto these table columns
+export const FILTER_COLUMNS: Record<keyof CatalogFilters, string> = {
+  family: 'family',
+  productType: 'Product_Type',
+  productModel: 'Product_Model'
+}
+
+export interface EmbeddingMatchOptions {
+  threshold: number
+  limit: number
+  // Applied before the limit, so a narrow filter still fills the page
+  filters?: CatalogFilters
+}
+
+// Everything the search pipeline needs from the coatings catalog. Columns are
+// the raw table column names; `columns` arguments use the Supabase select
+// syntax ('*' or a comma-separated list). Every lookup takes the request's
+// family/type/model filters, applied with the same `eq` as findByFilters.
+export interface CatalogRepository {
+  readonly source: string
+  count(filters?: CatalogFilters): Promise<number>
+  fetchAll(columns: string): Promise<ProductRecord[]>
+  // Rows whose updated_at is at or after `since` (an ISO timestamp)
+  fetchChangedSince(since: string, columns: string): Promise<ProductRecord[]>
+  findByFilters(filters: CatalogFilters, limit: number): Promise<ProductRecord[]>
+  findWhere(column: string, value: string, limit?: number, filters?: CatalogFilters): Promise<ProductRecord[]>
+  findWhereIn(column: string, values: string[], limit?: number, filters?: CatalogFilters): Promise<ProductRecord[]>
+  searchText(column: string, terms: string[], limit?: number, filters?: CatalogFilters): Promise<ProductRecord[]>
+  matchEmbedding(embedding: number[], options: EmbeddingMatchOptions): Promise<ProductRecord[]>
+  // Rows where `column` is null: how many there are, and the first `limit`
+  findMissing(column: string, columns: string, limit: number): Promise<{ count: number; rows: ProductRecord[] }>
+}
+
+export function activeFilterEntries(filters?: CatalogFilters | null): Array<[string, string]> {
+  if (!filters) return []
+
+  return (Object.keys(FILTER_COLUMNS) as Array<keyof CatalogFilters>)
+    .filter(key => typeof filters[key] === 'string' && filters[key]!.trim() !== '')
+    .map(key => [FILTER_COLUMNS[key], filters[key]!.trim()])
+}
+
+// Keeps the family/type/model keys of a request's `filters`, trimmed
+export function sanitizeCatalogFilters(input: any): CatalogFilters {
+  const filters: CatalogFilters = {}
+  if (!input || typeof input !== 'object') return filters
+
+  const keys = Object.keys(FILTER_COLUMNS) as Array<keyof CatalogFilters>
+  keys.forEach(key => {
+    const value = input[key]
+    if (typeof value === 'string' && value.trim() !== '') filters[key] = value.trim()
+  })
+
+  return filters
+}
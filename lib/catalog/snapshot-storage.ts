@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { promisify } from 'util'
+import { gunzip, gzip } from 'zlib'
+import { KeyValueClient, getKeyValueClient } from '@/lib/kv'
+
+// ============================================================================
+// STORAGE TYPES
+// ============================================================================
+
+// Durable home for serialised snapshots, so a cold start reads one document
+// instead of scanning the catalog. Values are JSON text.
+export interface SnapshotStorage {
+  readonly kind: string
+  read(key: string): Promise<string | null>
+  write(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+// Size and time of a stored value, kept under a key of its own so they can be
+// reported without reading the value
+export interface StoredValueMetadata {
+  sizeBytes: number
+  persistedAt: string
+}
+
+const DEFAULT_SNAPSHOT_DIR = '.cache/catalog'
+
+// Marks a gzipped, base64-encoded value in a key-value store
+const COMPRESSED_PREFIX = 'gz:'
+
+const gzipAsync = promisify(gzip)
+const gunzipAsync = promisify(gunzip)
+
+// ============================================================================
+// STORAGES
+// ============================================================================
+
+function safeKey(key: string): string {
+  return key.replace(/[^a-z0-9._-]+/gi, '_')
+}
+
+// Writes go to a temporary file first, so a reader never sees half a snapshot
+export function createFileSnapshotStorage(directory: string): SnapshotStorage {
+  const fileFor = (key: string) => path.join(directory, `${safeKey(key)}.json`)
+
+  return {
+    kind: 'file',
+
+    async read(key) {
+      try {
+        return await fs.readFile(fileFor(key), 'utf8')
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async write(key, value) {
+      const file = fileFor(key)
+      const temporary = `${file}.${process.pid}.tmp`
+      await fs.mkdir(directory, { recursive: true })
+      await fs.writeFile(temporary, value, 'utf8')
+      await fs.rename(temporary, file)
+    },
+
+    async remove(key) {
+      await fs.rm(fileFor(key), { force: true })
+    }
+  }
+}
+
+export function createMemorySnapshotStorage(): SnapshotStorage {
+  const values = new Map<string, string>()
+
+  return {
+    kind: 'memory',
+    async read(key) {
+      return values.get(key) ?? null
+    },
+    async write(key, value) {
+      values.set(key, value)
+    },
+    async remove(key) {
+      values.delete(key)
+    }
+  }
+}
+
+// Values are gzipped: a snapshot of the whole catalog is several megabytes of
+// JSON, past the request size REST key-value stores accept
+export function createKeyValueSnapshotStorage(client: KeyValueClient, prefix: string = 'coatings:'): SnapshotStorage {
+  return {
+    kind: 'kv',
+    async read(key) {
+      const value = await client.get(`${prefix}${key}`)
+      if (typeof value !== 'string') return null
+      if (!value.startsWith(COMPRESSED_PREFIX)) return value
+      return (await gunzipAsync(Buffer.from(value.slice(COMPRESSED_PREFIX.length), 'base64'))).toString('utf8')
+    },
+    async write(key, value) {
+      const compressed = await gzipAsync(Buffer.from(value, 'utf8'))
+      await client.set(`${prefix}${key}`, `${COMPRESSED_PREFIX}${compressed.toString('base64')}`)
+    },
+    async remove(key) {
+      await client.del(`${prefix}${key}`)
+    }
+  }
+}
+
+const metadataKey = (key: string) => `${key}.meta`
+
+export async function writeStoredValue(storage: SnapshotStorage, key: string, value: string): Promise<void> {
+  await storage.write(key, value)
+  const metadata: StoredValueMetadata = { sizeBytes: Buffer.byteLength(value), persistedAt: new Date().toISOString() }
+  await storage.write(metadataKey(key), JSON.stringify(metadata))
+}
+
+// Null when nothing was written under the key by writeStoredValue
+export async function readStoredMetadata(storage: SnapshotStorage, key: string): Promise<StoredValueMetadata | null> {
+  const text = await storage.read(metadataKey(key))
+  return text === null ? null : JSON.parse(text) as StoredValueMetadata
+}
+
+export async function removeStoredValue(storage: SnapshotStorage, key: string): Promise<void> {
+  await storage.remove(key)
+  await storage.remove(metadataKey(key))
+}
+
+let snapshotStorage: SnapshotStorage | null | undefined
+
+// CATALOG_SNAPSHOT_STORAGE=kv (the default on Vercel, whose file system
+// doesn't outlive an instance), file (the default elsewhere, under
+// CATALOG_SNAPSHOT_DIR), memory or none. The KV store is configured by
+// KV_REST_API_URL and KV_REST_API_TOKEN; without them nothing is persisted.
+export function getSnapshotStorage(): SnapshotStorage | null {
+  if (snapshotStorage === undefined) {
+    const kind = process.env.CATALOG_SNAPSHOT_STORAGE || (process.env.VERCEL ? 'kv' : 'file')
+
+    if (kind === 'kv') {
+      const client = getKeyValueClient()
+      if (!client) {
+        console.log('⚠️ Snapshot storage is kv but KV_REST_API_URL/KV_REST_API_TOKEN are not set; every cold start will load the full catalog')
+      }
+      snapshotStorage = client && createKeyValueSnapshotStorage(client, process.env.CATALOG_SNAPSHOT_KV_PREFIX || undefined)
+    } else if (kind === 'file') {
+      const directory = path.resolve(process.cwd(), process.env.CATALOG_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR)
+      snapshotStorage = createFileSnapshotStorage(directory)
+    } else if (kind === 'memory') {
+      snapshotStorage = createMemorySnapshotStorage()
+    } else {
+      snapshotStorage = null
+    }
+  }
+  return snapshotStorage
+}
+
+export function setSnapshotStorage(next: SnapshotStorage | null | undefined): void {
+  snapshotStorage = next
+}
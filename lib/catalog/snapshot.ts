@@ -0,0 +1,320 @@
+import { createHash } from 'crypto'
+import { CREATED_AT_COLUMN, CatalogRepository, ProductRecord, UPDATED_AT_COLUMN } from './repository'
+import { CoatingProduct, NormalizationReport, normalizeProducts } from './product'
+import { SnapshotStorage, writeStoredValue } from './snapshot-storage'
+
+// ============================================================================
+// SNAPSHOT TYPES
+// ============================================================================
+
+// Every column the cached paths read: search vocabularies and indexes, filter
+// options and their spec facets, SKU analysis and catalog statistics
+export const SNAPSHOT_COLUMNS = [
+  'sku', 'family', 'Product_Type', 'Product_Model', 'Product_Name', 'Product_Description',
+  'Color', 'Gloss', 'VOC_Content', 'Pot_Life', 'Cure_Time', 'Mix_Ratio', 'Theoretical_Coverage_ft2gal',
+  'Temperature_Range', 'Application_Method', 'all_attributes', 'Enabled', CREATED_AT_COLUMN, UPDATED_AT_COLUMN
+].join(', ')
+
+// Bump when the persisted shape or the product normaliser changes, so
+// snapshots written by an older build are rebuilt rather than trusted
+export const SNAPSHOT_FORMAT = 4
+
+export const SNAPSHOT_STORAGE_KEY = 'catalog-snapshot'
+
+export interface CatalogSnapshot {
+  rows: ProductRecord[]
+  products: CoatingProduct[]
+  // Columns and all_attributes keys the schema doesn't map, found while
+  // normalising the rows
+  report: NormalizationReport
+  // Bumped whenever the rows change, so derived caches know to rebuild
+  version: number
+  // Content hash of the rows; persisted caches derived from the snapshot are
+  // only reused when their hash matches
+  hash: string
+  // Whether this process read the rows from the catalog or restored them
+  origin: 'catalog' | 'storage'
+  // Latest updated_at seen; the next refresh fetches rows changed since then
+  watermark: string | null
+  loadedAt: Date
+  refreshedAt: Date
+}
+
+export interface SnapshotRefreshResult {
+  snapshot: CatalogSnapshot
+  mode: 'full' | 'incremental'
+  changedRows: number
+  durationMs: number
+}
+
+export interface CatalogSnapshotStore {
+  // Returns the current snapshot, refreshing it in the background once stale.
+  // Only the first call waits for the catalog to load.
+  get(): Promise<CatalogSnapshot>
+  // Waits for a refresh; `full` reloads every row instead of the changes
+  refresh(options?: { full?: boolean }): Promise<SnapshotRefreshResult>
+  peek(): CatalogSnapshot | null
+  clear(): void
+}
+
+export interface CatalogSnapshotOptions {
+  // Age after which a read triggers a background refresh
+  staleAfterMs?: number
+  // Age after which a refresh reloads every row rather than the changes
+  fullReloadAfterMs?: number
+  // Restored from on the first read and written after every change
+  storage?: SnapshotStorage | null
+}
+
+interface PersistedSnapshot {
+  format: number
+  hash: string
+  version: number
+  watermark: string | null
+  loadedAt: string
+  refreshedAt: string
+  rows: ProductRecord[]
+  products: CoatingProduct[]
+  report: NormalizationReport
+}
+
+// ============================================================================
+// SNAPSHOT STORE
+// ============================================================================
+
+// Rows are matched on SKU, the key the upload and embedding scripts upsert by
+function rowKey(row: ProductRecord): string {
+  return row.sku ? `sku:${row.sku}` : `name:${row.family ?? ''}|${row.Product_Name ?? ''}`
+}
+
+export function hashRows(rows: ProductRecord[]): string {
+  return createHash('sha1').update(JSON.stringify(rows)).digest('hex')
+}
+
+export function serializeSnapshot(snapshot: CatalogSnapshot): string {
+  const persisted: PersistedSnapshot = {
+    format: SNAPSHOT_FORMAT,
+    hash: snapshot.hash,
+    version: snapshot.version,
+    watermark: snapshot.watermark,
+    loadedAt: snapshot.loadedAt.toISOString(),
+    refreshedAt: snapshot.refreshedAt.toISOString(),
+    rows: snapshot.rows,
+    products: snapshot.products,
+    report: snapshot.report
+  }
+  return JSON.stringify(persisted)
+}
+
+// Null for another format, or rows that no longer match their hash
+export function deserializeSnapshot(text: string): CatalogSnapshot | null {
+  const persisted = JSON.parse(text) as PersistedSnapshot
+  if (persisted.format !== SNAPSHOT_FORMAT || !Array.isArray(persisted.rows) || !Array.isArray(persisted.products) || !persisted.report) {
+    return null
+  }
+  if (hashRows(persisted.rows) !== persisted.hash) return null
+
+  return {
+    rows: persisted.rows,
+    products: persisted.products,
+    report: persisted.report,
+    version: persisted.version,
+    hash: persisted.hash,
+    origin: 'storage',
+    watermark: persisted.watermark,
+    loadedAt: new Date(persisted.loadedAt),
+    refreshedAt: new Date(persisted.refreshedAt)
+  }
+}
+
+function latestUpdate(rows: ProductRecord[], since: string | null = null): string | null {
+  return rows.reduce<string | null>((latest, row) => {
+    const value = row[UPDATED_AT_COLUMN]
+    if (!value) return latest
+    return !latest || new Date(value).getTime() > new Date(latest).getTime() ? String(value) : latest
+  }, since)
+}
+
+// Incremental refreshes ask for rows changed at or after the watermark and
+// merge them by key. Deletes leave no updated_at behind, so a row count that
+// no longer matches the table falls back to a full reload, as does a change
+// to a row whose key isn't unique.
+//
+// With a storage, the first read restores the last persisted snapshot and
+// serves it while a background refresh catches up with the catalog.
+export function createCatalogSnapshotStore(
+  repository: () => CatalogRepository,
+  options: CatalogSnapshotOptions = {}
+): CatalogSnapshotStore {
+  const staleAfterMs = options.staleAfterMs ?? 5 * 60 * 1000
+  const fullReloadAfterMs = options.fullReloadAfterMs ?? 24 * 60 * 60 * 1000
+  const storage = options.storage || null
+
+  let snapshot: CatalogSnapshot | null = null
+  let refreshing: Promise<SnapshotRefreshResult> | null = null
+  let restoring: Promise<CatalogSnapshot | null> | null = null
+
+  const build = (rows: ProductRecord[], previous: CatalogSnapshot | null, loadedAt: Date): CatalogSnapshot => {
+    const { products, report } = normalizeProducts(rows)
+    return {
+      rows,
+      products,
+      report,
+      version: (previous?.version || 0) + 1,
+      hash: hashRows(rows),
+      origin: 'catalog',
+      watermark: latestUpdate(rows),
+      loadedAt,
+      refreshedAt: new Date()
+    }
+  }
+
+  async function loadAll(previous: CatalogSnapshot | null): Promise<SnapshotRefreshResult> {
+    const startTime = Date.now()
+    const catalog = repository()
+    console.log(`📋 Loading catalog snapshot from ${catalog.source}...`)
+
+    const rows = await catalog.fetchAll(SNAPSHOT_COLUMNS)
+    const next = build(rows, previous, new Date())
+
+    console.log(`✅ Catalog snapshot v${next.version}: ${rows.length} rows in ${Date.now() - startTime}ms`)
+    return { snapshot: next, mode: 'full', changedRows: rows.length, durationMs: Date.now() - startTime }
+  }
+
+  async function loadChanges(current: CatalogSnapshot): Promise<SnapshotRefreshResult> {
+    const startTime = Date.now()
+    const catalog = repository()
+    const [changed, totalCount] = await Promise.all([
+      catalog.fetchChangedSince(current.watermark!, SNAPSHOT_COLUMNS),
+      catalog.count()
+    ])
+
+    const rows = [...current.rows]
+    const positions = new Map<string, number[]>()
+    rows.forEach((row, index) => positions.set(rowKey(row), [...(positions.get(rowKey(row)) || []), index]))
+
+    // Rows stamped exactly at the watermark come back every time
+    const updates = changed.filter(row => {
+      const at = positions.get(rowKey(row))
+      return !at || at.length !== 1 || JSON.stringify(rows[at[0]]) !== JSON.stringify(row)
+    })
+
+    // A key shared by several rows (a duplicated SKU) can't say which one changed
+    if (updates.some(row => (positions.get(rowKey(row))?.length || 0) > 1)) {
+      console.log('⚠️ Changed rows share a key with other rows, reloading the snapshot')
+      return loadAll(current)
+    }
+
+    updates.forEach(row => {
+      const at = positions.get(rowKey(row))
+      if (at) {
+        rows[at[0]] = row
+      } else {
+        positions.set(rowKey(row), [rows.length])
+        rows.push(row)
+      }
+    })
+
+    if (rows.length !== totalCount) {
+      console.log(`⚠️ Snapshot has ${rows.length} rows but the catalog has ${totalCount}, reloading`)
+      return loadAll(current)
+    }
+
+    const durationMs = Date.now() - startTime
+
+    if (updates.length === 0) {
+      const next = { ...current, refreshedAt: new Date() }
+      return { snapshot: next, mode: 'incremental', changedRows: 0, durationMs }
+    }
+
+    const next = {
+      ...build(rows, current, current.loadedAt),
+      watermark: latestUpdate(updates, current.watermark)
+    }
+    console.log(`🔄 Catalog snapshot v${next.version}: ${updates.length} changed rows in ${durationMs}ms`)
+    return { snapshot: next, mode: 'incremental', changedRows: updates.length, durationMs }
+  }
+
+  async function restore(): Promise<CatalogSnapshot | null> {
+    if (!storage) return null
+
+    try {
+      const text = await storage.read(SNAPSHOT_STORAGE_KEY)
+      const restored = text ? deserializeSnapshot(text) : null
+      if (text && !restored) console.log('⚠️ Persisted catalog snapshot is outdated or corrupt, ignoring it')
+      if (restored) {
+        console.log(`📂 Restored catalog snapshot v${restored.version} (${restored.rows.length} rows, refreshed ${restored.refreshedAt.toISOString()}) from ${storage.kind} storage`)
+      }
+      return restored
+    } catch (error) {
+      console.error('❌ Error restoring catalog snapshot:', error)
+      return null
+    }
+  }
+
+  // A failed write only costs the next cold start a full load
+  async function persist(next: CatalogSnapshot): Promise<void> {
+    if (!storage) return
+
+    try {
+      await writeStoredValue(storage, SNAPSHOT_STORAGE_KEY, serializeSnapshot(next))
+      console.log(`💾 Persisted catalog snapshot v${next.version} to ${storage.kind} storage`)
+    } catch (error) {
+      console.error('❌ Error persisting catalog snapshot:', error)
+    }
+  }
+
+  function refresh(refreshOptions: { full?: boolean } = {}): Promise<SnapshotRefreshResult> {
+    if (refreshing) return refreshing
+
+    const current = snapshot
+    const full = refreshOptions.full ||
+      !current ||
+      !current.watermark ||
+      Date.now() - current.loadedAt.getTime() > fullReloadAfterMs
+
+    refreshing = (full ? loadAll(current) : loadChanges(current!))
+      .then(async result => {
+        const changed = result.snapshot.version !== current?.version
+        snapshot = result.snapshot
+        if (changed) await persist(result.snapshot)
+        return result
+      })
+      .finally(() => {
+        refreshing = null
+      })
+
+    return refreshing
+  }
+
+  return {
+    async get() {
+      if (!snapshot && storage) {
+        restoring = restoring || restore()
+        const restored = await restoring
+        restoring = null
+        // A refresh that landed while restoring is newer
+        if (restored && !snapshot) snapshot = restored
+      }
+
+      if (!snapshot) return (await refresh()).snapshot
+
+      if (Date.now() - snapshot.refreshedAt.getTime() > staleAfterMs && !refreshing) {
+        // Readers keep the stale snapshot until the refresh lands
+        refresh().catch(error => console.error('❌ Background catalog refresh failed:', error))
+      }
+
+      return snapshot
+    },
+
+    refresh,
+
+    peek() {
+      return snapshot
+    },
+
+    clear() {
+      snapshot = null
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import {
+  UnitSystem,
+  fahrenheitToCelsius,
+  gramsPerLiterToPoundsPerGallon,
+  squareFeetPerGallonToSquareMetersPerLiter
+} from '@/lib/units'
+import { CoatingProduct } from './product'
+import { Quantity, parseCoverage, parseDuration, parseTemperatureRange, parseVoc } from './specs'
+
+// ============================================================================
+// RANGE FILTER TYPES
+// ============================================================================
+
+// Bounds are in the canonical units of the parsed specs: g/L, hours, ft²/gal, °F
+export type RangeField = 'vocContent' | 'potLife' | 'cureTime' | 'coverage' | 'serviceTemperature' | 'cureTemperature'
+
+export interface RangeBounds {
+  lt?: number
+  lte?: number
+  gt?: number
+  gte?: number
+}
+
+export type SpecRangeFilters = Partial<Record<RangeField, RangeBounds>>
+
+export const RANGE_FIELDS: RangeField[] = ['vocContent', 'potLife', 'cureTime', 'coverage', 'serviceTemperature', 'cureTemperature']
+
+export const RANGE_FIELD_LABELS: Record<RangeField, string> = {
+  vocContent: 'VOC',
+  potLife: 'Pot life',
+  cureTime: 'Cure time',
+  coverage: 'Coverage',
+  serviceTemperature: 'Service temperature',
+  cureTemperature: 'Cure temperature'
+}
+
+export const RANGE_FIELD_UNITS: Record<RangeField, string> = {
+  vocContent: 'g/L',
+  potLife: 'hours',
+  cureTime: 'hours',
+  coverage: 'ft²/gal',
+  serviceTemperature: '°F',
+  cureTemperature: '°F'
+}
+
+const BOUND_KEYS: Array<keyof RangeBounds> = ['gt', 'gte', 'lt', 'lte']
+
+const BOUND_SYMBOLS: Record<keyof RangeBounds, string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥'
+}
+
+// Accepts the `filters.ranges` object of a request body, dropping unknown
+// fields and non-numeric bounds
+export function sanitizeSpecFilters(input: any): SpecRangeFilters {
+  const filters: SpecRangeFilters = {}
+  if (!input || typeof input !== 'object') return filters
+
+  RANGE_FIELDS.forEach(field => {
+    const raw = input[field]
+    if (!raw || typeof raw !== 'object') return
+
+    const bounds: RangeBounds = {}
+    BOUND_KEYS.forEach(key => {
+      const value = typeof raw[key] === 'string' ? parseFloat(raw[key]) : raw[key]
+      if (typeof value === 'number' && Number.isFinite(value)) bounds[key] = value
+    })
+
+    if (Object.keys(bounds).length > 0) filters[field] = bounds
+  })
+
+  return filters
+}
+
+export function mergeSpecFilters(...sources: SpecRangeFilters[]): SpecRangeFilters {
+  const merged: SpecRangeFilters = {}
+  sources.forEach(source => {
+    (Object.keys(source) as RangeField[]).forEach(field => {
+      merged[field] = { ...merged[field], ...source[field] }
+    })
+  })
+  return merged
+}
+
+export function hasSpecFilters(filters: SpecRangeFilters): boolean {
+  return Object.keys(filters).length > 0
+}
+
+function displayBound(field: RangeField, value: number, units?: UnitSystem | null): string {
+  const unit = RANGE_FIELD_UNITS[field]
+  if (unit === '°F') return units === 'metric' ? `${fahrenheitToCelsius(value)}°C` : `${value}°F`
+  if (unit === 'g/L' && units === 'imperial') return `${gramsPerLiterToPoundsPerGallon(value)} lb/gal`
+  if (unit === 'ft²/gal' && units === 'metric') return `${squareFeetPerGallonToSquareMetersPerLiter(value)} m²/L`
+  return `${value} ${unit}`
+}
+
+export function describeSpecFilters(filters: SpecRangeFilters, units?: UnitSystem | null): string[] {
+  return (Object.keys(filters) as RangeField[]).map(field => {
+    const bounds = filters[field]!
+    const conditions = BOUND_KEYS
+      .filter(key => bounds[key] !== undefined)
+      .map(key => `${BOUND_SYMBOLS[key]} ${displayBound(field, bounds[key]!, units)}`)
+    return `${RANGE_FIELD_LABELS[field]} ${conditions.join(' and ')}`
+  })
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+// A product passes when any part of its stated value satisfies the bound:
+// lower-bound checks use the top of a range, upper-bound checks the bottom.
+// For service temperature that means the rated range reaches past the bound.
+function rangeOf(product: CoatingProduct, field: RangeField): { low: number; high: number } | null {
+  if (field === 'cureTemperature') {
+    const temperature = product.parsedSpecs.cureTime?.atTemperature
+    return temperature === undefined ? null : { low: temperature, high: temperature }
+  }
+
+  if (field === 'serviceTemperature') {
+    const range = product.parsedSpecs.temperatureRange
+    if (!range || range.context !== 'service') return null
+    const low = range.min ?? range.max
+    const high = range.max ?? range.min
+    return low === undefined || high === undefined ? null : { low, high }
+  }
+
+  const quantity: Quantity | undefined = product.parsedSpecs[field]
+  if (!quantity) return null
+  return { low: quantity.value, high: quantity.max ?? quantity.value }
+}
+
+export function matchesSpecFilters(product: CoatingProduct, filters: SpecRangeFilters): boolean {
+  return (Object.keys(filters) as RangeField[]).every(field => {
+    const bounds = filters[field]!
+    const range = rangeOf(product, field)
+    if (!range) return false
+
+    if (bounds.lt !== undefined && !(range.low < bounds.lt)) return false
+    if (bounds.lte !== undefined && !(range.low <= bounds.lte)) return false
+    if (bounds.gt !== undefined && !(range.high > bounds.gt)) return false
+    if (bounds.gte !== undefined && !(range.high >= bounds.gte)) return false
+    return true
+  })
+}
+
+export function applySpecFilters<T extends CoatingProduct>(products: T[], filters: SpecRangeFilters): T[] {
+  if (!hasSpecFilters(filters)) return products
+  return products.filter(product => matchesSpecFilters(product, filters))
+}
+
+// ============================================================================
+// QUERY EXTRACTION
+// ============================================================================
+
+export interface ExtractedSpecFilters {
+  filters: SpecRangeFilters
+  // The query with the constraint phrases removed, for term and vector search
+  remainingQuery: string
+}
+
+const LESS_THAN = 'under|below|less than|lower than|no more than|at most|max(?:imum)?|up to|<=?|≤'
+const MORE_THAN = 'over|above|more than|greater than|higher than|no less than|at least|min(?:imum)?|>=?|≥'
+const VALUE = '(-?\\d[\\d,]*(?:\\.\\d+)?)\\s*'
+const UNIT = '(g\\s*/\\s*l|lbs?\\s*/\\s*gal|ft²\\s*/\\s*gal|ft2\\s*/\\s*gal|sq\\.?\\s*ft\\s*/\\s*gal|m²\\s*/\\s*l|m2\\s*/\\s*l|(?:°|º|deg(?:rees)?\\s*)\\s*[fc]\\b|minutes?\\b|mins?\\b|hours?\\b|hrs?\\b|h\\b|days?\\b|weeks?\\b)?'
+
+const BETWEEN_PATTERN = new RegExp(`\\bbetween\\s+${VALUE}${UNIT}\\s*(?:and|-|to)\\s*${VALUE}${UNIT}`, 'gi')
+// "max VOC 340" names the field between the operator and the value
+const FIELD_NAME = '(?:(voc|pot\\s*life|cure\\s*time|coverage|(?:service\\s*)?temp(?:erature)?)\\s+(?:of\\s+)?)?'
+const COMPARISON_PATTERN = new RegExp(`(?:\\b|(?=[<>≤≥]))(${LESS_THAN}|${MORE_THAN})\\s*${FIELD_NAME}${VALUE}${UNIT}`, 'gi')
+
+const FIELD_KEYWORDS: Array<{ field: RangeField; pattern: RegExp }> = [
+  { field: 'vocContent', pattern: /\bvoc\b/i },
+  { field: 'potLife', pattern: /\bpot\s*life\b|\bworking\s*time\b/i },
+  { field: 'cureTime', pattern: /\bcur(e|es|ing)(\s*time)?\b|\bdry\b/i },
+  { field: 'cureTemperature', pattern: /\bcur(e|es|ing)(\s*temp(erature)?)?\b/i },
+  { field: 'coverage', pattern: /coverage|spread(ing)?\s*rate/i },
+  { field: 'serviceTemperature', pattern: /\b(service\s*)?temp(erature)?s?\b|\bheat\b/i }
+]
+
+function fieldForUnit(unit: string | undefined): RangeField[] | null {
+  if (!unit) return null
+  const lower = unit.toLowerCase()
+  if (/g\s*\/\s*l|lbs?\s*\/\s*gal/.test(lower)) return ['vocContent']
+  if (/ft|m²|m2/.test(lower)) return ['coverage']
+  if (/°|º|deg/.test(lower)) return ['serviceTemperature', 'cureTemperature']
+  return ['potLife', 'cureTime']
+}
+
+// The field a constraint applies to comes from its unit, narrowed by the
+// nearest keyword ("pot life", "cure", "VOC") in the surrounding text
+function resolveField(query: string, index: number, length: number, unit: string | undefined): RangeField | null {
+  const candidates = fieldForUnit(unit) || RANGE_FIELDS
+  const before = query.slice(Math.max(0, index - 40), index)
+  const after = query.slice(index + length, index + length + 25)
+
+  const byKeyword = (text: string) => FIELD_KEYWORDS.find(({ field, pattern }) =>
+    candidates.includes(field) && pattern.test(text)
+  )?.field
+
+  const field = byKeyword(query.slice(index, index + length)) || byKeyword(before) || byKeyword(after)
+  if (field) return field
+  // Without a keyword, a duration is a pot life and a temperature a service temperature
+  return candidates.length <= 2 ? candidates[0] : null
+}
+
+function toCanonical(field: RangeField, value: string, unit: string | undefined): number | null {
+  const text = `${value} ${unit || ''}`.trim()
+  switch (field) {
+    case 'vocContent':
+      return parseVoc(text)?.value ?? null
+    case 'coverage':
+      return parseCoverage(text)?.value ?? null
+    case 'serviceTemperature':
+    case 'cureTemperature': {
+      const range = parseTemperatureRange(unit ? text : `${value}°F`)
+      return range?.min ?? range?.max ?? null
+    }
+    default:
+      return parseDuration(unit ? text : `${value} hours`)?.value ?? null
+  }
+}
+
+export function extractSpecFilters(query: string): ExtractedSpecFilters {
+  const filters: SpecRangeFilters = {}
+  let remainingQuery = query
+
+  const addBound = (field: RangeField, key: keyof RangeBounds, value: number | null) => {
+    if (value === null || !Number.isFinite(value)) return
+    filters[field] = { ...filters[field], [key]: value }
+  }
+
+  Array.from(query.matchAll(BETWEEN_PATTERN)).forEach(match => {
+    const unit = match[4] || match[2]
+    const field = resolveField(query, match.index || 0, match[0].length, unit)
+    if (!field) return
+    addBound(field, 'gte', toCanonical(field, match[1], match[2] || unit))
+    addBound(field, 'lte', toCanonical(field, match[3], unit))
+    remainingQuery = remainingQuery.replace(match[0], ' ')
+  })
+
+  const text = remainingQuery
+  Array.from(text.matchAll(COMPARISON_PATTERN)).forEach(match => {
+    const unit = match[4]
+    const field = resolveField(text, match.index || 0, match[0].length, unit)
+    if (!field) return
+
+    const operator = match[1].toLowerCase()
+    const isLess = new RegExp(`^(${LESS_THAN})$`, 'i').test(operator)
+    const inclusive = /=|≤|≥|at most|at least|no more|no less|max|min|up to/.test(operator)
+    const key: keyof RangeBounds = isLess ? (inclusive ? 'lte' : 'lt') : (inclusive ? 'gte' : 'gt')
+
+    addBound(field, key, toCanonical(field, match[3], unit))
+    remainingQuery = remainingQuery.replace(match[0], ' ')
+  })
+
+  // The names of constrained fields ("VOC", "pot life") describe the filter,
+  // not the products, so they are dropped from the search text as well
+  FIELD_KEYWORDS.forEach(({ field, pattern }) => {
+    if (filters[field]) remainingQuery = remainingQuery.replace(new RegExp(pattern.source, 'gi'), ' ')
+  })
+
+  return {
+    filters,
+    remainingQuery: remainingQuery.replace(/\s+/g, ' ').trim()
+  }
+}
@@ -0,0 +1,315 @@
+import {
+  UnitSystem,
+  celsiusToFahrenheit,
+  fahrenheitToCelsius,
+  gramsPerLiterToPoundsPerGallon,
+  poundsPerGallonToGramsPerLiter,
+  round,
+  squareFeetPerGallonToSquareMetersPerLiter,
+  squareMetersPerLiterToSquareFeetPerGallon
+} from '@/lib/units'
+import { CoatingSpecs } from './product'
+
+// ============================================================================
+// PARSED SPEC TYPES
+// ============================================================================
+
+// Every quantity is stored in one canonical unit per field so products can be
+// sorted and compared regardless of how the source text was written
+export type QuantityUnit = 'hours' | 'g/L' | 'ft²/gal'
+
+export interface Quantity {
+  value: number
+  // Upper end when the source states a range ("6-8 hrs")
+  max?: number
+  unit: QuantityUnit
+  // Set when the source only states a limit ("< 25 g/L")
+  bound?: 'upper' | 'lower'
+  // Test temperature in °F ("4 hours at 77°F")
+  atTemperature?: number
+}
+
+export interface MixRatio {
+  parts: number[]
+  basis: 'volume' | 'weight' | 'unspecified'
+}
+
+export interface TemperatureRange {
+  // °F; either end may be missing ("up to 350°F")
+  min?: number
+  max?: number
+  context: 'service' | 'application'
+}
+
+export interface ParsedSpecs {
+  potLife?: Quantity
+  cureTime?: Quantity
+  vocContent?: Quantity
+  coverage?: Quantity
+  mixRatio?: MixRatio
+  temperatureRange?: TemperatureRange
+}
+
+export type ParsedSpecField = keyof ParsedSpecs
+
+export const PARSED_SPEC_FIELDS: ParsedSpecField[] = [
+  'potLife', 'cureTime', 'vocContent', 'coverage', 'mixRatio', 'temperatureRange'
+]
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const HOURS_PER_UNIT: Record<string, number> = {
+  min: 1 / 60,
+  h: 1,
+  d: 24,
+  wk: 168
+}
+
+function toNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ''))
+}
+
+function fahrenheit(value: number, scale: string): number {
+  return scale.toUpperCase() === 'C' ? celsiusToFahrenheit(value) : value
+}
+
+function durationUnit(unit: string): string {
+  const lower = unit.toLowerCase()
+  if (lower.startsWith('m')) return 'min'
+  if (lower.startsWith('d')) return 'd'
+  if (lower.startsWith('w')) return 'wk'
+  return 'h'
+}
+
+function detectBound(text: string): Quantity['bound'] {
+  if (/<|≤|less than|below|under|up to|max(imum)?\b/i.test(text)) return 'upper'
+  if (/>|≥|more than|above|over|at least|min(imum)?\b/i.test(text)) return 'lower'
+  return undefined
+}
+
+const NUMBER = '(\\d[\\d,]*(?:\\.\\d+)?)'
+const RANGE_SEPARATOR = '\\s*(?:-|–|to)\\s*'
+const DURATION_PATTERN = new RegExp(
+  `${NUMBER}(?:${RANGE_SEPARATOR}${NUMBER})?\\s*(minutes?|mins?|hours?|hrs?|h|days?|d|weeks?|wks?)\\b`,
+  'gi'
+)
+const DEGREES = '\\s*(?:°|º|deg(?:rees)?\\s*)\\s*([FC])\\b'
+// A temperature or a range of them ("-65°F to 350°F", "60-90°F", "50 to 95°F").
+// A dash is a minus sign only where it doesn't follow a digit, and a lower
+// bound without a unit takes the upper bound's.
+const TEMPERATURE_PATTERN = new RegExp(
+  `(?<![\\d.])(-?\\d+(?:\\.\\d+)?)(?:(?:${DEGREES})?${RANGE_SEPARATOR}(-?\\d+(?:\\.\\d+)?))?${DEGREES}`,
+  'gi'
+)
+const VOC_PATTERN = new RegExp(`${NUMBER}\\s*(g\\s*/\\s*l|lbs?\\s*/\\s*gal)?`, 'gi')
+
+// ============================================================================
+// FIELD PARSERS
+// ============================================================================
+
+interface DurationMatch {
+  index: number
+  quantity: Quantity
+}
+
+function findDurations(text: string): DurationMatch[] {
+  return Array.from(text.matchAll(DURATION_PATTERN)).map(match => {
+    const factor = HOURS_PER_UNIT[durationUnit(match[3])]
+    const quantity: Quantity = { value: round(toNumber(match[1]) * factor, 2), unit: 'hours' }
+    if (match[2]) quantity.max = round(toNumber(match[2]) * factor, 2)
+    return { index: match.index || 0, quantity }
+  })
+}
+
+function findTestTemperature(text: string): number | undefined {
+  const match = text.match(/\bat\s+(-?\d+(?:\.\d+)?)\s*(?:°|º|deg(?:rees)?\s*)\s*([FC])\b/i)
+  return match ? fahrenheit(parseFloat(match[1]), match[2]) : undefined
+}
+
+export function parseDuration(text: string): Quantity | null {
+  const durations = findDurations(text)
+  if (durations.length === 0) return null
+
+  const quantity = { ...durations[0].quantity }
+  const bound = detectBound(text.slice(0, durations[0].index))
+  if (bound) quantity.bound = bound
+
+  const atTemperature = findTestTemperature(text)
+  if (atTemperature !== undefined) quantity.atTemperature = atTemperature
+
+  return quantity
+}
+
+// Cure time strings list several stages ("Tack free 2 hrs, full cure 7 days");
+// the full cure stage is the one products are compared on, otherwise the
+// longest stage stated
+export function parseCureTime(text: string): Quantity | null {
+  const durations = findDurations(text)
+  if (durations.length === 0) return null
+
+  const fullCureIndex = text.search(/full(y)?\s*cure/i)
+  const fullCure = fullCureIndex >= 0
+    ? durations.find(d => d.index > fullCureIndex)
+    : undefined
+
+  const chosen = fullCure || durations.reduce((longest, d) =>
+    (d.quantity.max ?? d.quantity.value) > (longest.quantity.max ?? longest.quantity.value) ? d : longest
+  )
+
+  const quantity = { ...chosen.quantity }
+  const atTemperature = findTestTemperature(text)
+  if (atTemperature !== undefined) quantity.atTemperature = atTemperature
+
+  return quantity
+}
+
+// Labels carry numbers of their own ("EPA Method 24: 420 g/L"), so the first
+// number with a VOC unit wins over a bare one
+export function parseVoc(text: string): Quantity | null {
+  const matches = Array.from(text.matchAll(VOC_PATTERN))
+  const match = matches.find(m => m[2]) || matches[0]
+  if (!match) return null
+
+  let value = toNumber(match[1])
+  if (match[2] && /lb/i.test(match[2])) {
+    value = poundsPerGallonToGramsPerLiter(value)
+  }
+
+  const quantity: Quantity = { value, unit: 'g/L' }
+  const bound = detectBound(text.slice(0, match.index))
+  if (bound) quantity.bound = bound
+
+  return quantity
+}
+
+// Bare numbers are ft²/gal, the unit the coverage column is named for
+export function parseCoverage(text: string): Quantity | null {
+  const match = text.match(new RegExp(`${NUMBER}\\s*(ft²\\s*/\\s*gal|ft2\\s*/\\s*gal|sq\\.?\\s*ft\\s*/\\s*gal|m²\\s*/\\s*l|m2\\s*/\\s*l)?`, 'i'))
+  if (!match) return null
+
+  let value = toNumber(match[1])
+  if (match[2] && /^m/i.test(match[2])) {
+    value = squareMetersPerLiterToSquareFeetPerGallon(value)
+  }
+
+  return { value, unit: 'ft²/gal' }
+}
+
+export function parseMixRatio(text: string): MixRatio | null {
+  const match = text.match(/\d+(?:\.\d+)?(?:\s*:\s*\d+(?:\.\d+)?)+/)
+  if (!match) return null
+
+  const basis: MixRatio['basis'] = /weight|\bwt\b|\bpbw\b/i.test(text)
+    ? 'weight'
+    : /volume|\bvol\b|\bpbv\b/i.test(text)
+      ? 'volume'
+      : 'unspecified'
+
+  return {
+    parts: match[0].split(':').map(part => parseFloat(part)),
+    basis
+  }
+}
+
+export function parseTemperatureRange(text: string): TemperatureRange | null {
+  const temperatures = Array.from(text.matchAll(TEMPERATURE_PATTERN)).flatMap(match => {
+    const scale = match[4]
+    const low = fahrenheit(parseFloat(match[1]), match[2] || scale)
+    return match[3] === undefined ? [low] : [low, fahrenheit(parseFloat(match[3]), scale)]
+  })
+  if (temperatures.length === 0) return null
+
+  const range: TemperatureRange = {
+    context: /appl/i.test(text) ? 'application' : 'service'
+  }
+
+  if (temperatures.length >= 2) {
+    range.min = Math.min(...temperatures)
+    range.max = Math.max(...temperatures)
+  } else {
+    const bound = detectBound(text)
+    if (bound !== 'lower') range.max = temperatures[0]
+    if (bound !== 'upper') range.min = temperatures[0]
+  }
+
+  return range
+}
+
+export function parseSpecs(specs: CoatingSpecs): ParsedSpecs {
+  const parsed: ParsedSpecs = {}
+
+  const potLife = specs.potLife && parseDuration(specs.potLife)
+  if (potLife) parsed.potLife = potLife
+
+  const cureTime = specs.cureTime && parseCureTime(specs.cureTime)
+  if (cureTime) parsed.cureTime = cureTime
+
+  const vocContent = specs.vocContent && parseVoc(specs.vocContent)
+  if (vocContent) parsed.vocContent = vocContent
+
+  const coverage = specs.coverage && parseCoverage(specs.coverage)
+  if (coverage) parsed.coverage = coverage
+
+  const mixRatio = specs.mixRatio && parseMixRatio(specs.mixRatio)
+  if (mixRatio) parsed.mixRatio = mixRatio
+
+  const temperatureRange = specs.temperatureRange && parseTemperatureRange(specs.temperatureRange)
+  if (temperatureRange) parsed.temperatureRange = temperatureRange
+
+  return parsed
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+// Quantities are stored in canonical units; `units` renders them in the
+// requested system instead
+function convertQuantityValue(value: number, unit: QuantityUnit, units?: UnitSystem | null): { value: number; unit: string } {
+  if (unit === 'g/L' && units === 'imperial') return { value: gramsPerLiterToPoundsPerGallon(value), unit: 'lb/gal' }
+  if (unit === 'ft²/gal' && units === 'metric') return { value: squareFeetPerGallonToSquareMetersPerLiter(value), unit: 'm²/L' }
+  return { value, unit }
+}
+
+function formatTemperature(fahrenheit: number, units?: UnitSystem | null): string {
+  return units === 'metric' ? `${fahrenheitToCelsius(fahrenheit)}°C` : `${fahrenheit}°F`
+}
+
+export function formatQuantity(quantity: Quantity, units?: UnitSystem | null): string {
+  const prefix = quantity.bound === 'upper' ? '≤ ' : quantity.bound === 'lower' ? '≥ ' : ''
+  const low = convertQuantityValue(quantity.value, quantity.unit, units)
+  const value = quantity.max !== undefined
+    ? `${round(low.value, 2)}-${round(convertQuantityValue(quantity.max, quantity.unit, units).value, 2)}`
+    : `${round(low.value, 2)}`
+  return `${prefix}${value} ${low.unit}`
+}
+
+export function formatMixRatio(ratio: MixRatio): string {
+  const parts = ratio.parts.join(':')
+  return ratio.basis === 'unspecified' ? parts : `${parts} by ${ratio.basis}`
+}
+
+export function formatTemperatureRange(range: TemperatureRange, units?: UnitSystem | null): string {
+  if (range.min !== undefined && range.max !== undefined) {
+    return range.min === range.max
+      ? formatTemperature(range.min, units)
+      : `${formatTemperature(range.min, units)} to ${formatTemperature(range.max, units)}`
+  }
+  if (range.max !== undefined) return `up to ${formatTemperature(range.max, units)}`
+  return `${formatTemperature(range.min!, units)} and above`
+}
+
+export function formatParsedSpec(parsed: ParsedSpecs, field: ParsedSpecField, units?: UnitSystem | null): string | null {
+  switch (field) {
+    case 'mixRatio':
+      return parsed.mixRatio ? formatMixRatio(parsed.mixRatio) : null
+    case 'temperatureRange':
+      return parsed.temperatureRange ? formatTemperatureRange(parsed.temperatureRange, units) : null
+    default: {
+      const quantity = parsed[field]
+      return quantity ? formatQuantity(quantity, units) : null
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { CoatingProduct, CORE_COLUMNS, CoreField, SPEC_COLUMNS, SPEC_LABELS, SpecField } from './product'
+import { CREATED_AT_COLUMN, CatalogRepository, EMBEDDING_COLUMN, ProductRecord, UPDATED_AT_COLUMN } from './repository'
+import { CatalogSnapshot, SNAPSHOT_COLUMNS } from './snapshot'
+
+// ============================================================================
+// STATISTICS TYPES
+// ============================================================================
+
+// The specs a product sheet is expected to state; products without them are
+// listed so they can be filled in
+export const KEY_SPEC_FIELDS: SpecField[] = ['potLife', 'vocContent', 'mixRatio']
+
+export interface FillRate {
+  // Raw column name, or canonical field for the normalised fields
+  field: string
+  label: string
+  filled: number
+  missing: number
+  // 0-1 share of products with a value
+  rate: number
+}
+
+export interface ProductGap {
+  sku: string | null
+  name: string | null
+  family: string | null
+  productType: string | null
+  missing: string[]
+}
+
+export interface DistributionEntry {
+  // Null for products without a family or type
+  value: string | null
+  count: number
+  share: number
+  // Products in the group missing at least one key spec
+  missingKeySpecs: number
+}
+
+export interface CatalogStatistics {
+  totalProducts: number
+  fillRates: {
+    // Columns as stored in the coatings table
+    columns: FillRate[]
+    // Canonical fields after normalisation, which also picks up values held
+    // in all_attributes or under alias columns
+    fields: FillRate[]
+  }
+  missingEmbeddings: {
+    count: number
+    products: ProductGap[]
+  }
+  missingKeySpecs: {
+    fields: SpecField[]
+    // Products missing any of the key specs
+    count: number
+    byField: Partial<Record<SpecField, number>>
+    products: ProductGap[]
+  }
+  distribution: {
+    family: DistributionEntry[]
+    productType: DistributionEntry[]
+  }
+  ingest: {
+    firstCreatedAt: string | null
+    lastCreatedAt: string | null
+    lastUpdatedAt: string | null
+    snapshotLoadedAt: string
+    snapshotRefreshedAt: string
+  }
+}
+
+export interface CatalogStatisticsOptions {
+  // Most products listed per gap; the counts always cover the whole catalog
+  limit?: number
+}
+
+const DEFAULT_GAP_LIMIT = 100
+
+// Timestamps say when a row was written, not what it holds
+const UNMEASURED_COLUMNS = [CREATED_AT_COLUMN, UPDATED_AT_COLUMN]
+
+const CORE_LABELS: Record<CoreField, string> = {
+  sku: 'SKU',
+  name: 'Name',
+  description: 'Description',
+  family: 'Family',
+  productType: 'Product Type',
+  productModel: 'Product Model'
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hasValue(value: unknown): boolean {
+  if (value === null || value === undefined) return false
+  if (typeof value === 'string') return value.trim() !== '' && value.trim() !== '{}'
+  if (typeof value === 'object') return Object.keys(value as object).length > 0
+  return true
+}
+
+function fillRate(field: string, label: string, filled: number, total: number): FillRate {
+  return {
+    field,
+    label,
+    filled,
+    missing: total - filled,
+    rate: total > 0 ? Math.round((filled / total) * 1000) / 1000 : 0
+  }
+}
+
+function gapOf(product: CoatingProduct, missing: string[]): ProductGap {
+  return {
+    sku: product.sku || null,
+    name: product.name || null,
+    family: product.family || null,
+    productType: product.productType || null,
+    missing
+  }
+}
+
+function missingKeySpecs(product: CoatingProduct): SpecField[] {
+  return KEY_SPEC_FIELDS.filter(field => !hasValue(product.specs[field]))
+}
+
+// Largest groups first, the unassigned group last
+function distributionOf(products: CoatingProduct[], field: 'family' | 'productType'): DistributionEntry[] {
+  const groups = new Map<string | null, DistributionEntry>()
+
+  products.forEach(product => {
+    const value = product[field] || null
+    const entry = groups.get(value) || { value, count: 0, share: 0, missingKeySpecs: 0 }
+    entry.count++
+    if (missingKeySpecs(product).length > 0) entry.missingKeySpecs++
+    groups.set(value, entry)
+  })
+
+  return Array.from(groups.values())
+    .map(entry => ({ ...entry, share: Math.round((entry.count / products.length) * 1000) / 1000 }))
+    .sort((a, b) => {
+      if ((a.value === null) !== (b.value === null)) return a.value === null ? 1 : -1
+      return b.count - a.count || String(a.value).localeCompare(String(b.value))
+    })
+}
+
+function timestampRange(rows: ProductRecord[], column: string): { first: string | null; last: string | null } {
+  let first: string | null = null
+  let last: string | null = null
+
+  rows.forEach(row => {
+    const value = row[column]
+    if (!value || isNaN(new Date(value).getTime())) return
+    const time = new Date(value).getTime()
+    if (!first || time < new Date(first).getTime()) first = String(value)
+    if (!last || time > new Date(last).getTime()) last = String(value)
+  })
+
+  return { first, last }
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+// Everything except the embeddings comes from the snapshot; the embedding
+// vectors are too large to cache, so their gaps are counted by the catalog
+export async function computeCatalogStatistics(
+  snapshot: CatalogSnapshot,
+  repository: CatalogRepository,
+  options: CatalogStatisticsOptions = {}
+): Promise<CatalogStatistics> {
+  const limit = options.limit ?? DEFAULT_GAP_LIMIT
+  const { rows, products } = snapshot
+  const total = rows.length
+
+  const columns = SNAPSHOT_COLUMNS.split(',')
+    .map(column => column.trim())
+    .filter(column => !UNMEASURED_COLUMNS.includes(column))
+    .map(column => fillRate(column, column, rows.filter(row => hasValue(row[column])).length, total))
+
+  const coreFields = Object.keys(CORE_COLUMNS) as CoreField[]
+  const specFields = Object.keys(SPEC_COLUMNS) as SpecField[]
+  const fields = [
+    ...coreFields.map(field => fillRate(field, CORE_LABELS[field], products.filter(p => hasValue(p[field])).length, total)),
+    ...specFields.map(field => fillRate(field, SPEC_LABELS[field], products.filter(p => hasValue(p.specs[field])).length, total))
+  ]
+
+  const byField: Partial<Record<SpecField, number>> = {}
+  const specGaps: ProductGap[] = []
+  let missingAny = 0
+
+  products.forEach(product => {
+    const missing = missingKeySpecs(product)
+    if (missing.length === 0) return
+    missingAny++
+    missing.forEach(field => {
+      byField[field] = (byField[field] || 0) + 1
+    })
+    if (specGaps.length < limit) specGaps.push(gapOf(product, missing.map(field => SPEC_LABELS[field])))
+  })
+
+  const embeddingGaps = await repository.findMissing(
+    EMBEDDING_COLUMN,
+    [CORE_COLUMNS.sku, CORE_COLUMNS.name, CORE_COLUMNS.family, CORE_COLUMNS.productType].join(', '),
+    limit
+  )
+
+  const created = timestampRange(rows, CREATED_AT_COLUMN)
+  const updated = timestampRange(rows, UPDATED_AT_COLUMN)
+
+  return {
+    totalProducts: total,
+    fillRates: { columns, fields },
+    missingEmbeddings: {
+      count: embeddingGaps.count,
+      products: embeddingGaps.rows.map(row => ({
+        sku: row[CORE_COLUMNS.sku] || null,
+        name: row[CORE_COLUMNS.name] || null,
+        family: row[CORE_COLUMNS.family] || null,
+        productType: row[CORE_COLUMNS.productType] || null,
+        missing: ['Embedding']
+      }))
+    },
+    missingKeySpecs: {
+      fields: KEY_SPEC_FIELDS,
+      count: missingAny,
+      byField,
+      products: specGaps
+    },
+    distribution: {
+      family: distributionOf(products, 'family'),
+      productType: distributionOf(products, 'productType')
+    },
+    ingest: {
+      firstCreatedAt: created.first,
+      lastCreatedAt: created.last,
+      lastUpdatedAt: updated.last,
+      snapshotLoadedAt: snapshot.loadedAt.toISOString(),
+      snapshotRefreshedAt: snapshot.refreshedAt.toISOString()
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  CatalogFilters,
+  CatalogRepository,
+  EmbeddingMatchOptions,
+  ProductRecord,
+  UPDATED_AT_COLUMN,
+  activeFilterEntries
+} from './repository'
+
+const TABLE_NAME = 'coatings'
+const BATCH_SIZE = 1000
+// PostgREST's answer when no function matches the arguments given
+const FUNCTION_NOT_FOUND = 'PGRST202'
+// Neighbours fetched per requested match when filtering after the RPC
+const UNFILTERED_OVERFETCH = 5
+
+export function createSupabaseCatalogRepository(client: SupabaseClient): CatalogRepository {
+  function applyFilters(query: any, filters?: CatalogFilters): any {
+    activeFilterEntries(filters).forEach(([column, value]) => {
+      query = query.eq(column, value)
+    })
+    return query
+  }
+
+  async function count(filters?: CatalogFilters): Promise<number> {
+    const { count: totalCount, error } = await applyFilters(
+      client.from(TABLE_NAME).select('*', { count: 'exact', head: true }),
+      filters
+    )
+
+    if (error) {
+      console.error('❌ Error counting rows:', error)
+      throw error
+    }
+
+    return totalCount || 0
+  }
+
+  async function fetchAll(columns: string): Promise<ProductRecord[]> {
+    const totalCount = await count()
+    const totalBatches = Math.ceil(totalCount / BATCH_SIZE)
+
+    console.log(`📊 Fetching ${totalBatches} batches of ${BATCH_SIZE} rows (${totalCount} total)...`)
+
+    const allData: ProductRecord[] = []
+
+    for (let i = 0; i < totalBatches; i++) {
+      const from = i * BATCH_SIZE
+      const to = from + BATCH_SIZE - 1
+
+      const { data, error } = await client
+        .from(TABLE_NAME)
+        .select(columns)
+        .range(from, to)
+
+      if (error) {
+        console.error(`❌ Error fetching batch ${i + 1}:`, error)
+        throw error
+      }
+
+      if (data) {
+        allData.push(...(data as unknown as ProductRecord[]))
+      }
+
+      if ((i + 1) % 10 === 0 || i === totalBatches - 1) {
+        console.log(`   ✅ Batch ${i + 1}/${totalBatches} (total: ${allData.length})`)
+      }
+    }
+
+    return allData
+  }
+
+  // The total isn't known up front, so batches are read until one comes back short
+  async function fetchChangedSince(since: string, columns: string): Promise<ProductRecord[]> {
+    const changed: ProductRecord[] = []
+
+    for (let from = 0; ; from += BATCH_SIZE) {
+      const { data, error } = await client
+        .from(TABLE_NAME)
+        .select(columns)
+        .gte(UPDATED_AT_COLUMN, since)
+        .order(UPDATED_AT_COLUMN, { ascending: true })
+        .range(from, from + BATCH_SIZE - 1)
+
+      if (error) {
+        console.error('❌ Error fetching changed rows:', error)
+        throw error
+      }
+
+      const rows = (data || []) as unknown as ProductRecord[]
+      changed.push(...rows)
+      if (rows.length < BATCH_SIZE) break
+    }
+
+    return changed
+  }
+
+  async function findByFilters(filters: CatalogFilters, limit: number): Promise<ProductRecord[]> {
+    const { data, error } = await applyFilters(client.from(TABLE_NAME).select('*'), filters).limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  async function findWhere(column: string, value: string, limit: number = 1000, filters?: CatalogFilters): Promise<ProductRecord[]> {
+    const { data, error } = await applyFilters(
+      client.from(TABLE_NAME).select('*').eq(column, value),
+      filters
+    ).limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  async function findWhereIn(column: string, values: string[], limit?: number, filters?: CatalogFilters): Promise<ProductRecord[]> {
+    if (values.length === 0) return []
+
+    let query = applyFilters(
+      client.from(TABLE_NAME).select('*').in(column, values),
+      filters
+    )
+
+    if (limit) query = query.limit(limit)
+
+    const { data, error } = await query
+
+    if (error) throw error
+    return data || []
+  }
+
+  async function searchText(column: string, terms: string[], limit?: number, filters?: CatalogFilters): Promise<ProductRecord[]> {
+    if (terms.length === 0) return []
+
+    let query = applyFilters(
+      client.from(TABLE_NAME).select('*').or(terms.map(term => `${column}.ilike.%${term}%`).join(',')),
+      filters
+    )
+
+    if (limit) query = query.limit(limit)
+
+    const { data, error } = await query
+
+    if (error) throw error
+    return data || []
+  }
+
+  // match_coatings takes optional filter_family, filter_product_type and
+  // filter_product_model (null matches any), so the match count is filled
+  // from the filtered rows rather than cut down afterwards. The function is
+  // defined in supabase/migrations; a database still on the three-argument
+  // version gets an over-fetched unfiltered match, filtered here.
+  let filteredMatchSupported = true
+
+  async function matchEmbedding(embedding: number[], options: EmbeddingMatchOptions): Promise<ProductRecord[]> {
+    const filters = activeFilterEntries(options.filters)
+    const args = {
+      query_embedding: embedding,
+      match_threshold: options.threshold,
+      match_count: options.limit
+    }
+
+    if (filteredMatchSupported) {
+      const { data, error } = await client.rpc('match_coatings', {
+        ...args,
+        filter_family: options.filters?.family?.trim() || null,
+        filter_product_type: options.filters?.productType?.trim() || null,
+        filter_product_model: options.filters?.productModel?.trim() || null
+      })
+
+      if (!error) return data || []
+      if (error.code !== FUNCTION_NOT_FOUND) throw error
+
+      console.log('⚠️ match_coatings does not take filter arguments; apply the migration in supabase/migrations. Filtering matches in the app until then.')
+      filteredMatchSupported = false
+    }
+
+    const { data, error } = await client.rpc('match_coatings', {
+      ...args,
+      match_count: filters.length > 0 ? options.limit * UNFILTERED_OVERFETCH : options.limit
+    })
+
+    if (error) throw error
+    return ((data || []) as ProductRecord[])
+      .filter(row => filters.every(([column, value]) => row[column] === value))
+      .slice(0, options.limit)
+  }
+
+  async function findMissing(column: string, columns: string, limit: number): Promise<{ count: number; rows: ProductRecord[] }> {
+    const { data, count: missingCount, error } = await client
+      .from(TABLE_NAME)
+      .select(columns, { count: 'exact' })
+      .is(column, null)
+      .limit(limit)
+
+    if (error) throw error
+    return { count: missingCount || 0, rows: (data || []) as unknown as ProductRecord[] }
+  }
+
+  return {
+    source: 'supabase',
+    count,
+    fetchAll,
+    fetchChangedSince,
+    findByFilters,
+    findWhere,
+    findWhereIn,
+    searchText,
+    matchEmbedding,
+    findMissing
+  }
+}
@@ -0,0 +1,221 @@
+import { CoatingProduct, ProductRecord, localizeProducts, productDisplayName, toProductRecord } from '@/lib/catalog'
+import { ComparisonAttribute, ComparisonVerification, getLLMProvider, verifyComparison } from '@/lib/ai'
+import { UNIT_INSTRUCTIONS, UnitSystem } from '@/lib/units'
+import { ComparisonMatrix, WinnerDirection, buildComparisonMatrix } from './matrix'
+
+// ============================================================================
+// COMPARED FIELDS
+// ============================================================================
+
+export function getComparedFields(products: ProductRecord[], onlyDifferences: boolean = false): string[] {
+  if (products.length === 0) return []
+  
+  const excludeFields = ['embedding', 'created_at', 'updated_at', '_relevanceScore', '_sourceTable', 'searchable_text', 'searchabletext']
+  
+  const allKeys = new Set<string>()
+  products.forEach(product => {
+    Object.keys(product).forEach(key => {
+      if (!excludeFields.includes(key.toLowerCase())) {
+        allKeys.add(key)
+      }
+    })
+  })
+  
+  const fields = Array.from(allKeys).sort()
+  
+  // ✅ If onlyDifferences is true, filter to show only fields with different values
+  if (onlyDifferences) {
+    return fields.filter(field => {
+      // "Epoxy " and "epoxy" are the same value
+      const values = products.map(p => p[field])
+      const uniqueValues = new Set(values.map(v => String(v ?? '').replace(/\s+/g, ' ').trim().toLowerCase()))
+      return uniqueValues.size > 1 // Only keep fields where values differ
+    })
+  }
+  
+  return fields
+}
+
+// ============================================================================
+// COMPARISON ANALYSIS
+// ============================================================================
+
+export interface ComparisonAnalysis {
+  summary: string
+  // Null when the analysis was not generated by the model
+  verification: ComparisonVerification | null
+  matrix: ComparisonMatrix
+}
+
+// Helper function to format attribute names nicely
+function formatAttributeName(attr: string): string {
+  return attr
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, char => char.toUpperCase())
+}
+
+// Specification rows of the matrix, one unit per row, best values marked ✓
+function buildComparisonTable(matrix: ComparisonMatrix): string {
+  const rows = matrix.rows.filter(row => row.group === 'specification')
+  const productNames = matrix.products.map(product => product.name)
+  
+  let table = '\n## Key Specifications\n\n'
+  table += '| Specification | ' + productNames.join(' | ') + ' |\n'
+  table += '|' + Array(productNames.length + 1).fill('---').join('|') + '|\n'
+  
+  rows.forEach(row => {
+    const label = row.direction === 'none' ? row.label : `${row.label} (${row.direction} is better)`
+    const values = row.cells.map(cell => cell.display ? `${cell.display}${cell.winner ? ' ✓' : ''}` : 'N/A')
+    table += '| ' + label + ' | ' + values.join(' | ') + ' |\n'
+  })
+  
+  table += '\n'
+  
+  return table
+}
+
+// The matrix without the model's analysis, for responses that defer it
+export function comparisonWithoutAnalysis(
+  sourceProducts: CoatingProduct[],
+  units: UnitSystem | null = null,
+  directions?: Record<string, WinnerDirection>
+): ComparisonAnalysis {
+  return { summary: '', verification: null, matrix: buildComparisonMatrix(sourceProducts, { units, directions }) }
+}
+
+export async function generateComparisonAnalysis(
+  sourceProducts: CoatingProduct[],
+  query: string,
+  units: UnitSystem | null = null,
+  directions?: Record<string, WinnerDirection>
+): Promise<ComparisonAnalysis> {
+  const products = localizeProducts(sourceProducts, units)
+  const matrix = buildComparisonMatrix(sourceProducts, { units, directions })
+  
+  try {
+    const excludeFields = ['created_at', 'updated_at', '_relevanceScore']
+    const records = products.map(toProductRecord)
+    
+    const allAttributes = new Set<string>()
+    records.forEach(record => {
+      Object.keys(record).forEach(key => {
+        if (!excludeFields.includes(key.toLowerCase()) && record[key] !== null && record[key] !== undefined) {
+          allAttributes.add(key)
+        }
+      })
+    })
+    
+    const recordData: ComparisonAttribute[] = Array.from(allAttributes).map(attr => {
+      const values = records.map(r => r[attr])
+      const allSame = values.every(v => v === values[0])
+      
+      return {
+        attribute: attr,
+        values: values,
+        differs: !allSame
+      }
+    })
+    
+    // The matrix's normalised values may be quoted as well as the source text
+    const comparisonData: ComparisonAttribute[] = [
+      ...recordData,
+      ...matrix.rows.map(row => ({ attribute: row.label, values: row.cells.map(cell => cell.display), differs: row.differs }))
+    ]
+    
+    const differingAttrs = recordData.filter(item => item.differs)
+    const sameAttrs = recordData.filter(item => !item.differs)
+    
+    console.log(`📊 Comparison stats: ${differingAttrs.length} differing attributes, ${sameAttrs.length} same attributes`)
+    
+    const productSummaries = products.map((product, idx) => {
+      const name = product.name || product.family || `Product ${idx + 1}`
+      const sku = product.sku || 'N/A'
+      const family = product.family || 'N/A'
+      
+      return `**Product ${idx + 1}: ${name}**\n- SKU: ${sku}\n- Family: ${family}`
+    }).join('\n\n')
+    
+    const differencesSection = differingAttrs.length > 0 ? 
+      `\n\n### Key Differences (${differingAttrs.length} attributes differ)\n\n` +
+      differingAttrs.slice(0, 20).map(item => {
+        const attrName = formatAttributeName(item.attribute)
+        const valueComparison = products.map((p, idx) => 
+          `  - **Product ${idx + 1}:** ${item.values[idx] || 'N/A'}`
+        ).join('\n')
+        
+        return `**${attrName}:**\n${valueComparison}`
+      }).join('\n\n')
+      : '\n\n*No differences found - products are identical.*'
+    
+    const similaritiesSection = sameAttrs.length > 0 ?
+      `\n\n### Similarities (${sameAttrs.length} attributes are the same)\n\n` +
+      sameAttrs.slice(0, 15).map(item => 
+        `- **${formatAttributeName(item.attribute)}:** ${item.values[0] || 'N/A'}`
+      ).join('\n') +
+      (sameAttrs.length > 15 ? `\n- *...and ${sameAttrs.length - 15} more shared attributes*` : '')
+      : ''
+
+    const prompt = `You are comparing ${products.length} coating products. Provide a comprehensive technical comparison.
+
+${productSummaries}
+${buildComparisonTable(matrix)}
+${differencesSection}
+
+${similaritiesSection}
+
+Please provide a detailed analysis with these sections:
+
+1. **Overview**: Brief summary of what these products are and their primary purpose
+2. **Critical Differences**: Highlight the most important technical differences that would affect product selection (up to 10-15, only as many as the data above shows)
+3. **Performance Characteristics**: Compare key performance attributes (if available)
+4. **Application Recommendations**: When to use each product based on the differences
+5. **Summary**: Quick decision guide
+
+Format your response in clear markdown with bullet points. Focus on technical specifications and practical differences.
+
+Only quote values listed above. If a specification is not listed for a product, say it is not listed rather than estimating it.${units ? `\n\n${UNIT_INSTRUCTIONS[units]}` : ''}`
+
+    const content = await getLLMProvider().complete({
+      task: 'comparison',
+      query,
+      products,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a technical product comparison expert specializing in industrial coatings. Provide detailed, accurate comparisons focusing on specifications and practical differences. Always include comprehensive technical details and explain what the differences mean for end users.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.3,
+      maxTokens: 3000
+    })
+
+    // Every value the analysis quotes must come from the attributes it was given
+    const { text: analysis, verification } = verifyComparison(
+      content || 'Unable to generate comparison analysis.',
+      products,
+      comparisonData,
+      { context: [query, String(differingAttrs.length), String(sameAttrs.length)] }
+    )
+    
+    console.log(`✅ Generated comparison analysis (${analysis.length} characters)`)
+    if (!verification.verified) {
+      console.log(`⚠️ ${verification.unsupported.length} comparison statements quote values not in the product data (${verification.mode})`)
+    }
+    
+    return { summary: analysis, verification, matrix }
+
+  } catch (error) {
+    console.error('❌ Error generating comparison analysis:', error)
+    return {
+      summary: `**Comparison Analysis**\n\nComparing ${products.length} products:\n\n${
+        products.map((p, i) => `${i + 1}. ${productDisplayName(p)} (SKU: ${p.sku || 'N/A'})`).join('\n')
+      }\n\n*Detailed analysis unavailable.*`,
+      verification: null,
+      matrix
+    }
+  }
+}
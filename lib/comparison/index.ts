@@ -0,0 +1,3 @@
+export * from './analysis'
+export * from './selection'
+export * from './matrix'
@@ -0,0 +1,288 @@
+import {
+  AttributeValue,
+  CoatingProduct,
+  PARSED_SPEC_FIELDS,
+  ParsedSpecField,
+  SPEC_LABELS,
+  SpecField,
+  formatParsedSpec,
+  productDisplayName
+} from '@/lib/catalog'
+import { UnitSystem } from '@/lib/units'
+
+// ============================================================================
+// MATRIX TYPES
+// ============================================================================
+
+// Which end of a row's values is better; 'none' rows are never scored
+export type WinnerDirection = 'lower' | 'higher' | 'none'
+
+export const WINNER_DIRECTIONS: WinnerDirection[] = ['lower', 'higher', 'none']
+
+export type MatrixRowGroup = 'identity' | 'specification' | 'attribute'
+
+export interface MatrixCell {
+  // Source text as stored in the catalog
+  raw: string | null
+  // Normalised text in the matrix's unit system
+  display: string | null
+  // Comparable number in the canonical unit (hours, g/L, ft²/gal, °F, months),
+  // whatever unit `display` uses
+  value?: number
+  winner: boolean
+}
+
+export interface MatrixRow {
+  // Spec field name ("vocContent") or the aligned attribute key ("flashpoint")
+  key: string
+  label: string
+  group: MatrixRowGroup
+  // Unit every numeric cell of the row is displayed in
+  unit?: string
+  direction: WinnerDirection
+  differs: boolean
+  cells: MatrixCell[]
+}
+
+export interface MatrixProduct {
+  sku?: string
+  name: string
+  family?: string
+  productType?: string
+}
+
+export interface ComparisonMatrix {
+  products: MatrixProduct[]
+  rows: MatrixRow[]
+  units: UnitSystem | null
+  directions: Record<string, WinnerDirection>
+}
+
+export interface MatrixOptions {
+  units?: UnitSystem | null
+  // Overrides of DEFAULT_WINNER_DIRECTIONS, keyed by row key
+  directions?: Record<string, WinnerDirection>
+}
+
+// Lower VOC and faster cure win; longer pot life, shelf life and coverage win
+export const DEFAULT_WINNER_DIRECTIONS: Record<string, WinnerDirection> = {
+  vocContent: 'lower',
+  cureTime: 'lower',
+  potLife: 'higher',
+  shelfLife: 'higher',
+  coverage: 'higher'
+}
+
+const SPEC_ORDER: SpecField[] = [
+  'mixRatio', 'potLife', 'cureTime', 'vocContent', 'coverage', 'temperatureRange',
+  'shelfLife', 'color', 'gloss', 'applicationMethod', 'specification'
+]
+
+const IDENTITY_ROWS: Array<{ key: 'sku' | 'family' | 'productType' | 'productModel' | 'description'; label: string }> = [
+  { key: 'sku', label: 'SKU' },
+  { key: 'family', label: 'Family' },
+  { key: 'productType', label: 'Product Type' },
+  { key: 'productModel', label: 'Product Model' },
+  { key: 'description', label: 'Description' }
+]
+
+const EXCLUDED_ATTRIBUTES = ['createdat', 'updatedat', 'relevancescore', 'sourcetable', 'embedding', 'searchabletext']
+
+const VALUE_EPSILON = 1e-6
+
+// ============================================================================
+// DIRECTIONS
+// ============================================================================
+
+function parseDirection(value: unknown): WinnerDirection | null {
+  return typeof value === 'string' && WINNER_DIRECTIONS.includes(value as WinnerDirection)
+    ? value as WinnerDirection
+    : null
+}
+
+// COMPARISON_WINNER_DIRECTIONS ("vocContent:lower,gloss:higher") adjusts the
+// defaults; `input` (a request body's `directions`) is applied last
+export function resolveWinnerDirections(input?: unknown): Record<string, WinnerDirection> {
+  const directions = { ...DEFAULT_WINNER_DIRECTIONS }
+
+  ;(process.env.COMPARISON_WINNER_DIRECTIONS || '').split(',').forEach(pair => {
+    const [key, value] = pair.split(':').map(part => part?.trim())
+    const direction = parseDirection(value)
+    if (key && direction) directions[key] = direction
+  })
+
+  if (input && typeof input === 'object') {
+    Object.entries(input as Record<string, unknown>).forEach(([key, value]) => {
+      const direction = parseDirection(value)
+      if (direction) directions[key] = direction
+    })
+  }
+
+  return directions
+}
+
+// ============================================================================
+// CELL VALUES
+// ============================================================================
+
+function attributeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function formatLabel(name: string): string {
+  return name
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, char => char.toUpperCase())
+}
+
+// Shelf life is stated in months or years, which the spec parsers do not read
+function parseShelfLifeMonths(text: string): number | undefined {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(months?|mos?|years?|yrs?|days?)\b/i)
+  if (!match) return undefined
+  const value = parseFloat(match[1])
+  const unit = match[2].toLowerCase()
+  if (unit.startsWith('y')) return value * 12
+  if (unit.startsWith('d')) return Math.round(value / 30 * 10) / 10
+  return value
+}
+
+function quantityUnit(field: ParsedSpecField, units: UnitSystem | null): string | undefined {
+  switch (field) {
+    case 'potLife':
+    case 'cureTime':
+      return 'hours'
+    case 'vocContent':
+      return units === 'imperial' ? 'lb/gal' : 'g/L'
+    case 'coverage':
+      return units === 'metric' ? 'm²/L' : 'ft²/gal'
+    case 'temperatureRange':
+      return units === 'metric' ? '°C' : '°F'
+    default:
+      return undefined
+  }
+}
+
+function specCell(product: CoatingProduct, field: SpecField, units: UnitSystem | null): MatrixCell {
+  const raw = product.specs[field] ?? null
+  if (!raw) return { raw: null, display: null, winner: false }
+
+  if ((PARSED_SPEC_FIELDS as string[]).includes(field)) {
+    const parsedField = field as ParsedSpecField
+    const display = formatParsedSpec(product.parsedSpecs, parsedField, units)
+    if (!display) return { raw, display: raw, winner: false }
+
+    const cell: MatrixCell = { raw, display, winner: false }
+    if (parsedField === 'temperatureRange') {
+      // Ranges are compared on their upper limit, the service ceiling
+      const max = product.parsedSpecs.temperatureRange?.max
+      if (max !== undefined) cell.value = max
+    } else if (parsedField !== 'mixRatio') {
+      const quantity = product.parsedSpecs[parsedField]
+      if (quantity) cell.value = quantity.max ?? quantity.value
+    }
+    return cell
+  }
+
+  if (field === 'shelfLife') {
+    const months = parseShelfLifeMonths(raw)
+    return months !== undefined
+      ? { raw, display: `${months} months`, value: months, winner: false }
+      : { raw, display: raw, winner: false }
+  }
+
+  return { raw, display: raw, winner: false }
+}
+
+function attributeCell(value: AttributeValue | undefined): MatrixCell {
+  if (value === undefined || value === '') return { raw: null, display: null, winner: false }
+  const text = String(value)
+  return typeof value === 'number'
+    ? { raw: text, display: text, value, winner: false }
+    : { raw: text, display: text, winner: false }
+}
+
+// Marks every cell holding the best value, unless all stated values tie
+function markWinners(row: MatrixRow): void {
+  if (row.direction === 'none') return
+
+  const values = row.cells.map(cell => cell.value).filter((value): value is number => value !== undefined)
+  if (values.length < 2) return
+
+  const best = row.direction === 'lower' ? Math.min(...values) : Math.max(...values)
+  const worst = row.direction === 'lower' ? Math.max(...values) : Math.min(...values)
+  if (Math.abs(best - worst) < VALUE_EPSILON) return
+
+  row.cells.forEach(cell => {
+    cell.winner = cell.value !== undefined && Math.abs(cell.value - best) < VALUE_EPSILON
+  })
+}
+
+function makeRow(key: string, label: string, group: MatrixRowGroup, cells: MatrixCell[], directions: Record<string, WinnerDirection>, unit?: string): MatrixRow {
+  const stated = cells.map(cell => cell.display?.trim().toLowerCase() ?? '')
+  const row: MatrixRow = {
+    key,
+    label,
+    group,
+    unit,
+    direction: directions[key] || 'none',
+    differs: new Set(stated).size > 1,
+    cells
+  }
+  markWinners(row)
+  return row
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+// One row per attribute any product states. Spec columns are already aligned
+// by normalizeProduct's aliases; remaining attributes are aligned by their key
+// with case and punctuation ignored ("Flash_Point", "flash point"). Parsed
+// specs are shown in one unit per row.
+export function buildComparisonMatrix(products: CoatingProduct[], options: MatrixOptions = {}): ComparisonMatrix {
+  const units = options.units || null
+  const directions = resolveWinnerDirections(options.directions)
+  const rows: MatrixRow[] = []
+
+  IDENTITY_ROWS.forEach(({ key, label }) => {
+    const cells = products.map(product => attributeCell(product[key]))
+    if (cells.some(cell => cell.display)) rows.push(makeRow(key, label, 'identity', cells, directions))
+  })
+
+  SPEC_ORDER.forEach(field => {
+    const cells = products.map(product => specCell(product, field, units))
+    if (!cells.some(cell => cell.display)) return
+    const unit = (PARSED_SPEC_FIELDS as string[]).includes(field)
+      ? quantityUnit(field as ParsedSpecField, units)
+      : field === 'shelfLife' ? 'months' : undefined
+    rows.push(makeRow(field, SPEC_LABELS[field], 'specification', cells, directions, unit))
+  })
+
+  const aligned = new Map<string, { label: string; values: Array<AttributeValue | undefined> }>()
+  products.forEach((product, index) => {
+    Object.entries(product.attributes).forEach(([name, value]) => {
+      const key = attributeKey(name)
+      if (!key || EXCLUDED_ATTRIBUTES.includes(key)) return
+      const entry = aligned.get(key) || { label: formatLabel(name), values: products.map(() => undefined) }
+      if (entry.values[index] === undefined) entry.values[index] = value
+      aligned.set(key, entry)
+    })
+  })
+  aligned.forEach((entry, key) => {
+    rows.push(makeRow(key, entry.label, 'attribute', entry.values.map(attributeCell), directions))
+  })
+
+  return {
+    products: products.map(product => ({
+      sku: product.sku,
+      name: productDisplayName(product),
+      family: product.family,
+      productType: product.productType
+    })),
+    rows,
+    units,
+    directions
+  }
+}
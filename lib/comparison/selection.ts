@@ -0,0 +1,127 @@
+import { CoatingProduct, ProductRecord, getCatalogRepository, getCatalogSnapshot, normalizeProduct } from '@/lib/catalog'
+import { buildFuzzyVocabulary, findFuzzyMatches, normalizeTerm } from '@/lib/search'
+
+// ============================================================================
+// COMPARISON SELECTION TYPES
+// ============================================================================
+
+export const MIN_COMPARED_PRODUCTS = 2
+export const MAX_COMPARED_PRODUCTS = 8
+
+// A product that could stand in for a requested SKU that does not exist. It is
+// only compared once the user confirms it.
+export interface SubstituteCandidate {
+  sku: string
+  name?: string
+  family?: string
+  reason: 'similar-sku' | 'same-family' | 'closest-family'
+  confidence: number
+}
+
+export interface ComparisonSelection {
+  products: CoatingProduct[]
+  notFound: string[]
+  substitutes: Record<string, SubstituteCandidate[]>
+  // Requested SKUs replaced by a confirmed substitute
+  substituted: Array<{ requested: string; sku: string }>
+  // Requested SKUs whose confirmed substitute is already compared; they are
+  // also in `notFound`, so another substitute can be picked
+  duplicates: Array<{ requested: string; sku: string }>
+}
+
+const MAX_SUBSTITUTES = 3
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+// Trims, drops empties and duplicates (case-insensitively), keeping order
+export function sanitizeSkuList(input: unknown): string[] {
+  if (!Array.isArray(input)) return []
+
+  const seen = new Set<string>()
+  return input
+    .filter((sku): sku is string => typeof sku === 'string')
+    .map(sku => sku.trim())
+    .filter(sku => {
+      const key = sku.toLowerCase()
+      if (!sku || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+function findSubstitutes(requested: string, rows: ProductRecord[]): SubstituteCandidate[] {
+  const bySku = new Map(rows.filter(row => row.sku).map(row => [row.sku as string, row]))
+  const candidate = (row: ProductRecord, reason: SubstituteCandidate['reason'], confidence: number): SubstituteCandidate => ({
+    sku: row.sku,
+    name: row.Product_Name || undefined,
+    family: row.family || undefined,
+    reason,
+    confidence
+  })
+
+  // A family code ("CA8000") stands for any of its SKUs
+  const wanted = normalizeTerm(requested)
+  const sameFamily = rows
+    .filter(row => row.sku && row.family && normalizeTerm(row.family) === wanted)
+    .map(row => candidate(row, 'same-family', 1))
+
+  const similar = findFuzzyMatches(requested, buildFuzzyVocabulary(Array.from(bySku.keys())), MAX_SUBSTITUTES)
+    .map(match => candidate(bySku.get(match.value)!, 'similar-sku', match.confidence))
+
+  const unique = new Map<string, SubstituteCandidate>()
+  ;[...sameFamily, ...similar].forEach(item => {
+    if (!unique.has(item.sku)) unique.set(item.sku, item)
+  })
+  return Array.from(unique.values()).slice(0, MAX_SUBSTITUTES)
+}
+
+// Looks every SKU up, ignoring case like sanitizeSkuList. A SKU that does not
+// exist is never replaced silently: it is reported with substitute
+// candidates, and only a substitute named in `substitutions` (requested SKU ->
+// chosen SKU) is compared instead. SKU casing and substitutes come from the
+// shared catalog snapshot. A catalog error is thrown, not reported as a
+// missing SKU.
+export async function resolveComparisonSkus(
+  skus: string[],
+  substitutions: Record<string, string> = {}
+): Promise<ComparisonSelection> {
+  const catalog = getCatalogRepository()
+  const catalogRows = (await getCatalogSnapshot()).rows
+  const catalogSkus = new Map<string, string>(
+    catalogRows.filter(row => row.sku).map(row => [String(row.sku).toLowerCase(), row.sku])
+  )
+  const selection: ComparisonSelection = { products: [], notFound: [], substitutes: {}, substituted: [], duplicates: [] }
+  const compared = new Set<string>()
+
+  for (const requested of skus) {
+    const confirmed = substitutions[requested]
+    const wanted = (confirmed || requested).trim()
+    const sku = catalogSkus.get(wanted.toLowerCase()) || wanted
+
+    const rows = await catalog.findWhere('sku', sku, 1)
+    const row = rows[0]
+
+    if (row && !compared.has(String(row.sku).toLowerCase())) {
+      compared.add(String(row.sku).toLowerCase())
+      selection.products.push(normalizeProduct(row).product)
+      if (confirmed) selection.substituted.push({ requested, sku: row.sku })
+      continue
+    }
+
+    if (row) {
+      console.log(`  ⚠️ ${requested} resolves to ${row.sku}, which is already compared`)
+      selection.duplicates.push({ requested, sku: row.sku })
+    } else {
+      console.log(`  ❌ No product with SKU ${sku}`)
+    }
+    selection.notFound.push(requested)
+
+    const candidates = findSubstitutes(requested, catalogRows)
+      .filter(candidate => !compared.has(candidate.sku.toLowerCase()))
+    if (candidates.length > 0) selection.substitutes[requested] = candidates
+  }
+
+  return selection
+}
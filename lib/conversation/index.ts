@@ -0,0 +1,2 @@
+export * from './session'
+export * from './resolve'
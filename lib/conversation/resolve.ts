@@ -0,0 +1,204 @@
+import { ConversationSession, ConversationTurn, TurnProduct } from './session'
+
+// ============================================================================
+// FOLLOW-UP RESOLUTION TYPES
+// ============================================================================
+
+export type ResolutionKind = 'descriptor' | 'ordinal' | 'pronoun' | 'ellipsis' | 'substitution' | 'refinement'
+
+export interface QueryResolution {
+  original: string
+  // The self-contained query the search pipeline runs
+  query: string
+  resolved: boolean
+  kind?: ResolutionKind
+  // Products from earlier turns the follow-up referred to
+  referents: TurnProduct[]
+  // The turn the follow-up was resolved against; its filters carry over
+  previous?: ConversationTurn
+}
+
+// Plural references resolve to at most this many earlier results
+const MAX_REFERENTS = 3
+// Only this many turns back are searched for something to refer to
+const LOOKBACK_TURNS = 3
+
+const PRODUCT_CODE = /\b[a-z]{0,4}[\s-]?\d{2,}[a-z0-9]*(?:[\/-][a-z0-9]+)*\b/gi
+// Spec designations look like product codes ("MIL-PRF-23377") but name none
+const SPEC_REFERENCE = /\b(?:mil|ams|astm|iso|tt|dod)(?:-[a-z0-9]+)+/gi
+// Coating categories a question can be about. "these primers" and "the
+// coating" still point back at earlier results.
+const SUBJECT_TERM = /(?<!\b(?:this|that|these|those|both|the|its?)\s+)\b(?:primers?|top ?coats?|base ?coats?|clear ?coats?|coatings?|sealants?|sealers?|paints?|enamels?|lacquers?|adhesives?)\b/i
+
+const ORDINALS: Record<string, number> = {
+  first: 0, '1st': 0,
+  second: 1, '2nd': 1,
+  third: 2, '3rd': 2,
+  fourth: 3, '4th': 3,
+  fifth: 4, '5th': 4
+}
+
+const PLURAL_REFERENCE = /\b(all of (?:them|those|these)|both of them|these products|those products|them|these|those|they|both)\b/i
+const SINGULAR_REFERENCE = /\b(this product|that product|this one|that one|it)\b/i
+const POSSESSIVE_REFERENCE = /\bits\b/i
+// "the chromate-free one", "the second one", "the white ones"
+const DESCRIPTOR_REFERENCE = /\bthe\s+((?:[\w-]+\s+){0,3}?)(ones?|products?|versions?)\b/i
+// "the first product" points back, but "the white products" asks for new ones
+const DESCRIPTOR_NOUN = /^(?:ones?|versions?)$/i
+const ELLIPSIS = /^\s*(?:and\s+)?(?:what|how)\s+about\s+(.+?)\s*\??\s*$|^\s*and\s+(?:the\s+)?(.+?)\s*\?\s*$/i
+const REFINEMENT = /^\s*(?:only|just)\s+(?:the\s+)?(?:ones?\s+|products?\s+)?(?:that\s+are\s+|with\s+)?(.+?)\s*\??\s*$/i
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function productLabel(product: TurnProduct): string {
+  return product.sku || product.name || product.family || ''
+}
+
+function joinLabels(products: TurnProduct[]): string {
+  const labels = products.map(productLabel).filter(Boolean)
+  return labels.length <= 2
+    ? labels.join(' and ')
+    : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function findPreviousTurn(session: ConversationSession | null): ConversationTurn | undefined {
+  return session?.turns.slice(-LOOKBACK_TURNS).reverse().find(turn => turn.products.length > 0)
+}
+
+function productCodes(text: string): string[] {
+  return (text.match(PRODUCT_CODE) || []).map(code => code.trim())
+}
+
+// A query that names products or a category of its own ("primer for both
+// aluminum and steel") is a new question, whatever pronouns it uses. A
+// product code has letters and digits; a bare number is a quantity.
+function hasOwnSubject(text: string): boolean {
+  const codes = productCodes(text.replace(SPEC_REFERENCE, ' '))
+  return SUBJECT_TERM.test(text) || codes.some(code => /[a-z]/i.test(code) && /\d/.test(code))
+}
+
+// Products whose name or type carries every descriptor word ("chromate free",
+// "white"); "non-chromate" counts as chromate-free
+function matchDescriptors(products: TurnProduct[], descriptors: string): TurnProduct[] {
+  const words = normalize(descriptors).split(' ').filter(Boolean)
+  if (words.length === 0) return []
+
+  const wantsChromateFree = /chromate[\s-]*free|non[\s-]*chromate/i.test(descriptors)
+
+  return products.filter(product => {
+    const text = normalize([product.name, product.productType, product.family].filter(Boolean).join(' '))
+    if (wantsChromateFree) return /chromate free|non chromate/.test(text)
+    return words.every(word => text.includes(word))
+  })
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+// Rewrites a follow-up into a self-contained query against the most recent
+// turn that returned products. Product references become SKUs, which the
+// exact-match and comparison paths already recognise.
+export function resolveFollowUp(query: string, session: ConversationSession | null): QueryResolution {
+  const unresolved: QueryResolution = { original: query, query, resolved: false, referents: [] }
+  const previous = findPreviousTurn(session)
+  if (!previous) return unresolved
+
+  const candidates = previous.products
+  const resolution = (kind: ResolutionKind, text: string, referents: TurnProduct[]): QueryResolution => ({
+    original: query,
+    query: text.replace(/\s+/g, ' ').trim(),
+    resolved: true,
+    kind,
+    referents,
+    previous
+  })
+
+  // "what about CA8100?" re-asks the previous question about another product
+  const ellipsis = query.match(ELLIPSIS)
+  const remainder = ellipsis ? (ellipsis[1] || ellipsis[2]) : null
+  if (remainder) {
+    const newCodes = productCodes(remainder)
+    const previousCodes = productCodes(previous.resolvedQuery)
+    if (newCodes.length > 0 && previousCodes.length === 1 && !PLURAL_REFERENCE.test(remainder) && !SINGULAR_REFERENCE.test(remainder)) {
+      return resolution('substitution', previous.resolvedQuery.replace(previousCodes[0], newCodes.join(' and ')), [])
+    }
+  }
+
+  let text = remainder || query
+  let kind: ResolutionKind | undefined
+  let referents: TurnProduct[] = []
+
+  const descriptor = text.match(DESCRIPTOR_REFERENCE)
+  if (descriptor) {
+    const words = descriptor[1].trim()
+    const plural = /s$/i.test(descriptor[2])
+    const ordinal = ORDINALS[words.toLowerCase()]
+    const last = words.toLowerCase() === 'last'
+
+    if (ordinal !== undefined || last) {
+      const product = last ? candidates[candidates.length - 1] : candidates[ordinal]
+      if (product) {
+        referents = [product]
+        kind = 'ordinal'
+      }
+    } else if (words && DESCRIPTOR_NOUN.test(descriptor[2])) {
+      const matches = matchDescriptors(candidates, words)
+      if (matches.length > 0) {
+        referents = plural ? matches.slice(0, MAX_REFERENTS) : [matches[0]]
+        kind = 'descriptor'
+      }
+    }
+
+    if (kind) text = text.replace(descriptor[0], joinLabels(referents))
+  }
+
+  if (!kind && !hasOwnSubject(text)) {
+    const plural = text.match(PLURAL_REFERENCE)
+    const possessive = text.match(POSSESSIVE_REFERENCE)
+    const singular = text.match(SINGULAR_REFERENCE)
+
+    if (plural) {
+      referents = candidates.slice(0, MAX_REFERENTS)
+      text = text.replace(plural[0], joinLabels(referents))
+      kind = 'pronoun'
+    } else if (possessive || singular) {
+      referents = [candidates[0]]
+      text = text.replace(POSSESSIVE_REFERENCE, productLabel(candidates[0]))
+      text = text.replace(SINGULAR_REFERENCE, productLabel(candidates[0]))
+      kind = 'pronoun'
+    }
+  }
+
+  if (kind) return resolution(kind, text, referents)
+
+  // "what about pot life?" names an attribute but no product
+  if (remainder && productCodes(remainder).length === 0 && !SUBJECT_TERM.test(remainder)) {
+    referents = candidates.slice(0, 1)
+    return resolution('ellipsis', `${remainder} of ${joinLabels(referents)}`, referents)
+  }
+
+  // "only the ones under 340 g/L" narrows the previous question
+  const refinement = query.match(REFINEMENT)
+  if (refinement) {
+    return resolution('refinement', `${previous.resolvedQuery} ${refinement[1]}`, [])
+  }
+
+  return unresolved
+}
+
+// Earlier turns as chat messages for the summary prompt, oldest first
+export function conversationHistory(session: ConversationSession | null, turns: number = 3): Array<{ role: 'user' | 'assistant'; content: string }> {
+  if (!session) return []
+
+  return session.turns.slice(-turns).flatMap(turn => [
+    { role: 'user' as const, content: turn.resolvedQuery },
+    ...(turn.summary ? [{ role: 'assistant' as const, content: turn.summary }] : [])
+  ])
+}
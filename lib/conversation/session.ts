@@ -0,0 +1,212 @@
+import { randomUUID } from 'crypto'
+import { CatalogFilters, SpecRangeFilters } from '@/lib/catalog'
+import { KeyValueClient, getKeyValueClient } from '@/lib/kv'
+
+// ============================================================================
+// SESSION TYPES
+// ============================================================================
+
+// Enough of a result to be referred back to ("the chromate-free one")
+export interface TurnProduct {
+  sku?: string
+  name?: string
+  family?: string
+  productType?: string
+}
+
+export interface ConversationTurn {
+  query: string
+  // The query after follow-up resolution; equal to `query` for a fresh question
+  resolvedQuery: string
+  questionType?: string
+  products: TurnProduct[]
+  filters?: CatalogFilters & { ranges?: SpecRangeFilters }
+  specFilters?: SpecRangeFilters
+  summary?: string
+  createdAt: string
+}
+
+export interface ConversationSession {
+  id: string
+  createdAt: string
+  updatedAt: string
+  turns: ConversationTurn[]
+}
+
+export interface SessionStore {
+  get(id: string): Promise<ConversationSession | null>
+  save(session: ConversationSession): Promise<void>
+  delete(id: string): Promise<boolean>
+}
+
+const DEFAULT_TTL_MS = 2 * 60 * 60 * 1000
+const MAX_TURNS = 20
+// Like the products recorded for a turn the server ran
+const MAX_SEED_PRODUCTS = 10
+const MAX_SEED_TEXT_LENGTH = 500
+// Summaries are kept for the prompt history only, which never needs the full text
+const MAX_SUMMARY_LENGTH = 2000
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+export function createSession(): ConversationSession {
+  const now = new Date().toISOString()
+  return { id: randomUUID(), createdAt: now, updatedAt: now, turns: [] }
+}
+
+export function appendTurn(session: ConversationSession, turn: ConversationTurn): ConversationSession {
+  const stored: ConversationTurn = {
+    ...turn,
+    summary: turn.summary && turn.summary.length > MAX_SUMMARY_LENGTH
+      ? `${turn.summary.slice(0, MAX_SUMMARY_LENGTH)}…`
+      : turn.summary
+  }
+
+  return {
+    ...session,
+    updatedAt: stored.createdAt,
+    turns: [...session.turns, stored].slice(-MAX_TURNS)
+  }
+}
+
+// A turn the client showed without a session (a server-rendered permalink),
+// sent with the request that starts one so its follow-up can refer back.
+// Only the text a follow-up resolves against is kept.
+export function parseSeedTurn(input: any): ConversationTurn | null {
+  const text = (value: unknown, maxLength: number = MAX_SEED_TEXT_LENGTH) =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined
+
+  const query = text(input?.query)
+  if (!query || !Array.isArray(input.products)) return null
+
+  const products: TurnProduct[] = input.products.slice(0, MAX_SEED_PRODUCTS)
+    .map((product: any) => ({
+      sku: text(product?.sku),
+      name: text(product?.name),
+      family: text(product?.family),
+      productType: text(product?.productType)
+    }))
+    .filter((product: TurnProduct) => product.sku || product.name || product.family)
+
+  return {
+    query,
+    resolvedQuery: query,
+    products,
+    summary: text(input.summary, MAX_SUMMARY_LENGTH),
+    createdAt: new Date().toISOString()
+  }
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+export interface MemorySessionStoreOptions {
+  ttlMs?: number
+  maxSessions?: number
+}
+
+// Sessions live for `ttlMs` after their last turn; beyond `maxSessions` the
+// least recently updated ones are dropped first
+export function createMemorySessionStore(options: MemorySessionStoreOptions = {}): SessionStore {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+  const maxSessions = options.maxSessions ?? 1000
+  const sessions = new Map<string, ConversationSession>()
+
+  const isExpired = (session: ConversationSession) =>
+    Date.now() - new Date(session.updatedAt).getTime() > ttlMs
+
+  return {
+    async get(id) {
+      const session = sessions.get(id)
+      if (!session) return null
+      if (isExpired(session)) {
+        sessions.delete(id)
+        return null
+      }
+      return session
+    },
+
+    async save(session) {
+      // Re-inserting keeps the Map in least-recently-updated order
+      sessions.delete(session.id)
+      sessions.set(session.id, session)
+
+      while (sessions.size > maxSessions) {
+        const oldest = sessions.keys().next().value
+        if (oldest === undefined) break
+        sessions.delete(oldest)
+      }
+    },
+
+    async delete(id) {
+      return sessions.delete(id)
+    }
+  }
+}
+
+// ============================================================================
+// KEY-VALUE STORE
+// ============================================================================
+
+export interface KeyValueSessionStoreOptions {
+  ttlMs?: number
+  prefix?: string
+}
+
+// Each save renews the session's expiry. A store that cannot be reached
+// loses the conversation rather than failing the search it belongs to.
+export function createKeyValueSessionStore(
+  client: KeyValueClient,
+  options: KeyValueSessionStoreOptions = {}
+): SessionStore {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+  const prefix = options.prefix ?? 'coatings:session:'
+
+  return {
+    async get(id) {
+      try {
+        const text = await client.get(`${prefix}${id}`)
+        return typeof text === 'string' ? JSON.parse(text) as ConversationSession : null
+      } catch (error: any) {
+        console.warn(`⚠️ Session ${id} could not be read:`, error.message)
+        return null
+      }
+    },
+
+    async save(session) {
+      try {
+        await client.set(`${prefix}${session.id}`, JSON.stringify(session), { ttlSeconds: ttlMs / 1000 })
+      } catch (error: any) {
+        console.warn(`⚠️ Session ${session.id} could not be saved:`, error.message)
+      }
+    },
+
+    async delete(id) {
+      return Number(await client.del(`${prefix}${id}`)) > 0
+    }
+  }
+}
+
+let sessionStore: SessionStore | null = null
+
+// SESSION_TTL_MINUTES sets how long an idle conversation is kept. Sessions go
+// to the key-value store when one is configured (KV_REST_API_URL), so a
+// follow-up can land on any instance; otherwise they only live in this process.
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    const ttlMinutes = parseInt(process.env.SESSION_TTL_MINUTES || '', 10)
+    const ttlMs = ttlMinutes > 0 ? ttlMinutes * 60 * 1000 : undefined
+    const client = getKeyValueClient()
+    sessionStore = client
+      ? createKeyValueSessionStore(client, { ttlMs })
+      : createMemorySessionStore({ ttlMs })
+  }
+  return sessionStore
+}
+
+export function setSessionStore(next: SessionStore | null): void {
+  sessionStore = next
+}
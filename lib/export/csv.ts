@@ -0,0 +1,31 @@
+import { ExportDocument } from './table'
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+// Spreadsheet apps run a cell starting with =, +, -, @ (or a tab or carriage
+// return) as a formula, so those get a leading apostrophe. Negative numbers
+// are left as numbers.
+function neutralizeFormula(value: string): string {
+  if (!/^[=+\-@\t\r]/.test(value) || /^-\d[\d,]*(\.\d+)?$/.test(value)) return value
+  return `'${value}`
+}
+
+function csvCell(value: string): string {
+  const safe = neutralizeFormula(value)
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// RFC 4180 text with a BOM so spreadsheet apps read the units as UTF-8
+export function toCsv(rows: string[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// CSV holds one table: the first sheet, followed by the notes as a single cell
+// so an analysis travels with the comparison it describes
+export function documentToCsv(document: ExportDocument): string {
+  const rows = [...(document.sheets[0]?.rows || [])]
+  if (document.notes) rows.push([], ['Analysis', document.notes])
+  return toCsv(rows)
+}
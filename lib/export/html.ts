@@ -0,0 +1,93 @@
+import { ExportDocument } from './table'
+
+// ============================================================================
+// PRINTABLE DATA SHEET
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function inlineMarkdown(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*]+)\*/g, '$1<em>$2</em>')
+}
+
+// Headings, bullets and paragraphs; anything else in the analysis is kept as text
+function notesToHtml(notes: string): string {
+  const html: string[] = []
+  let list = false
+
+  notes.split('\n').forEach(line => {
+    const bullet = line.match(/^\s*[-*]\s+(.+)/)
+    if (list && !bullet) {
+      html.push('</ul>')
+      list = false
+    }
+
+    const heading = line.match(/^(#{1,4})\s+(.+)/)
+    if (heading) html.push(`<h3>${inlineMarkdown(heading[2])}</h3>`)
+    else if (bullet) {
+      if (!list) html.push('<ul>')
+      list = true
+      html.push(`<li>${inlineMarkdown(bullet[1])}</li>`)
+    } else if (line.trim()) html.push(`<p>${inlineMarkdown(line)}</p>`)
+  })
+
+  if (list) html.push('</ul>')
+  return html.join('\n')
+}
+
+function tableToHtml(rows: string[][]): string {
+  const [header, ...body] = rows
+  if (!header) return ''
+
+  return `<table>
+<thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>
+<tbody>
+${body.map(row => `<tr>${row.map((cell, i) => i === 0 ? `<th>${escapeHtml(cell)}</th>` : `<td${cell.endsWith('✓') ? ' class="winner"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`
+}
+
+// A self-contained page laid out for A4/Letter. With `print` the browser's
+// print dialog opens on load, which is how the data sheet is saved as PDF.
+export function toDataSheetHtml(document: ExportDocument, options: { print?: boolean; generatedAt?: Date } = {}): string {
+  const generatedAt = (options.generatedAt || new Date()).toISOString().replace('T', ' ').slice(0, 16) + ' UTC'
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.title)}</title>
+<style>
+  @page { size: auto; margin: 14mm; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 11px; color: #1f2937; margin: 24px; }
+  h1 { font-size: 20px; color: #0078a9; margin: 0 0 4px; }
+  h2 { font-size: 14px; color: #0078a9; margin: 24px 0 8px; }
+  h3 { font-size: 12px; margin: 16px 0 6px; }
+  .meta { color: #6b7280; margin-bottom: 16px; }
+  table { border-collapse: collapse; width: 100%; page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  thead th { background: #e0f2fe; }
+  tbody th { background: #f9fafb; white-space: nowrap; }
+  td.winner { background: #dcfce7; font-weight: bold; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(document.title)}</h1>
+<div class="meta">${document.subtitle ? `${escapeHtml(document.subtitle)} · ` : ''}Generated ${generatedAt}</div>
+${document.sheets.map(sheet => `<h2>${escapeHtml(sheet.name)}</h2>\n${tableToHtml(sheet.rows)}`).join('\n')}
+${document.notes ? `<h2>Analysis</h2>\n${notesToHtml(document.notes)}` : ''}
+${options.print ? '<script>window.addEventListener(\'load\', () => window.print())</script>' : ''}
+</body>
+</html>
+`
+}
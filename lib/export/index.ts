@@ -0,0 +1,45 @@
+import { documentToCsv } from './csv'
+import { toDataSheetHtml } from './html'
+import { ExportDocument } from './table'
+import { toXlsx } from './xlsx'
+
+export * from './table'
+export * from './csv'
+export * from './xlsx'
+export * from './html'
+
+// 'pdf' is the printable data sheet, opened with the print dialog
+export type ExportFormat = 'csv' | 'xlsx' | 'html' | 'pdf'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'html', 'pdf']
+
+export interface ExportFile {
+  body: string | Uint8Array
+  contentType: string
+  extension: string
+}
+
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  const format = typeof value === 'string' ? value.toLowerCase() : ''
+  return EXPORT_FORMATS.includes(format as ExportFormat) ? format as ExportFormat : null
+}
+
+export function renderExport(document: ExportDocument, format: ExportFormat): ExportFile {
+  switch (format) {
+    case 'csv':
+      return { body: documentToCsv(document), contentType: 'text/csv; charset=utf-8', extension: 'csv' }
+    case 'xlsx':
+      return {
+        body: toXlsx(document),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx'
+      }
+    case 'html':
+    case 'pdf':
+      return {
+        body: toDataSheetHtml(document, { print: format === 'pdf' }),
+        contentType: 'text/html; charset=utf-8',
+        extension: 'html'
+      }
+  }
+}
@@ -0,0 +1,130 @@
+import type { ProductRecord } from '@/lib/catalog'
+import type { ComparisonMatrix } from '@/lib/comparison/matrix'
+import { stripHtml } from '@/lib/text'
+
+// Kept free of server imports: every format is built from plain tables, so
+// the page and the export endpoint can share these
+
+// ============================================================================
+// EXPORT TYPES
+// ============================================================================
+
+export interface ExportSheet {
+  name: string
+  // First row is the header
+  rows: string[][]
+}
+
+export interface ExportDocument {
+  title: string
+  subtitle?: string
+  sheets: ExportSheet[]
+  // Free text (markdown) shown after the tables, e.g. a comparison analysis
+  notes?: string
+}
+
+// The `comparison` object of a comparison response
+export interface ComparisonExportInput {
+  products: ProductRecord[]
+  summary?: string
+  comparedFields?: string[]
+  allFields?: string[]
+  matrix?: ComparisonMatrix
+}
+
+// Internal columns never exported
+const EXCLUDED_FIELDS = ['embedding', 'searchable_text', 'searchabletext', 'all_attributes', 'similarity']
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') return stripHtml(value)
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function recordFields(records: ProductRecord[]): string[] {
+  const fields: string[] = []
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (key.startsWith('_') || EXCLUDED_FIELDS.includes(key.toLowerCase()) || fields.includes(key)) return
+      fields.push(key)
+    })
+  })
+  return fields
+}
+
+// One row per product, one column per field
+export function recordsToTable(records: ProductRecord[], fields: string[] = recordFields(records)): string[][] {
+  return [
+    fields.map(field => field.replace(/_/g, ' ')),
+    ...records.map(record => fields.map(field => cellText(record[field])))
+  ]
+}
+
+// One row per field, one column per product, as the comparison table reads
+export function fieldsToTable(records: ProductRecord[], fields: string[]): string[][] {
+  return [
+    ['Field', ...records.map(record => cellText(record.sku || record.Product_Name))],
+    ...fields.map(field => [field.replace(/_/g, ' '), ...records.map(record => cellText(record[field]))])
+  ]
+}
+
+// Header row of product names, then one row per matrix row. Units are part of
+// the label; winning values are marked with ✓.
+export function matrixToTable(matrix: ComparisonMatrix, differencesOnly: boolean = false): string[][] {
+  const rows = differencesOnly
+    ? matrix.rows.filter(row => row.group === 'identity' || row.differs)
+    : matrix.rows
+
+  return [
+    ['Attribute', ...matrix.products.map(product => product.sku || product.name)],
+    ...rows.map(row => [
+      row.unit ? `${row.label} (${row.unit})` : row.label,
+      ...row.cells.map(cell => cell.display ? `${cell.display}${cell.winner ? ' ✓' : ''}` : '')
+    ])
+  ]
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+export function resultsDocument(results: ProductRecord[], query?: string): ExportDocument {
+  return {
+    title: 'Coating Search Results',
+    subtitle: query ? `${results.length} products for "${query}"` : `${results.length} products`,
+    sheets: [{ name: 'Results', rows: recordsToTable(results) }]
+  }
+}
+
+// The matrix (or the compared fields when there is none), every field of every
+// product, and the analysis as notes
+export function comparisonDocument(comparison: ComparisonExportInput, options: { query?: string; differencesOnly?: boolean } = {}): ExportDocument {
+  const products = comparison.products || []
+  const allFields = comparison.allFields && comparison.allFields.length > 0 ? comparison.allFields : recordFields(products)
+  const compared = options.differencesOnly && comparison.comparedFields ? comparison.comparedFields : allFields
+
+  const sheets: ExportSheet[] = [
+    {
+      name: 'Comparison',
+      rows: comparison.matrix
+        ? matrixToTable(comparison.matrix, options.differencesOnly)
+        : fieldsToTable(products, compared.filter(field => !EXCLUDED_FIELDS.includes(field.toLowerCase())))
+    },
+    { name: 'Products', rows: recordsToTable(products, allFields.filter(field => recordFields(products).includes(field))) }
+  ]
+
+  return {
+    title: 'Coating Product Comparison',
+    subtitle: [
+      products.map(product => product.sku).filter(Boolean).join(' vs '),
+      options.query ? `Query: "${options.query}"` : ''
+    ].filter(Boolean).join(' · '),
+    sheets,
+    notes: comparison.summary
+  }
+}
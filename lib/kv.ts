@@ -0,0 +1,77 @@
+// ============================================================================
+// KEY-VALUE STORE
+// ============================================================================
+
+// The subset of a Redis, Vercel KV or Upstash client the persisted caches,
+// short links and conversation sessions need
+export interface KeyValueClient {
+  get(key: string): Promise<string | null | undefined>
+  // `ttlSeconds` expires the key; without it the key is kept
+  set(key: string, value: string, options?: { ttlSeconds?: number }): Promise<unknown>
+  del(key: string): Promise<unknown>
+}
+
+export interface RestKeyValueOptions {
+  url: string
+  token: string
+  // Per-command timeout, so a slow store degrades to a cache miss
+  timeoutMs?: number
+}
+
+// Talks to the Redis REST API that Vercel KV and Upstash expose, so no
+// client package or TCP connection is needed in a serverless function
+export function createRestKeyValueClient(options: RestKeyValueOptions): KeyValueClient {
+  const baseUrl = options.url.replace(/\/+$/, '')
+  const timeoutMs = options.timeoutMs ?? 5000
+
+  async function command(args: Array<string | number>): Promise<any> {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${options.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(args),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(timeoutMs)
+    })
+
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok || body.error) {
+      throw new Error(`KV ${args[0]} failed (${response.status}): ${body.error || response.statusText}`)
+    }
+    return body.result
+  }
+
+  return {
+    async get(key) {
+      const result = await command(['GET', key])
+      return typeof result === 'string' ? result : null
+    },
+    async set(key, value, setOptions) {
+      const ttl = setOptions?.ttlSeconds
+      return command(ttl && ttl > 0 ? ['SET', key, value, 'EX', Math.ceil(ttl)] : ['SET', key, value])
+    },
+    async del(key) {
+      return command(['DEL', key])
+    }
+  }
+}
+
+let keyValueClient: KeyValueClient | null | undefined
+
+// KV_REST_API_URL and KV_REST_API_TOKEN (set by a Vercel KV or Upstash
+// integration; UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN also work).
+// Null when neither pair is set.
+export function getKeyValueClient(): KeyValueClient | null {
+  if (keyValueClient === undefined) {
+    const url = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL
+    const token = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN
+    keyValueClient = url && token ? createRestKeyValueClient({ url, token }) : null
+  }
+  return keyValueClient
+}
+
+export function setKeyValueClient(next: KeyValueClient | null | undefined): void {
+  keyValueClient = next
+}
@@ -0,0 +1,283 @@
+import { CoatingProduct } from '@/lib/catalog'
+import { stripHtml } from '@/lib/text'
+
+// ============================================================================
+// INDEX TYPES
+// ============================================================================
+
+export type IndexedField = 'sku' | 'name' | 'family' | 'productType' | 'productModel' | 'description' | 'attributes'
+
+export const INDEXED_FIELDS: IndexedField[] = ['sku', 'name', 'family', 'productType', 'productModel', 'description', 'attributes']
+
+// Short identifying fields outweigh long free text, mirroring the weights
+// scoreProductRelevance gives substring matches
+export const FIELD_BOOSTS: Record<IndexedField, number> = {
+  sku: 3,
+  name: 3,
+  family: 2.5,
+  productType: 2,
+  productModel: 2,
+  description: 1,
+  attributes: 0.5
+}
+
+export interface SearchIndex {
+  documents: CoatingProduct[]
+  // field -> term -> document -> token positions
+  postings: Record<IndexedField, Map<string, Map<number, number[]>>>
+  fieldLengths: Record<IndexedField, number[]>
+  averageFieldLengths: Record<IndexedField, number>
+  // Documents containing the term in any field, for IDF
+  documentFrequency: Map<string, number>
+  builtAt: Date
+}
+
+export interface SearchHit {
+  product: CoatingProduct
+  score: number
+  matchedFields: IndexedField[]
+  matchedPhrases: string[]
+}
+
+export interface SearchOptions {
+  // Synonyms and variants of the query (expandSearchTerms), scored at a discount
+  expansions?: string[]
+  limit?: number
+  boosts?: Partial<Record<IndexedField, number>>
+  // Documents failing this are dropped before the limit is applied
+  filter?: (product: CoatingProduct) => boolean
+}
+
+const K1 = 1.2
+const B = 0.75
+const EXPANSION_WEIGHT = 0.5
+// Phrase matches add this multiple of the phrase terms' IDF per field boost
+const PHRASE_BOOST = 1.5
+
+// ============================================================================
+// TOKENIZATION
+// ============================================================================
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'me', 'of', 'on', 'or', 'show', 'the', 'to', 'what', 'which', 'with', 'find', 'all'
+])
+
+// Plurals fold onto the singular so "primers" finds "Primer"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y'
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !/\d/.test(token)) return token.slice(0, -1)
+  return token
+}
+
+export function tokenizeText(text: string): string[] {
+  return stripHtml(text)
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token))
+    .map(stem)
+}
+
+function fieldText(product: CoatingProduct, field: IndexedField): string {
+  if (field === 'attributes') {
+    return Object.values(product.attributes)
+      .filter(value => typeof value === 'string' || typeof value === 'number')
+      .join(' ')
+  }
+  return product[field] || ''
+}
+
+// ============================================================================
+// INDEXING
+// ============================================================================
+
+export function buildSearchIndex(products: CoatingProduct[]): SearchIndex {
+  const postings = {} as SearchIndex['postings']
+  const fieldLengths = {} as SearchIndex['fieldLengths']
+  const averageFieldLengths = {} as SearchIndex['averageFieldLengths']
+  const documentTerms: Array<Set<string>> = products.map(() => new Set())
+
+  INDEXED_FIELDS.forEach(field => {
+    const termPostings = new Map<string, Map<number, number[]>>()
+    const lengths: number[] = []
+
+    products.forEach((product, doc) => {
+      const tokens = tokenizeText(fieldText(product, field))
+      lengths.push(tokens.length)
+
+      const positions = new Map<string, number[]>()
+      tokens.forEach((token, position) => {
+        const list = positions.get(token) || []
+        list.push(position)
+        positions.set(token, list)
+      })
+
+      positions.forEach((list, term) => {
+        const entries = termPostings.get(term) || new Map<number, number[]>()
+        entries.set(doc, list)
+        termPostings.set(term, entries)
+        documentTerms[doc].add(term)
+      })
+    })
+
+    postings[field] = termPostings
+    fieldLengths[field] = lengths
+    averageFieldLengths[field] = lengths.reduce((sum, n) => sum + n, 0) / Math.max(1, lengths.length)
+  })
+
+  const documentFrequency = new Map<string, number>()
+  documentTerms.forEach(terms => terms.forEach(term => {
+    documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+  }))
+
+  return {
+    documents: products,
+    postings,
+    fieldLengths,
+    averageFieldLengths,
+    documentFrequency,
+    builtAt: new Date()
+  }
+}
+
+// Maps flattened to entry arrays. Documents are left out: the index is only
+// restored over the product list it was built from.
+export interface SerializedSearchIndex {
+  postings: Record<IndexedField, Array<[string, Array<[number, number[]]>]>>
+  fieldLengths: Record<IndexedField, number[]>
+  averageFieldLengths: Record<IndexedField, number>
+  documentFrequency: Array<[string, number]>
+  builtAt: string
+}
+
+export function serializeSearchIndex(index: SearchIndex): SerializedSearchIndex {
+  const postings = {} as SerializedSearchIndex['postings']
+  INDEXED_FIELDS.forEach(field => {
+    postings[field] = Array.from(index.postings[field].entries()).map(([term, docs]) => [term, Array.from(docs.entries())])
+  })
+
+  return {
+    postings,
+    fieldLengths: index.fieldLengths,
+    averageFieldLengths: index.averageFieldLengths,
+    documentFrequency: Array.from(index.documentFrequency.entries()),
+    builtAt: index.builtAt.toISOString()
+  }
+}
+
+export function deserializeSearchIndex(data: SerializedSearchIndex, documents: CoatingProduct[]): SearchIndex {
+  const postings = {} as SearchIndex['postings']
+  INDEXED_FIELDS.forEach(field => {
+    postings[field] = new Map((data.postings[field] || []).map(([term, docs]) => [term, new Map(docs)]))
+  })
+
+  return {
+    documents,
+    postings,
+    fieldLengths: data.fieldLengths,
+    averageFieldLengths: data.averageFieldLengths,
+    documentFrequency: new Map(data.documentFrequency),
+    builtAt: new Date(data.builtAt)
+  }
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+function idf(index: SearchIndex, term: string): number {
+  const n = index.documents.length
+  const df = index.documentFrequency.get(term) || 0
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5))
+}
+
+// Quoted phrases are matched as phrases; so is an unquoted multi-word query
+// and every multi-word expansion ("epoxy primer")
+// Term and phrase weights: 1 for the query itself, EXPANSION_WEIGHT for expansions
+function parseQuery(query: string, expansions: string[]): { terms: Map<string, number>; phrases: Map<string, number> } {
+  const terms = new Map<string, number>()
+  const phrases = new Map<string, number>()
+
+  const quoted = Array.from(query.matchAll(/"([^"]+)"/g)).map(match => match[1])
+  const addPhrase = (text: string, weight: number) => {
+    const tokens = tokenizeText(text)
+    const phrase = tokens.join(' ')
+    if (tokens.length > 1 && !phrases.has(phrase)) phrases.set(phrase, weight)
+  }
+
+  quoted.forEach(text => addPhrase(text, 1))
+  addPhrase(query.replace(/"/g, ' '), 1)
+  tokenizeText(query).forEach(token => terms.set(token, 1))
+
+  expansions.forEach(expansion => {
+    if (expansion.includes(' ')) addPhrase(expansion, EXPANSION_WEIGHT)
+    tokenizeText(expansion).forEach(token => {
+      if (!terms.has(token)) terms.set(token, EXPANSION_WEIGHT)
+    })
+  })
+
+  return { terms, phrases }
+}
+
+function containsPhrase(index: SearchIndex, field: IndexedField, doc: number, phrase: string[]): boolean {
+  const lists = phrase.map(term => index.postings[field].get(term)?.get(doc))
+  if (lists.some(list => !list)) return false
+  return lists[0]!.some(start => lists.every((list, offset) => list!.includes(start + offset)))
+}
+
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchHit[] {
+  const { terms, phrases } = parseQuery(query, options.expansions || [])
+  const boosts = { ...FIELD_BOOSTS, ...options.boosts }
+  const hits = new Map<number, { score: number; fields: Set<IndexedField>; phrases: Set<string> }>()
+
+  const hitFor = (doc: number) => {
+    let hit = hits.get(doc)
+    if (!hit) {
+      hit = { score: 0, fields: new Set(), phrases: new Set() }
+      hits.set(doc, hit)
+    }
+    return hit
+  }
+
+  terms.forEach((weight, term) => {
+    const termIdf = idf(index, term)
+
+    INDEXED_FIELDS.forEach(field => {
+      const average = index.averageFieldLengths[field] || 1
+
+      index.postings[field].get(term)?.forEach((positions, doc) => {
+        const tf = positions.length
+        const length = index.fieldLengths[field][doc]
+        const saturation = (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / average))
+
+        const hit = hitFor(doc)
+        hit.score += weight * boosts[field] * termIdf * saturation
+        hit.fields.add(field)
+      })
+    })
+  })
+
+  phrases.forEach((weight, phrase) => {
+    const tokens = phrase.split(' ')
+    const phraseIdf = tokens.reduce((sum, term) => sum + idf(index, term), 0)
+
+    hits.forEach((hit, doc) => {
+      INDEXED_FIELDS.forEach(field => {
+        if (!containsPhrase(index, field, doc, tokens)) return
+        hit.score += weight * PHRASE_BOOST * boosts[field] * phraseIdf
+        hit.phrases.add(phrase)
+      })
+    })
+  })
+
+  return Array.from(hits.entries())
+    .filter(([doc]) => !options.filter || options.filter(index.documents[doc]))
+    .map(([doc, hit]) => ({
+      product: index.documents[doc],
+      score: hit.score,
+      matchedFields: INDEXED_FIELDS.filter(field => hit.fields.has(field)),
+      matchedPhrases: Array.from(hit.phrases)
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 500)
+}
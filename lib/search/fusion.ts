@@ -0,0 +1,158 @@
+// ============================================================================
+// RANK FUSION TYPES
+// ============================================================================
+
+// 'rrf' sums weight / (k + rank) across sources; 'weighted' sums each source's
+// min-max normalised score; 'priority' keeps the legacy order of taking every
+// result of the first source, then the next, and so on
+export type FusionStrategy = 'rrf' | 'weighted' | 'priority'
+
+export const FUSION_STRATEGIES: FusionStrategy[] = ['rrf', 'weighted', 'priority']
+
+export interface RankedList<T> {
+  source: string
+  // Best first
+  items: T[]
+  // Source-native scores aligned with `items`; ranks are used when missing
+  scores?: number[]
+}
+
+export interface FusionOptions {
+  strategy: FusionStrategy
+  // RRF damping constant; larger values flatten the gap between top ranks
+  k: number
+  weights: Record<string, number>
+}
+
+export interface FusedResult<T> {
+  key: string
+  item: T
+  score: number
+  // 1-based rank of the item in each source, null where the source missed it
+  ranks: Record<string, number | null>
+}
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = {
+  strategy: 'rrf',
+  k: 60,
+  weights: {}
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export function parseFusionStrategy(value: unknown): FusionStrategy | null {
+  return typeof value === 'string' && FUSION_STRATEGIES.includes(value as FusionStrategy)
+    ? value as FusionStrategy
+    : null
+}
+
+// "exact:2,semantic:1,keyword:1" or an object of the same shape
+function parseWeights(input: unknown): Record<string, number> {
+  const weights: Record<string, number> = {}
+  const entries: Array<[string, unknown]> = typeof input === 'string'
+    ? input.split(',').map(pair => pair.split(':').map(s => s.trim()) as [string, string])
+    : input && typeof input === 'object'
+      ? Object.entries(input)
+      : []
+
+  entries.forEach(([source, raw]) => {
+    const weight = typeof raw === 'string' ? parseFloat(raw) : raw
+    if (source && typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+      weights[source] = weight
+    }
+  })
+
+  return weights
+}
+
+// SEARCH_FUSION_STRATEGY / SEARCH_FUSION_K / SEARCH_FUSION_WEIGHTS set the
+// defaults; a request may override any of them with `fusion: { strategy, k, weights }`
+export function resolveFusionOptions(input?: any): FusionOptions {
+  const envK = parseFloat(process.env.SEARCH_FUSION_K || '')
+  const options: FusionOptions = {
+    strategy: parseFusionStrategy(process.env.SEARCH_FUSION_STRATEGY) || DEFAULT_FUSION_OPTIONS.strategy,
+    k: Number.isFinite(envK) && envK > 0 ? envK : DEFAULT_FUSION_OPTIONS.k,
+    weights: parseWeights(process.env.SEARCH_FUSION_WEIGHTS)
+  }
+
+  if (!input || typeof input !== 'object') return options
+
+  const k = typeof input.k === 'string' ? parseFloat(input.k) : input.k
+  return {
+    strategy: parseFusionStrategy(input.strategy) || options.strategy,
+    k: typeof k === 'number' && Number.isFinite(k) && k > 0 ? k : options.k,
+    weights: { ...options.weights, ...parseWeights(input.weights) }
+  }
+}
+
+// ============================================================================
+// FUSION
+// ============================================================================
+
+function normalizedScores<T>(list: RankedList<T>): number[] {
+  const n = list.items.length
+  if (!list.scores || list.scores.length !== n) {
+    return list.items.map((_, i) => n === 1 ? 1 : 1 - i / n)
+  }
+  const min = Math.min(...list.scores)
+  const max = Math.max(...list.scores)
+  return list.scores.map(score => max === min ? 1 : (score - min) / (max - min))
+}
+
+// Items are identified across sources by `keyOf`; the first source that
+// returned an item supplies the object kept in the fused list, and `merge`
+// can fold in fields from later sources (e.g. a semantic similarity)
+export function fuseRankings<T>(
+  lists: RankedList<T>[],
+  options: FusionOptions,
+  keyOf: (item: T) => string,
+  merge?: (kept: T, other: T) => T
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>()
+  const sources = lists.map(list => list.source)
+
+  lists.forEach((list, listIndex) => {
+    const weight = options.weights[list.source] ?? 1
+    const normalized = options.strategy === 'weighted' ? normalizedScores(list) : []
+
+    list.items.forEach((item, i) => {
+      const key = keyOf(item)
+      let entry = fused.get(key)
+
+      if (!entry) {
+        entry = {
+          key,
+          item,
+          score: 0,
+          ranks: Object.fromEntries(sources.map(source => [source, null]))
+        }
+        fused.set(key, entry)
+      } else {
+        // A source listing the same product twice keeps its best rank
+        if (entry.ranks[list.source] !== null) return
+        if (merge) entry.item = merge(entry.item, item)
+      }
+
+      const rank = i + 1
+      entry.ranks[list.source] = rank
+
+      switch (options.strategy) {
+        case 'rrf':
+          entry.score += weight / (options.k + rank)
+          break
+        case 'weighted':
+          entry.score += weight * normalized[i]
+          break
+        case 'priority':
+          // Earlier sources outrank later ones outright; within a source the
+          // original order is kept
+          if (entry.score === 0) entry.score = (lists.length - listIndex) + 1 / (rank + 1)
+          break
+      }
+    })
+  })
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,131 @@
+// ============================================================================
+// FUZZY VOCABULARY TYPES
+// ============================================================================
+
+export interface FuzzyEntry {
+  value: string
+  // Lowercase letters and digits only, so "CA 8100", "ca-8100" and "CA8100" compare equal
+  normalized: string
+  grams: Set<string>
+}
+
+export type FuzzyVocabulary = FuzzyEntry[]
+
+export interface FuzzyMatch {
+  value: string
+  distance: number
+  // 1 for an identical normalised form, falling linearly with the share of edited characters
+  confidence: number
+}
+
+// ============================================================================
+// DISTANCE
+// ============================================================================
+
+export function normalizeTerm(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function bigrams(text: string): Set<string> {
+  const grams = new Set<string>()
+  for (let i = 0; i < text.length - 1; i++) grams.add(text.slice(i, i + 2))
+  return grams
+}
+
+// Short codes tolerate fewer edits: "CA80" is one edit from too many families
+export function maxEdits(length: number): number {
+  if (length < 5) return 0
+  if (length < 8) return 1
+  if (length < 12) return 2
+  return 3
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and
+// adjacent transpositions ("CA8010" -> "CA8100") each cost 1. Returns
+// maxDistance + 1 as soon as no alignment can stay within maxDistance.
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1
+    beforePrevious = previous
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export function buildFuzzyVocabulary(values: string[]): FuzzyVocabulary {
+  return values
+    .map(value => ({ value, normalized: normalizeTerm(value) }))
+    .filter(entry => entry.normalized.length > 0)
+    .map(entry => ({ ...entry, grams: bigrams(entry.normalized) }))
+}
+
+// Every run of one to three adjacent words, joined, so a code typed with a
+// space ("CA 8010") is compared as one term
+function queryTerms(query: string): string[] {
+  const words = query.split(/[\s,;]+/).filter(Boolean)
+  const terms = new Set<string>()
+
+  for (let size = 1; size <= 3; size++) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const term = normalizeTerm(words.slice(i, i + size).join(''))
+      if (maxEdits(term.length) > 0) terms.add(term)
+    }
+  }
+
+  return Array.from(terms)
+}
+
+// Candidates are pre-filtered by length and shared bigrams (each edit can
+// break at most three bigrams) before the edit distance is computed
+export function findFuzzyMatches(query: string, vocabulary: FuzzyVocabulary, limit: number = 5): FuzzyMatch[] {
+  const best = new Map<string, FuzzyMatch>()
+
+  queryTerms(query).forEach(term => {
+    const termGrams = bigrams(term)
+
+    vocabulary.forEach(entry => {
+      const allowed = maxEdits(Math.min(term.length, entry.normalized.length))
+      if (allowed === 0 || Math.abs(term.length - entry.normalized.length) > allowed) return
+
+      let shared = 0
+      termGrams.forEach(gram => { if (entry.grams.has(gram)) shared++ })
+      if (shared < Math.max(term.length, entry.normalized.length) - 1 - 3 * allowed) return
+
+      const distance = editDistance(term, entry.normalized, allowed)
+      if (distance > allowed) return
+
+      const confidence = Math.round((1 - distance / Math.max(term.length, entry.normalized.length)) * 100) / 100
+      const existing = best.get(entry.value)
+      if (!existing || distance < existing.distance) {
+        best.set(entry.value, { value: entry.value, distance, confidence })
+      }
+    })
+  })
+
+  return Array.from(best.values())
+    .sort((a, b) => a.distance - b.distance || b.confidence - a.confidence)
+    .slice(0, limit)
+}
@@ -0,0 +1,4 @@
+export * from './fusion'
+export * from './bm25'
+export * from './fuzzy'
+export * from './product-cache'
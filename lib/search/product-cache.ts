@@ -0,0 +1,211 @@
+import {
+  CatalogSnapshot,
+  QualificationIndex,
+  QualifiedProduct,
+  SnapshotStorage,
+  buildQualificationIndex,
+  getCatalogSnapshot,
+  getSnapshotStorage,
+  removeStoredValue,
+  writeStoredValue
+} from '@/lib/catalog'
+import { SearchIndex, SerializedSearchIndex, buildSearchIndex, deserializeSearchIndex, serializeSearchIndex } from './bm25'
+import { FuzzyVocabulary, buildFuzzyVocabulary } from './fuzzy'
+
+// ============================================================================
+// PRODUCT CACHE TYPES
+// ============================================================================
+
+export type FuzzyField = 'family' | 'sku' | 'productModel'
+
+// Vocabularies and indexes the search pipeline derives from the catalog snapshot
+export interface ProductCache {
+  families: string[]
+  productTypes: string[]
+  productModels: string[]
+  skus: string[]
+  // Spec number (MIL-PRF-85285, AMS 3095, BMS 10-72) -> qualified products
+  qualifications: QualificationIndex
+  // BM25 index over name, description, type, model, family and attributes
+  textIndex: SearchIndex
+  // Normalised vocabularies for typo-tolerant code and model matching
+  fuzzy: Record<FuzzyField, FuzzyVocabulary>
+  totalProducts: number
+  // The snapshot this cache was built from
+  version: number
+  hash: string
+  lastUpdated: Date
+}
+
+interface PersistedProductCache {
+  hash: string
+  families: string[]
+  productTypes: string[]
+  productModels: string[]
+  skus: string[]
+  qualifications: Array<[string, QualifiedProduct[]]>
+  textIndex: SerializedSearchIndex
+  lastUpdated: string
+}
+
+export const PRODUCT_CACHE_STORAGE_KEY = 'search-cache'
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+export function buildProductCache(snapshot: CatalogSnapshot): ProductCache {
+  const allData = snapshot.products
+  const nonEmpty = (value: string | undefined): value is string => Boolean(value)
+
+  const families = [...new Set(allData.map(p => p.family).filter(nonEmpty))].sort()
+  const productTypes = [...new Set(allData.map(p => p.productType).filter(nonEmpty))].sort()
+  const productModels = [...new Set(allData.map(p => p.productModel).filter(nonEmpty))].sort()
+  const skus = [...new Set(allData.map(p => p.sku).filter(nonEmpty))].sort()
+
+  return {
+    families,
+    productTypes,
+    productModels,
+    skus,
+    qualifications: buildQualificationIndex(allData),
+    textIndex: buildSearchIndex(allData),
+    fuzzy: fuzzyVocabularies(families, skus, productModels),
+    totalProducts: snapshot.rows.length,
+    version: snapshot.version,
+    hash: snapshot.hash,
+    lastUpdated: new Date()
+  }
+}
+
+function fuzzyVocabularies(families: string[], skus: string[], productModels: string[]): Record<FuzzyField, FuzzyVocabulary> {
+  return {
+    family: buildFuzzyVocabulary(families),
+    sku: buildFuzzyVocabulary(skus),
+    productModel: buildFuzzyVocabulary(productModels)
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+// The fuzzy vocabularies are rebuilt from the stored value lists, which is
+// cheaper than storing their bigram sets
+export function serializeProductCache(cache: ProductCache): string {
+  const persisted: PersistedProductCache = {
+    hash: cache.hash,
+    families: cache.families,
+    productTypes: cache.productTypes,
+    productModels: cache.productModels,
+    skus: cache.skus,
+    qualifications: Array.from(cache.qualifications.entries()),
+    textIndex: serializeSearchIndex(cache.textIndex),
+    lastUpdated: cache.lastUpdated.toISOString()
+  }
+  return JSON.stringify(persisted)
+}
+
+// Null unless the cache was built from this very snapshot
+export function deserializeProductCache(text: string, snapshot: CatalogSnapshot): ProductCache | null {
+  const persisted = JSON.parse(text) as PersistedProductCache
+  if (persisted.hash !== snapshot.hash) return null
+
+  return {
+    families: persisted.families,
+    productTypes: persisted.productTypes,
+    productModels: persisted.productModels,
+    skus: persisted.skus,
+    qualifications: new Map(persisted.qualifications),
+    textIndex: deserializeSearchIndex(persisted.textIndex, snapshot.products),
+    fuzzy: fuzzyVocabularies(persisted.families, persisted.skus, persisted.productModels),
+    totalProducts: snapshot.rows.length,
+    version: snapshot.version,
+    hash: snapshot.hash,
+    lastUpdated: new Date(persisted.lastUpdated)
+  }
+}
+
+// Reuses the persisted cache when it matches the snapshot's hash; otherwise
+// builds one and persists it for the next cold start
+export async function loadProductCache(snapshot: CatalogSnapshot, storage: SnapshotStorage | null): Promise<ProductCache> {
+  if (storage) {
+    try {
+      const text = await storage.read(PRODUCT_CACHE_STORAGE_KEY)
+      const restored = text ? deserializeProductCache(text, snapshot) : null
+      if (restored) {
+        console.log(`📂 Restored search cache for snapshot v${snapshot.version} from ${storage.kind} storage`)
+        return restored
+      }
+    } catch (error) {
+      console.error('❌ Error restoring search cache:', error)
+    }
+  }
+
+  const cache = buildProductCache(snapshot)
+
+  if (storage) {
+    try {
+      await writeStoredValue(storage, PRODUCT_CACHE_STORAGE_KEY, serializeProductCache(cache))
+      console.log(`💾 Persisted search cache for snapshot v${snapshot.version} to ${storage.kind} storage`)
+    } catch (error) {
+      console.error('❌ Error persisting search cache:', error)
+    }
+  }
+
+  return cache
+}
+
+// ============================================================================
+// SHARED CACHE
+// ============================================================================
+
+let productCache: ProductCache | null = null
+let cacheLoadingPromise: Promise<ProductCache> | null = null
+
+// The cache for the current catalog snapshot, rebuilt (or restored from
+// snapshot storage) whenever the snapshot picks up changed rows
+export async function getProductCache(): Promise<ProductCache> {
+  const snapshot = await getCatalogSnapshot()
+  if (productCache && productCache.version === snapshot.version) return productCache
+
+  if (!cacheLoadingPromise) {
+    const startTime = Date.now()
+    cacheLoadingPromise = loadProductCache(snapshot, getSnapshotStorage())
+      .then(cache => {
+        productCache = cache
+
+        if (cache.totalProducts === 0) {
+          console.error('❌ Catalog snapshot has no products!')
+        }
+
+        console.log(`✅ Cache ready for snapshot v${snapshot.version} in ${Date.now() - startTime}ms`)
+        console.log(`   📊 ${cache.totalProducts.toLocaleString()} total products`)
+        console.log(`   👨‍👩‍👧‍👦 ${cache.families.length} families`)
+        console.log(`   📦 ${cache.productTypes.length} product types`)
+        console.log(`   📝 ${cache.productModels.length} product models`)
+        console.log(`   🏷️  ${cache.skus.length} unique SKUs`)
+        console.log(`   🎖️ ${cache.qualifications.size} qualification specs`)
+        console.log(`   🔤 ${cache.textIndex.documentFrequency.size} indexed terms`)
+
+        return cache
+      })
+      .finally(() => {
+        cacheLoadingPromise = null
+      })
+  }
+
+  return await cacheLoadingPromise
+}
+
+export function peekProductCache(): ProductCache | null {
+  return productCache
+}
+
+// Drops the in-memory cache and its persisted copy; the next read rebuilds
+// both from the snapshot
+export async function clearProductCache(): Promise<void> {
+  productCache = null
+  const storage = getSnapshotStorage()
+  if (storage) await removeStoredValue(storage, PRODUCT_CACHE_STORAGE_KEY)
+}
@@ -0,0 +1,2 @@
+export * from './permalink'
+export * from './short-links'
@@ -0,0 +1,121 @@
+import { UnitSystem, parseUnitSystem } from '@/lib/units'
+
+// Kept free of server imports: the page encodes its state with these and the
+// server page decodes the same params
+
+// ============================================================================
+// SEARCH STATE
+// ============================================================================
+
+// Everything needed to re-run a search or comparison from a link
+export interface SearchState {
+  query?: string
+  family?: string
+  productType?: string
+  productModel?: string
+  // Color, gloss and spec bucket facets (field -> value or bucket key)
+  facets?: Record<string, string>
+  units?: UnitSystem
+  // SKUs compared through the compare endpoint; takes precedence over `query`
+  compare?: string[]
+  // Confirmed substitutes of the comparison (requested SKU -> chosen SKU)
+  substitutions?: Record<string, string>
+}
+
+export type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>
+
+// Links longer than this are shortened through the short-link store
+export const MAX_PERMALINK_LENGTH = 500
+
+const MAX_QUERY_LENGTH = 500
+
+// Facet fields carried in links under their own names; family, type and
+// model have their own params
+export const LINKED_FACET_FIELDS = ['color', 'gloss', 'vocContent', 'potLife', 'cureTime', 'coverage']
+const MAX_COMPARE_SKUS = 8
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+// ?q=&family=&type=&model=&color=&...&units=&compare=SKU1,SKU2&sub=SKU1:SKU3
+export function toSearchParams(state: SearchState): URLSearchParams {
+  const params = new URLSearchParams()
+  if (state.compare && state.compare.length > 0) {
+    params.set('compare', state.compare.join(','))
+    const substitutions = Object.entries(state.substitutions || {})
+    if (substitutions.length > 0) params.set('sub', substitutions.map(([requested, sku]) => `${requested}:${sku}`).join(','))
+  } else if (state.query) {
+    params.set('q', state.query)
+  }
+  if (state.family) params.set('family', state.family)
+  if (state.productType) params.set('type', state.productType)
+  if (state.productModel) params.set('model', state.productModel)
+  LINKED_FACET_FIELDS.forEach(field => {
+    const value = state.facets?.[field]
+    if (value) params.set(field, value)
+  })
+  if (state.units) params.set('units', state.units)
+  return params
+}
+
+export function permalinkPath(state: SearchState): string {
+  const params = toSearchParams(state).toString()
+  return params ? `/?${params}` : '/'
+}
+
+function readParam(params: SearchParamsInput, name: string): string | undefined {
+  const value = params instanceof URLSearchParams ? params.get(name) : params[name]
+  const first = Array.isArray(value) ? value[0] : value
+  const trimmed = first?.trim()
+  return trimmed ? trimmed : undefined
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean)
+}
+
+// Unknown params are ignored and over-long values cut, so any URL decodes to
+// a state the page can run
+export function parseSearchState(params: SearchParamsInput): SearchState {
+  const state: SearchState = {}
+
+  const compare = Array.from(new Set(splitList(readParam(params, 'compare')))).slice(0, MAX_COMPARE_SKUS)
+  if (compare.length > 0) {
+    state.compare = compare
+    const substitutions = splitList(readParam(params, 'sub'))
+      .map(pair => pair.split(':').map(part => part.trim()))
+      .filter(([requested, sku]) => requested && sku && compare.includes(requested))
+    if (substitutions.length > 0) state.substitutions = Object.fromEntries(substitutions)
+  }
+
+  const query = readParam(params, 'q')
+  if (query) state.query = query.slice(0, MAX_QUERY_LENGTH)
+
+  const family = readParam(params, 'family')
+  const productType = readParam(params, 'type')
+  const productModel = readParam(params, 'model')
+  const units = parseUnitSystem(readParam(params, 'units'))
+  if (family) state.family = family
+  if (productType) state.productType = productType
+  if (productModel) state.productModel = productModel
+
+  const facets = Object.fromEntries(LINKED_FACET_FIELDS
+    .map(field => [field, readParam(params, field)])
+    .filter((entry): entry is [string, string] => Boolean(entry[1])))
+  if (Object.keys(facets).length > 0) state.facets = facets
+  if (units) state.units = units
+
+  return state
+}
+
+export function isEmptySearchState(state: SearchState): boolean {
+  return !state.query && !(state.compare && state.compare.length > 0)
+}
+
+// Page title for a shared link
+export function describeSearchState(state: SearchState): string | null {
+  if (state.compare && state.compare.length > 0) return `Compare ${state.compare.join(' vs ')}`
+  if (state.query) return `"${state.query}"`
+  return null
+}
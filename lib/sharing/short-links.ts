@@ -0,0 +1,169 @@
+import { createHash, randomBytes } from 'crypto'
+import { KeyValueClient, getKeyValueClient } from '@/lib/kv'
+import { SearchState, permalinkPath } from './permalink'
+
+// ============================================================================
+// SHORT LINK TYPES
+// ============================================================================
+
+export interface ShortLink {
+  id: string
+  state: SearchState
+  // The full permalink the short link redirects to
+  path: string
+  createdAt: string
+}
+
+export interface ShortLinkStore {
+  get(id: string): Promise<ShortLink | null>
+  // Returns the existing link when the same state was shortened before
+  create(state: SearchState): Promise<ShortLink>
+}
+
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+const ID_ALPHABET = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const ID_LENGTH = 8
+
+export const SHORT_LINK_ID = /^[a-zA-Z0-9]{4,32}$/
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+function createLinkId(): string {
+  return Array.from(randomBytes(ID_LENGTH), byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('')
+}
+
+function pathDigest(path: string): string {
+  return createHash('sha1').update(path).digest('hex')
+}
+
+export interface MemoryShortLinkStoreOptions {
+  ttlMs?: number
+  maxLinks?: number
+}
+
+// Links live for `ttlMs` after they were created; beyond `maxLinks` the
+// oldest ones are dropped first
+export function createMemoryShortLinkStore(options: MemoryShortLinkStoreOptions = {}): ShortLinkStore {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+  const maxLinks = options.maxLinks ?? 10000
+  const links = new Map<string, ShortLink>()
+  // Permalink path digest -> id, so re-sharing a search reuses its link
+  const byPath = new Map<string, string>()
+
+  const isExpired = (link: ShortLink) =>
+    Date.now() - new Date(link.createdAt).getTime() > ttlMs
+
+  const remove = (link: ShortLink) => {
+    links.delete(link.id)
+    byPath.delete(pathDigest(link.path))
+  }
+
+  return {
+    async get(id) {
+      const link = links.get(id)
+      if (!link) return null
+      if (isExpired(link)) {
+        remove(link)
+        return null
+      }
+      return link
+    },
+
+    async create(state) {
+      const path = permalinkPath(state)
+      const digest = pathDigest(path)
+      const existing = byPath.get(digest)
+      const current = existing ? links.get(existing) : undefined
+      if (current && !isExpired(current)) return current
+
+      let id = createLinkId()
+      while (links.has(id)) id = createLinkId()
+
+      const link: ShortLink = { id, state, path, createdAt: new Date().toISOString() }
+      links.set(id, link)
+      byPath.set(digest, id)
+
+      while (links.size > maxLinks) {
+        const oldest = links.values().next().value
+        if (oldest === undefined) break
+        remove(oldest)
+      }
+
+      return link
+    }
+  }
+}
+
+// ============================================================================
+// KEY-VALUE STORE
+// ============================================================================
+
+export interface KeyValueShortLinkStoreOptions {
+  ttlMs?: number
+  prefix?: string
+}
+
+// Links outlive the instance that created them; the store expires them
+export function createKeyValueShortLinkStore(
+  client: KeyValueClient,
+  options: KeyValueShortLinkStoreOptions = {}
+): ShortLinkStore {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+  const prefix = options.prefix ?? 'coatings:short-link:'
+  const ttlSeconds = ttlMs / 1000
+  const linkKey = (id: string) => `${prefix}${id}`
+  const pathKey = (digest: string) => `${prefix}path:${digest}`
+
+  async function get(id: string): Promise<ShortLink | null> {
+    const text = await client.get(linkKey(id))
+    if (typeof text !== 'string') return null
+
+    const link = JSON.parse(text) as ShortLink
+    return Date.now() - new Date(link.createdAt).getTime() > ttlMs ? null : link
+  }
+
+  return {
+    get,
+
+    async create(state) {
+      const path = permalinkPath(state)
+      const digest = pathDigest(path)
+      const existing = await client.get(pathKey(digest))
+      const current = typeof existing === 'string' ? await get(existing) : null
+      if (current) return current
+
+      let id = createLinkId()
+      while (await client.get(linkKey(id))) id = createLinkId()
+
+      const link: ShortLink = { id, state, path, createdAt: new Date().toISOString() }
+      await client.set(linkKey(id), JSON.stringify(link), { ttlSeconds })
+      await client.set(pathKey(digest), id, { ttlSeconds })
+
+      return link
+    }
+  }
+}
+
+let shortLinkStore: ShortLinkStore | null = null
+
+// SHORT_LINK_TTL_DAYS sets how long a shared link keeps working. Links go to
+// the key-value store when one is configured (KV_REST_API_URL), so they work
+// on every instance; otherwise they only live in this process.
+export function getShortLinkStore(): ShortLinkStore {
+  if (!shortLinkStore) {
+    const ttlDays = parseInt(process.env.SHORT_LINK_TTL_DAYS || '', 10)
+    const ttlMs = ttlDays > 0 ? ttlDays * 24 * 60 * 60 * 1000 : undefined
+    const client = getKeyValueClient()
+    shortLinkStore = client
+      ? createKeyValueShortLinkStore(client, { ttlMs })
+      : createMemoryShortLinkStore({ ttlMs })
+  }
+  return shortLinkStore
+}
+
+export function setShortLinkStore(next: ShortLinkStore | null): void {
+  shortLinkStore = next
+}
@@ -0,0 +1,58 @@
+// ============================================================================
+// STREAMED RESPONSES (NDJSON / SSE)
+// ============================================================================
+
+export type StreamFormat = 'ndjson' | 'sse'
+
+export type SendEvent = (event: string, data: Record<string, any>) => void
+
+const CONTENT_TYPES: Record<StreamFormat, string> = {
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  sse: 'text/event-stream; charset=utf-8'
+}
+
+// `stream: true` in the body picks NDJSON unless the client asked for
+// text/event-stream; an Accept header alone is enough to opt in
+export function parseStreamFormat(requested: unknown, accept: string | null): StreamFormat | null {
+  const wantsSse = requested === 'sse' || Boolean(accept?.includes('text/event-stream'))
+  if (wantsSse) return 'sse'
+  if (requested === true || requested === 'ndjson' || accept?.includes('application/x-ndjson')) return 'ndjson'
+  return null
+}
+
+function encodeEvent(format: StreamFormat, event: string, data: Record<string, any>): string {
+  return format === 'sse'
+    ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+    : `${JSON.stringify({ event, data })}\n`
+}
+
+// Runs `producer` after the response has started; anything it throws is sent
+// as a final `error` event because the status line is already out
+export function createEventStream(format: StreamFormat, producer: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder()
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(encodeEvent(format, event, data)))
+      }
+
+      try {
+        await producer(send)
+      } catch (error: any) {
+        console.error('❌ Stream error:', error)
+        send('error', { success: false, error: error.message || 'An error occurred while streaming the response' })
+      } finally {
+        controller.close()
+      }
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
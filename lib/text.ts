@@ -0,0 +1,21 @@
+// Only tag-shaped markup is removed, so comparisons ("< 340 g/L", "pot life
+// > 4 hours") survive
+export function stripHtml(html: string): string {
+  if (typeof html !== 'string') return html
+  return html
+    .replace(/<!--[\s\S]*?-->|<\/?[a-z][^<>]*>/gi, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/&deg;/g, '°')
+    .replace(/&reg;/g, '®')
+    .replace(/&copy;/g, '©')
+    .replace(/&trade;/g, '™')
+    .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(dec))
+    .replace(/&#x([0-9a-fA-F]+);/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .trim()
+}
@@ -0,0 +1,141 @@
+// ============================================================================
+// UNIT CONVERSION (METRIC ↔ IMPERIAL)
+// ============================================================================
+
+export type UnitSystem = 'metric' | 'imperial'
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial']
+
+const G_PER_L_PER_LB_PER_GAL = 119.826
+const FT2_PER_GAL_PER_M2_PER_L = 40.7458
+const MICRONS_PER_MIL = 25.4
+
+export function round(value: number, digits: number = 1): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+export function celsiusToFahrenheit(celsius: number): number {
+  return round(celsius * 9 / 5 + 32)
+}
+
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return round((fahrenheit - 32) * 5 / 9)
+}
+
+export function poundsPerGallonToGramsPerLiter(lbPerGal: number): number {
+  return round(lbPerGal * G_PER_L_PER_LB_PER_GAL)
+}
+
+export function gramsPerLiterToPoundsPerGallon(gPerL: number): number {
+  return round(gPerL / G_PER_L_PER_LB_PER_GAL, 2)
+}
+
+export function squareMetersPerLiterToSquareFeetPerGallon(m2PerL: number): number {
+  return round(m2PerL * FT2_PER_GAL_PER_M2_PER_L)
+}
+
+export function squareFeetPerGallonToSquareMetersPerLiter(ft2PerGal: number): number {
+  return round(ft2PerGal / FT2_PER_GAL_PER_M2_PER_L)
+}
+
+export function milsToMicrons(mils: number): number {
+  return round(mils * MICRONS_PER_MIL)
+}
+
+export function micronsToMils(microns: number): number {
+  return round(microns / MICRONS_PER_MIL, 2)
+}
+
+export function parseUnitSystem(value: unknown): UnitSystem | null {
+  return typeof value === 'string' && UNIT_SYSTEMS.includes(value as UnitSystem)
+    ? value as UnitSystem
+    : null
+}
+
+// Prompt instructions for answers in the requested system
+export const UNIT_INSTRUCTIONS: Record<UnitSystem, string> = {
+  metric: 'Report every measurement in metric units (°C, g/L, m²/L, µm), converting any imperial values.',
+  imperial: 'Report every measurement in imperial units (°F, lb/gal, ft²/gal, mil), converting any metric values.'
+}
+
+// ============================================================================
+// TEXT CONVERSION
+// ============================================================================
+
+// A dash is a minus sign only where it doesn't follow a digit; between two
+// numbers it separates a range ("60-90°F"), and both ends are converted
+const NUMBER = '(?<![\\d.,])(-?\\d[\\d,]*(?:\\.\\d+)?)'
+const QUANTITY = `${NUMBER}(?:(\\s*(?:-|–|to)\\s*)(-?\\d[\\d,]*(?:\\.\\d+)?))?`
+
+interface TextConversion {
+  pattern: RegExp
+  // The system a match is already written in
+  system: UnitSystem
+  convert: (value: number) => number
+  unit: string
+}
+
+// Each rule rewrites a quantity written in the other system; quantities
+// already in the requested system are left untouched
+const TEXT_CONVERSIONS: TextConversion[] = [
+  {
+    pattern: new RegExp(`${QUANTITY}\\s*(?:°|º|deg(?:rees)?\\s*)\\s*F\\b`, 'gi'),
+    system: 'imperial',
+    convert: fahrenheitToCelsius,
+    unit: '°C'
+  },
+  {
+    pattern: new RegExp(`${QUANTITY}\\s*(?:°|º|deg(?:rees)?\\s*)\\s*C\\b`, 'gi'),
+    system: 'metric',
+    convert: celsiusToFahrenheit,
+    unit: '°F'
+  },
+  {
+    pattern: new RegExp(`${QUANTITY}\\s*lbs?\\s*/\\s*gal\\b`, 'gi'),
+    system: 'imperial',
+    convert: poundsPerGallonToGramsPerLiter,
+    unit: 'g/L'
+  },
+  {
+    pattern: new RegExp(`${QUANTITY}\\s*g\\s*/\\s*l\\b`, 'gi'),
+    system: 'metric',
+    convert: gramsPerLiterToPoundsPerGallon,
+    unit: 'lb/gal'
+  },
+  {
+    pattern: new RegExp(`${QUANTITY}\\s*(?:ft²|ft2|sq\\.?\\s*ft)\\s*/\\s*gal\\b`, 'gi'),
+    system: 'imperial',
+    convert: squareFeetPerGallonToSquareMetersPerLiter,
+    unit: 'm²/L'
+  },
+  {
+    pattern: new RegExp(`${QUANTITY}\\s*(?:m²|m2)\\s*/\\s*l\\b`, 'gi'),
+    system: 'metric',
+    convert: squareMetersPerLiterToSquareFeetPerGallon,
+    unit: 'ft²/gal'
+  },
+  {
+    // Film thickness ("1 mil DFT"), not MIL-PRF spec numbers
+    pattern: new RegExp(`${QUANTITY}\\s*mils?\\b(?!-)`, 'gi'),
+    system: 'imperial',
+    convert: milsToMicrons,
+    unit: 'µm'
+  },
+  {
+    pattern: new RegExp(`${QUANTITY}\\s*(?:µm|microns?)\\b`, 'gi'),
+    system: 'metric',
+    convert: micronsToMils,
+    unit: 'mil'
+  }
+]
+
+export function convertUnitsInText(text: string, system: UnitSystem): string {
+  return TEXT_CONVERSIONS
+    .filter(rule => rule.system !== system)
+    .reduce((converted, rule) => converted.replace(rule.pattern, (_match, low: string, separator?: string, high?: string) => {
+      const convert = (value: string) => rule.convert(parseFloat(value.replace(/,/g, '')))
+      const value = high === undefined ? `${convert(low)}` : `${convert(low)}${separator}${convert(high)}`
+      return `${value} ${rule.unit}`.replace(/ °/, '°')
+    }), text)
+}
@@ -0,0 +1,32 @@
+-- match_coatings with optional family / product type / product model filters.
+-- The filters are applied before the match_count limit, so a narrow filter
+-- still returns a full page of neighbours. A null filter matches any value.
+--
+-- Rows come back as the full `coatings` row (minus the embedding) plus a
+-- `similarity` key, the shape the catalog repository reads.
+
+-- The old three-argument signature would make calls ambiguous
+drop function if exists match_coatings(vector, float, int);
+
+create or replace function match_coatings(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  filter_family text default null,
+  filter_product_type text default null,
+  filter_product_model text default null
+)
+returns setof jsonb
+language sql
+stable
+as $$
+  select (to_jsonb(c) - 'embedding') || jsonb_build_object('similarity', 1 - (c.embedding <=> query_embedding))
+  from coatings c
+  where c.embedding is not null
+    and (filter_family is null or c.family = filter_family)
+    and (filter_product_type is null or c."Product_Type" = filter_product_type)
+    and (filter_product_model is null or c."Product_Model" = filter_product_model)
+    and 1 - (c.embedding <=> query_embedding) > match_threshold
+  order by c.embedding <=> query_embedding
+  limit match_count;
+$$;
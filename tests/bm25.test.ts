@@ -0,0 +1,57 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { normalizeProducts } from '@/lib/catalog'
+import { SearchHit, buildSearchIndex, deserializeSearchIndex, searchIndex, serializeSearchIndex, tokenizeText } from '@/lib/search'
+
+const { products } = normalizeProducts([
+  { sku: 'EP-100', Product_Name: 'Epoxy Primer', Product_Description: 'Two component primer' },
+  { sku: 'PR-200', Product_Name: 'Primer', Product_Description: 'Compatible with epoxy topcoats' },
+  { sku: 'UT-300', Product_Name: 'Urethane Topcoat', Product_Description: 'High gloss white' },
+  { sku: 'PU-400', Product_Name: 'Polyurethane Enamel', Product_Description: 'Gloss black' }
+])
+
+const index = buildSearchIndex(products)
+const skus = (hits: SearchHit[]) => hits.map(hit => hit.product.sku)
+
+describe('tokenizeText', () => {
+  test('drops markup and stopwords and folds plurals', () => {
+    assert.deepEqual(tokenizeText('Show me <b>Epoxy</b> Primers, Batteries & 1-GAL cans'), ['epoxy', 'primer', 'battery', '1', 'gal', 'can'])
+  })
+
+  test('keeps double s and codes with digits', () => {
+    assert.deepEqual(tokenizeText('High gloss 44GN072s'), ['high', 'gloss', '44gn072s'])
+  })
+})
+
+describe('searchIndex', () => {
+  test('ranks a name match with the phrase above a description match', () => {
+    const hits = searchIndex(index, 'epoxy primer')
+    assert.deepEqual(skus(hits), ['EP-100', 'PR-200'])
+    assert.deepEqual(hits[0].matchedPhrases, ['epoxy primer'])
+    assert.deepEqual(hits[0].matchedFields, ['name', 'description'])
+    assert.deepEqual(hits[1].matchedPhrases, [])
+  })
+
+  test('weights rare terms above common ones', () => {
+    const [rare] = searchIndex(index, 'black')
+    const [common] = searchIndex(index, 'gloss')
+    assert.equal(rare.product.sku, 'PU-400')
+    assert.ok(rare.score > common.score)
+  })
+
+  test('scores expansions at half the weight of the query', () => {
+    const hits = searchIndex(index, 'polyurethane', { expansions: ['urethane'] })
+    assert.deepEqual(skus(hits), ['PU-400', 'UT-300'])
+    assert.equal(hits[1].score, searchIndex(index, 'urethane')[0].score / 2)
+  })
+
+  test('filters before applying the limit', () => {
+    const hits = searchIndex(index, 'primer gloss', { limit: 1, filter: product => product.sku !== 'EP-100' })
+    assert.deepEqual(skus(hits), ['PR-200'])
+  })
+
+  test('scores a restored index the same as the one it was saved from', () => {
+    const restored = deserializeSearchIndex(JSON.parse(JSON.stringify(serializeSearchIndex(index))), products)
+    assert.deepEqual(searchIndex(restored, 'gloss primer'), searchIndex(index, 'gloss primer'))
+  })
+})
@@ -0,0 +1,69 @@
+import { before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { createMemoryCatalogRepository, setCatalogRepository } from '@/lib/catalog'
+import { resolveComparisonSkus } from '@/lib/comparison'
+
+// ZX1234 is no family, so the closest family (ZX1299) is suggested before the
+// SKU match finds ZX1234-1GL itself
+const ROWS = [
+  { sku: 'ZX1234-1GL', family: 'ZXA', Product_Name: 'ZX1234 Epoxy Primer' },
+  { sku: 'ZX1299-1GL', family: 'ZX1299', Product_Name: 'ZX1299 Epoxy Primer' },
+  { sku: 'CA7233-1GL', family: 'CA7233', Product_Name: 'CA7233 Urethane Topcoat' }
+]
+
+const repository = createMemoryCatalogRepository(ROWS)
+
+let POST: (request: NextRequest) => Promise<Response>
+
+before(async () => {
+  process.env.EMBEDDING_PROVIDER = 'local'
+  process.env.LLM_PROVIDER = 'local'
+  process.env.CATALOG_SNAPSHOT_STORAGE = 'none'
+  setCatalogRepository(repository)
+  POST = (await import('@/app/api/coatings-smart-search/route')).POST
+})
+
+async function search(query: string) {
+  const response = await POST(new NextRequest('http://localhost/api/coatings-smart-search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query })
+  }))
+  return response.json()
+}
+
+describe('comparison queries', () => {
+  test('drop the substitute of a product a later method found', async () => {
+    const data = await search('compare ZX1234 to CA7233')
+
+    assert.deepEqual(data.comparison.products.map((product: any) => product.sku), ['ZX1234-1GL', 'CA7233-1GL'])
+    assert.equal(data.success, true)
+    assert.equal(data.substitutes, undefined)
+    assert.equal(data.notFound, undefined)
+  })
+})
+
+describe('resolveComparisonSkus', () => {
+  test('looks SKUs up ignoring case', async () => {
+    const selection = await resolveComparisonSkus(['zx1234-1gl', 'Ca7233-1Gl'])
+    assert.deepEqual(selection.products.map(product => product.sku), ['ZX1234-1GL', 'CA7233-1GL'])
+    assert.deepEqual(selection.notFound, [])
+  })
+
+  test('reports a substitute that is already compared', async () => {
+    const selection = await resolveComparisonSkus(['CA7233-1GL', 'NOPE-1'], { 'NOPE-1': 'ca7233-1gl' })
+    assert.deepEqual(selection.products.map(product => product.sku), ['CA7233-1GL'])
+    assert.deepEqual(selection.notFound, ['NOPE-1'])
+    assert.deepEqual(selection.duplicates, [{ requested: 'NOPE-1', sku: 'CA7233-1GL' }])
+  })
+
+  test('throws a catalog error instead of reporting the SKU missing', async () => {
+    setCatalogRepository({ ...repository, findWhere: async () => { throw new Error('connection reset') } })
+    try {
+      await assert.rejects(resolveComparisonSkus(['ZX1234-1GL', 'CA7233-1GL']), /connection reset/)
+    } finally {
+      setCatalogRepository(repository)
+    }
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { toCsv } from '@/lib/export/csv'
+
+const row = (...cells: string[]) => toCsv([cells]).slice(1, -2)
+
+describe('toCsv', () => {
+  test('prefixes cells that would run as formulas', () => {
+    assert.equal(row('=HYPERLINK("http://x")'), '"\'=HYPERLINK(""http://x"")"')
+    assert.equal(row('+1+1', '@SUM(A1)', '-2+3'), "'+1+1,'@SUM(A1),'-2+3")
+  })
+
+  test('leaves negative numbers alone', () => {
+    assert.equal(row('-65', '-1,200.5'), '-65,"-1,200.5"')
+  })
+
+  test('quotes cells with separators and quotes', () => {
+    assert.equal(row('2:1, by volume', 'say "hi"'), '"2:1, by volume","say ""hi"""')
+  })
+})
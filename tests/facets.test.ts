@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { FacetResult, computeFacets, normalizeProducts, sanitizeFacetSelection } from '@/lib/catalog'
+
+const { products } = normalizeProducts([
+  { sku: 'CA7233-1', family: 'CA7233', Product_Type: 'Primer', Gloss: 'Lusterless', VOC_Content: '340 g/L', Pot_Life: '2-6 hours' },
+  { sku: 'CA7233-2', family: 'CA7233', Product_Type: 'Topcoat', Gloss: 'High Gloss (90+ at 60°)', VOC_Content: '420 g/L', Pot_Life: '8 hours' },
+  { sku: 'CA8100-1', family: 'CA8100', Product_Type: 'Primer', Gloss: 'Semi-Gloss', VOC_Content: '100 g/L', Pot_Life: '3 hours' },
+  { sku: '44GN-1', family: '44GN', Product_Type: 'Topcoat', Gloss: 'gloss', VOC_Content: '300 g/L' }
+])
+
+const counts = (result: FacetResult, field: string) =>
+  Object.fromEntries(result.facets.find(facet => facet.field === field)!.values.map(value => [value.value, value.count]))
+
+describe('computeFacets', () => {
+  test('counts each facet without its own selection', () => {
+    const result = computeFacets(products, { productType: 'Primer' })
+    assert.equal(result.total, 2)
+    assert.deepEqual(counts(result, 'productType'), { Primer: 2, Topcoat: 2 })
+    assert.deepEqual(counts(result, 'family'), { CA7233: 1, CA8100: 1 })
+  })
+
+  test('narrows every facet by the selections of the others', () => {
+    const result = computeFacets(products, { family: 'ca7233', productType: 'primer' })
+    assert.equal(result.total, 1)
+    assert.deepEqual(counts(result, 'productType'), { Primer: 1, Topcoat: 1 })
+    assert.deepEqual(counts(result, 'family'), { CA7233: 1, CA8100: 1 })
+    const family = result.facets.find(facet => facet.field === 'family')!
+    assert.deepEqual(family.values.filter(value => value.selected).map(value => value.value), ['CA7233'])
+  })
+
+  test('groups gloss by class and counts a spec range in every bucket it spans', () => {
+    const result = computeFacets(products)
+    assert.deepEqual(counts(result, 'gloss'), { Gloss: 2, 'Flat / Matte': 1, 'Semi-Gloss': 1 })
+    assert.deepEqual(counts(result, 'potLife'), { '1-4': 2, '4-8': 2 })
+    assert.deepEqual(counts(result, 'vocContent'), { 'lte-100': 1, '250-340': 2, '340-420': 1 })
+  })
+
+  test('keeps a selection nothing matches so it can be cleared', () => {
+    const result = computeFacets(products, { family: 'CA9999' })
+    assert.equal(result.total, 0)
+    const family = result.facets.find(facet => facet.field === 'family')!
+    assert.deepEqual(family.values[0], { value: 'CA9999', label: 'CA9999', count: 0, selected: true })
+  })
+})
+
+describe('sanitizeFacetSelection', () => {
+  test('drops unknown fields and bucket keys', () => {
+    const params = new URLSearchParams('family=CA7233&vocContent=1-2&potLife=1-4&sku=X')
+    assert.deepEqual(sanitizeFacetSelection(params), { family: 'CA7233', potLife: '1-4' })
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { FusionOptions, RankedList, fuseRankings, resolveFusionOptions } from '@/lib/search'
+
+interface Hit {
+  sku: string
+  similarity?: number
+}
+
+const hits = (...skus: string[]): Hit[] => skus.map(sku => ({ sku }))
+
+function fuse(lists: RankedList<Hit>[], options: Partial<FusionOptions>) {
+  return fuseRankings(lists, { strategy: 'rrf', k: 60, weights: {}, ...options }, hit => hit.sku)
+}
+
+describe('fuseRankings', () => {
+  test('rrf ranks a product found by several sources first', () => {
+    const fused = fuse([
+      { source: 'keyword', items: hits('A', 'B', 'C') },
+      { source: 'semantic', items: hits('C', 'D') }
+    ], { strategy: 'rrf' })
+
+    assert.deepEqual(fused.map(result => result.key), ['C', 'A', 'B', 'D'])
+    assert.deepEqual(fused[0].ranks, { keyword: 3, semantic: 1 })
+    assert.deepEqual(fused[1].ranks, { keyword: 1, semantic: null })
+    assert.equal(fused[0].score, 1 / 63 + 1 / 61)
+  })
+
+  test('rrf scales each source by its weight', () => {
+    const fused = fuse([
+      { source: 'keyword', items: hits('A', 'B', 'C') },
+      { source: 'semantic', items: hits('C', 'D') }
+    ], { strategy: 'rrf', weights: { semantic: 3 } })
+
+    assert.deepEqual(fused.map(result => result.key), ['C', 'D', 'A', 'B'])
+  })
+
+  test('weighted sums min-max normalised scores', () => {
+    const fused = fuse([
+      { source: 'keyword', items: hits('A', 'B', 'C'), scores: [9, 8, 0] },
+      { source: 'semantic', items: hits('B', 'C'), scores: [0.3, 0.2] }
+    ], { strategy: 'weighted' })
+
+    assert.deepEqual(fused.map(result => result.key), ['B', 'A', 'C'])
+    assert.equal(fused[0].score, 8 / 9 + 1)
+    assert.equal(fused[2].score, 0)
+  })
+
+  test('weighted falls back to ranks without scores', () => {
+    const fused = fuse([{ source: 'exact', items: hits('A', 'B') }], { strategy: 'weighted' })
+    assert.deepEqual(fused.map(result => result.score), [1, 0.5])
+  })
+
+  test('priority keeps every result of a source ahead of the next source', () => {
+    const fused = fuse([
+      { source: 'exact', items: hits('A', 'B') },
+      { source: 'semantic', items: hits('C', 'A', 'D') }
+    ], { strategy: 'priority', weights: { semantic: 10 } })
+
+    assert.deepEqual(fused.map(result => result.key), ['A', 'B', 'C', 'D'])
+    assert.deepEqual(fused[0].ranks, { exact: 1, semantic: 2 })
+  })
+
+  test('keeps the best rank of a source listing a product twice and merges later sources', () => {
+    const fused = fuseRankings<Hit>(
+      [
+        { source: 'keyword', items: hits('A', 'B', 'A') },
+        { source: 'semantic', items: [{ sku: 'A', similarity: 0.8 }] }
+      ],
+      { strategy: 'rrf', k: 60, weights: {} },
+      hit => hit.sku,
+      (kept, other) => ({ ...kept, similarity: other.similarity })
+    )
+
+    assert.deepEqual(fused[0].ranks, { keyword: 1, semantic: 1 })
+    assert.equal(fused[0].score, 2 / 61)
+    assert.deepEqual(fused[0].item, { sku: 'A', similarity: 0.8 })
+  })
+})
+
+describe('resolveFusionOptions', () => {
+  test('lets a request override the defaults and ignores invalid values', () => {
+    const options = resolveFusionOptions({ strategy: 'weighted', k: '-1', weights: 'exact:2, semantic:x, keyword:0.5' })
+    assert.deepEqual(options, { strategy: 'weighted', k: 60, weights: { exact: 2, keyword: 0.5 } })
+    assert.equal(resolveFusionOptions({ strategy: 'best' }).strategy, 'rrf')
+  })
+})
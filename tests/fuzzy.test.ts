@@ -0,0 +1,46 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildFuzzyVocabulary, editDistance, findFuzzyMatches, maxEdits } from '@/lib/search'
+
+describe('editDistance', () => {
+  test('counts an adjacent transposition as one edit', () => {
+    assert.equal(editDistance('ca8010', 'ca8100'), 1)
+    assert.equal(editDistance('kitten', 'sitting'), 3)
+  })
+
+  test('stops at one past the allowed distance', () => {
+    assert.equal(editDistance('kitten', 'sitting', 1), 2)
+    assert.equal(editDistance('ca8100', 'ca8100xyz', 2), 3)
+  })
+})
+
+describe('maxEdits', () => {
+  test('allows more edits for longer terms', () => {
+    assert.deepEqual([4, 5, 7, 8, 11, 12].map(maxEdits), [0, 1, 1, 2, 2, 3])
+  })
+})
+
+describe('findFuzzyMatches', () => {
+  test('ranks by distance and drops candidates past the threshold', () => {
+    const vocabulary = buildFuzzyVocabulary(['CA8100', 'CA8200', 'CA8010'])
+    assert.deepEqual(findFuzzyMatches('primer CA 8010', vocabulary), [
+      { value: 'CA8010', distance: 0, confidence: 1 },
+      { value: 'CA8100', distance: 1, confidence: 0.83 }
+    ])
+  })
+
+  test('breaks distance ties by confidence', () => {
+    const vocabulary = buildFuzzyVocabulary(['CA8100', 'CA8010X'])
+    assert.deepEqual(findFuzzyMatches('CA8010', vocabulary).map(match => match.value), ['CA8010X', 'CA8100'])
+  })
+
+  test('does not correct short codes', () => {
+    assert.deepEqual(findFuzzyMatches('CA81', buildFuzzyVocabulary(['CA80', 'CA82'])), [])
+  })
+
+  test('allows two edits from eight characters', () => {
+    const vocabulary = buildFuzzyVocabulary(['44GN072-1GL'])
+    assert.equal(findFuzzyMatches('44GN027-1G', vocabulary)[0]?.distance, 2)
+    assert.deepEqual(findFuzzyMatches('45GN027-2G', vocabulary), [])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createAnswerGrounder, groundAnswer } from '@/lib/ai'
+import { normalizeProducts } from '@/lib/catalog'
+import { stripHtml } from '@/lib/text'
+
+const { products } = normalizeProducts([
+  { sku: 'CA7233', Product_Name: 'Epoxy Primer', Pot_Life: '4 hours', VOC_Content: '340 g/L' },
+  { sku: '44GN072', Product_Name: 'Polyurethane Topcoat', Pot_Life: '6 hours', VOC_Content: '420 g/L' }
+])
+
+describe('groundAnswer', () => {
+  test('checks a number against the product its line names', () => {
+    const answer = groundAnswer('CA7233 has a pot life of 6 hours.\n44GN072 has a pot life of 6 hours.', products)
+    assert.deepEqual(answer.segments.map(segment => segment.unsupportedValues), [['6'], []])
+    assert.equal(answer.verification.grounded, false)
+  })
+
+  test('checks list items against the product named above them', () => {
+    const answer = groundAnswer('### CA7233\n- Pot life: 4 hours\n- VOC content: 420 g/L', products)
+    assert.deepEqual(answer.segments.map(segment => segment.unsupportedValues), [[], [], ['420']])
+  })
+
+  test('checks a labelled line against that field only', () => {
+    const answer = groundAnswer('Pot life: 340 minutes', products)
+    assert.deepEqual(answer.verification.unsupportedValues, ['340'])
+  })
+
+  test('accepts a value its citation supports', () => {
+    const answer = groundAnswer('Pot life is 4 hours [[CA7233|Pot_Life]]', products)
+    assert.equal(answer.text, 'Pot life is 4 hours')
+    assert.equal(answer.verification.grounded, true)
+  })
+
+  test('keeps comparisons written with angle brackets', () => {
+    const answer = groundAnswer('Both are < 450 g/L and pot life > 2 hours', products, ['under 450 g/L', 'over 2 hours'])
+    assert.equal(answer.text, 'Both are < 450 g/L and pot life > 2 hours')
+  })
+})
+
+describe('createAnswerGrounder', () => {
+  test('grounds streamed deltas into the same text as the whole answer', () => {
+    const text = '### CA7233\n- Pot life: 4 hours [[CA7233|Pot_Life]]\n- VOC <b>content</b>: 340 g/L'
+    const grounder = createAnswerGrounder(products)
+    const streamed: string[] = []
+    for (let i = 0; i < text.length; i += 7) {
+      streamed.push(...grounder.push(text.slice(i, i + 7)).map(segment => segment.text))
+    }
+    streamed.push(...grounder.flush().map(segment => segment.text))
+
+    assert.equal(streamed.join('\n'), groundAnswer(text, products).text)
+    assert.deepEqual(grounder.result(), groundAnswer(text, products))
+  })
+})
+
+describe('stripHtml', () => {
+  test('removes tags but not comparisons', () => {
+    assert.equal(stripHtml('<p>VOC < 340 g/L</p>'), 'VOC < 340 g/L')
+    assert.equal(stripHtml('pot life >4 hours, <8 hours<br/>'), 'pot life >4 hours, <8 hours')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { normalizeProducts } from '@/lib/catalog'
+import { ComparisonMatrix, buildComparisonMatrix } from '@/lib/comparison'
+
+const { products } = normalizeProducts([
+  { sku: 'CA7233', Product_Name: 'Epoxy Primer', VOC_Content: '340 g/L', Pot_Life: '4 hours', Cure_Time: '8 hours', Theoretical_Coverage_ft2gal: '400' },
+  { sku: '44GN072', Product_Name: 'Polyurethane Topcoat', VOC_Content: '420 g/L', Pot_Life: '90 minutes', Cure_Time: '8 hours', Theoretical_Coverage_ft2gal: '450' },
+  { sku: 'CA8100', Product_Name: 'Epoxy Primer, Low VOC', VOC_Content: '340 g/L', Pot_Life: '4 hours', Cure_Time: '8 hours' }
+])
+
+function row(matrix: ComparisonMatrix, key: string) {
+  const found = matrix.rows.find(candidate => candidate.key === key)
+  assert.ok(found, `no ${key} row`)
+  return found
+}
+
+const winners = (matrix: ComparisonMatrix, key: string) => row(matrix, key).cells.map(cell => cell.winner)
+
+describe('buildComparisonMatrix', () => {
+  test('marks every product tied for the best value', () => {
+    const matrix = buildComparisonMatrix(products)
+    assert.deepEqual(winners(matrix, 'vocContent'), [true, false, true])
+    assert.deepEqual(winners(matrix, 'potLife'), [true, false, true])
+  })
+
+  test('marks no winner when every stated value ties', () => {
+    const matrix = buildComparisonMatrix(products)
+    assert.deepEqual(winners(matrix, 'cureTime'), [false, false, false])
+    assert.equal(row(matrix, 'cureTime').differs, false)
+  })
+
+  test('skips products without a value', () => {
+    assert.deepEqual(winners(buildComparisonMatrix(products), 'coverage'), [false, true, false])
+  })
+
+  test('follows overridden directions', () => {
+    const matrix = buildComparisonMatrix(products, { directions: { vocContent: 'higher', potLife: 'none' } })
+    assert.deepEqual(winners(matrix, 'vocContent'), [false, true, false])
+    assert.deepEqual(winners(matrix, 'potLife'), [false, false, false])
+  })
+
+  test('shows each row in one unit and compares canonical values', () => {
+    const matrix = buildComparisonMatrix(products, { units: 'imperial' })
+    const voc = row(matrix, 'vocContent')
+    assert.equal(voc.unit, 'lb/gal')
+    assert.deepEqual(voc.cells.map(cell => cell.display), ['2.84 lb/gal', '3.51 lb/gal', '2.84 lb/gal'])
+    assert.deepEqual(voc.cells.map(cell => cell.value), [340, 420, 340])
+
+    const potLife = row(matrix, 'potLife')
+    assert.equal(potLife.unit, 'hours')
+    assert.deepEqual(potLife.cells.map(cell => cell.display), ['4 hours', '1.5 hours', '4 hours'])
+
+    assert.equal(row(buildComparisonMatrix(products, { units: 'metric' }), 'coverage').unit, 'm²/L')
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ConversationSession, appendTurn, createSession, resolveFollowUp } from '@/lib/conversation'
+
+function sessionWithResults(): ConversationSession {
+  return appendTurn(createSession(), {
+    query: 'epoxy primers',
+    resolvedQuery: 'epoxy primers',
+    products: [
+      { sku: 'CA7233', name: 'Epoxy Primer, Chromate-Free', productType: 'Primer' },
+      { sku: '44GN072', name: 'Epoxy Primer, White', productType: 'Primer' }
+    ],
+    createdAt: new Date().toISOString()
+  })
+}
+
+describe('resolveFollowUp', () => {
+  test('resolves pronouns against the previous results', () => {
+    const session = sessionWithResults()
+    assert.equal(resolveFollowUp('are they chromate free?', session).query, 'are CA7233 and 44GN072 chromate free?')
+    assert.equal(resolveFollowUp('what is its pot life?', session).query, 'what is CA7233 pot life?')
+    assert.equal(resolveFollowUp('do these work on aluminum?', session).query, 'do CA7233 and 44GN072 work on aluminum?')
+  })
+
+  test('leaves a query with a subject of its own alone', () => {
+    const session = sessionWithResults()
+    const resolution = resolveFollowUp('primer for both aluminum and steel', session)
+    assert.equal(resolution.resolved, false)
+    assert.equal(resolution.query, 'primer for both aluminum and steel')
+    assert.equal(resolveFollowUp('is it compatible with CA8100?', session).resolved, false)
+  })
+
+  test('still resolves a category that points back', () => {
+    const session = sessionWithResults()
+    assert.equal(resolveFollowUp('are these primers qualified to MIL-PRF-23377?', session).resolved, true)
+  })
+
+  test('resolves descriptors only with a word that points back', () => {
+    const session = sessionWithResults()
+    assert.equal(resolveFollowUp('is the white one available in quarts?', session).query, 'is 44GN072 available in quarts?')
+    assert.equal(resolveFollowUp('show me the first product', session).query, 'show me CA7233')
+    const resolution = resolveFollowUp('show me the white products under 340 g/L', session)
+    assert.equal(resolution.resolved, false)
+    assert.equal(resolution.query, 'show me the white products under 340 g/L')
+  })
+
+  test('keeps a quantity from counting as a product', () => {
+    const session = sessionWithResults()
+    assert.equal(resolveFollowUp('are they under 340 g/L?', session).query, 'are CA7233 and 44GN072 under 340 g/L?')
+  })
+
+  test('does not resolve without earlier results', () => {
+    assert.equal(resolveFollowUp('are they chromate free?', createSession()).resolved, false)
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  ProductRecord,
+  createCatalogSnapshotStore,
+  createMemoryCatalogRepository,
+  createMemorySnapshotStorage
+} from '@/lib/catalog'
+
+const MONDAY = '2026-01-05T00:00:00.000Z'
+const TUESDAY = '2026-01-06T00:00:00.000Z'
+
+function catalog(rows: ProductRecord[]) {
+  const repository = createMemoryCatalogRepository(rows)
+  return createCatalogSnapshotStore(() => repository)
+}
+
+const skus = (rows: ProductRecord[]) => rows.map(row => row.sku)
+
+describe('catalog snapshot refresh', () => {
+  test('merges changed rows by SKU', async () => {
+    const rows: ProductRecord[] = [
+      { sku: 'A', Product_Name: 'Primer', updated_at: MONDAY },
+      { sku: 'B', Product_Name: 'Topcoat', updated_at: MONDAY }
+    ]
+    const store = catalog(rows)
+    const first = await store.refresh()
+    assert.equal(first.mode, 'full')
+
+    rows[1] = { sku: 'B', Product_Name: 'Topcoat, White', updated_at: TUESDAY }
+    rows.push({ sku: 'C', Product_Name: 'Sealant', updated_at: TUESDAY })
+    const result = await store.refresh()
+
+    assert.equal(result.mode, 'incremental')
+    assert.equal(result.changedRows, 2)
+    assert.deepEqual(skus(result.snapshot.rows), ['A', 'B', 'C'])
+    assert.equal(result.snapshot.rows[1].Product_Name, 'Topcoat, White')
+    assert.equal(result.snapshot.products[1].name, 'Topcoat, White')
+    assert.equal(result.snapshot.version, first.snapshot.version + 1)
+    assert.equal(result.snapshot.watermark, TUESDAY)
+  })
+
+  test('keeps the version when nothing changed', async () => {
+    const store = catalog([{ sku: 'A', updated_at: MONDAY }])
+    const first = await store.refresh()
+    const result = await store.refresh()
+    assert.equal(result.mode, 'incremental')
+    assert.equal(result.changedRows, 0)
+    assert.equal(result.snapshot.version, first.snapshot.version)
+  })
+
+  test('reloads every row when the count no longer matches', async () => {
+    const rows: ProductRecord[] = [{ sku: 'A', updated_at: MONDAY }, { sku: 'B', updated_at: MONDAY }]
+    const store = catalog(rows)
+    await store.refresh()
+
+    rows.shift()
+    const result = await store.refresh()
+    assert.equal(result.mode, 'full')
+    assert.deepEqual(skus(result.snapshot.rows), ['B'])
+  })
+
+  test('reloads every row when a changed row shares its SKU', async () => {
+    const rows: ProductRecord[] = [
+      { sku: 'A', Product_Name: 'Primer', updated_at: MONDAY },
+      { sku: 'A', Product_Name: 'Primer, Quart', updated_at: MONDAY }
+    ]
+    const store = catalog(rows)
+    await store.refresh()
+
+    rows[1] = { sku: 'A', Product_Name: 'Primer, Gallon', updated_at: TUESDAY }
+    const result = await store.refresh()
+    assert.equal(result.mode, 'full')
+    assert.deepEqual(result.snapshot.rows.map(row => row.Product_Name), ['Primer', 'Primer, Gallon'])
+  })
+})
+
+describe('catalog snapshot storage', () => {
+  test('restores the persisted snapshot with its normalization report', async () => {
+    const storage = createMemorySnapshotStorage()
+    const repository = createMemoryCatalogRepository([{ sku: 'A', Product_Name: 'Primer', updated_at: MONDAY }, { Product_Name: 'Unlabelled', updated_at: MONDAY }])
+    const loaded = await createCatalogSnapshotStore(() => repository, { storage }).get()
+
+    const restored = await createCatalogSnapshotStore(() => repository, { storage }).get()
+    assert.equal(restored.origin, 'storage')
+    assert.equal(restored.hash, loaded.hash)
+    assert.deepEqual(restored.report, loaded.report)
+    assert.deepEqual(restored.report.issues, { 'missing sku': 1 })
+  })
+})
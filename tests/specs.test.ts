@@ -0,0 +1,47 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseTemperatureRange, parseVoc } from '@/lib/catalog/specs'
+
+describe('parseTemperatureRange', () => {
+  test('reads a dash between two numbers as a range', () => {
+    assert.deepEqual(parseTemperatureRange('60-90°F'), { context: 'service', min: 60, max: 90 })
+    assert.deepEqual(parseTemperatureRange('20-25°C'), { context: 'service', min: 68, max: 77 })
+  })
+
+  test('gives a lower bound without a unit the upper bound\'s unit', () => {
+    assert.deepEqual(parseTemperatureRange('Application: 50 to 95°F'), { context: 'application', min: 50, max: 95 })
+    assert.deepEqual(parseTemperatureRange('-65 to 250 °F'), { context: 'service', min: -65, max: 250 })
+  })
+
+  test('keeps a leading minus sign', () => {
+    assert.deepEqual(parseTemperatureRange('-65°F to 350°F'), { context: 'service', min: -65, max: 350 })
+    assert.deepEqual(parseTemperatureRange('Service -40°C'), { context: 'service', min: -40, max: -40 })
+  })
+
+  test('reads limits as one-sided ranges', () => {
+    assert.deepEqual(parseTemperatureRange('up to 350°F'), { context: 'service', max: 350 })
+    assert.deepEqual(parseTemperatureRange('min 40°F'), { context: 'service', min: 40 })
+  })
+
+  test('returns null without a temperature', () => {
+    assert.equal(parseTemperatureRange('Room temperature'), null)
+  })
+})
+
+describe('parseVoc', () => {
+  test('prefers a number followed by a VOC unit', () => {
+    assert.deepEqual(parseVoc('Mixed VOC (EPA Method 24): 420 g/L'), { value: 420, unit: 'g/L' })
+  })
+
+  test('converts lb/gal to g/L', () => {
+    assert.deepEqual(parseVoc('3.5 lb/gal'), { value: 419.4, unit: 'g/L' })
+  })
+
+  test('reads bounds stated before the number', () => {
+    assert.deepEqual(parseVoc('< 25 g/L'), { value: 25, unit: 'g/L', bound: 'upper' })
+  })
+
+  test('falls back to a bare number', () => {
+    assert.deepEqual(parseVoc('340'), { value: 340, unit: 'g/L' })
+  })
+})
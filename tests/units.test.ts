@@ -0,0 +1,26 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { convertUnitsInText } from '@/lib/units'
+
+describe('convertUnitsInText', () => {
+  test('converts both ends of a dashed range', () => {
+    assert.equal(convertUnitsInText('Apply at 60-90°F', 'metric'), 'Apply at 15.6-32.2°C')
+    assert.equal(convertUnitsInText('Cure 7 days at 20-25°C', 'imperial'), 'Cure 7 days at 68-77°F')
+  })
+
+  test('converts both ends of a worded range', () => {
+    assert.equal(convertUnitsInText('Application: 50 to 95°F', 'metric'), 'Application: 10 to 35°C')
+  })
+
+  test('keeps a leading minus sign', () => {
+    assert.equal(convertUnitsInText('-65°F to 350°F', 'metric'), '-53.9°C to 176.7°C')
+  })
+
+  test('leaves quantities already in the requested system alone', () => {
+    assert.equal(convertUnitsInText('VOC 420 g/L at 77°F', 'imperial'), 'VOC 3.51 lb/gal at 77°F')
+  })
+
+  test('leaves MIL spec numbers alone', () => {
+    assert.equal(convertUnitsInText('MIL-PRF-85285, 2 mils DFT', 'metric'), 'MIL-PRF-85285, 50.8 µm DFT')
+  })
+})